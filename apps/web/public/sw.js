@@ -1,9 +1,11 @@
-const CACHE_NAME = 'paircalm-v1';
+const CACHE_NAME = 'paircalm-v2';
+// Build assets (/assets/*) are hashed, so they're cached as they're fetched
+// rather than listed here. Together with the navigation fallback this keeps pages that
+// work from on-device data (e.g. the safety plan) available offline.
 const urlsToCache = [
   '/',
   '/index.html',
-  '/assets/index.css',
-  '/assets/index.js',
+  '/manifest.json',
 ];
 
 self.addEventListener('install', (event) => {
@@ -14,13 +16,42 @@ self.addEventListener('install', (event) => {
 });
 
 self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Pages: network first so deploys show up, falling back to the last app
+  // shell we saw
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((networkResponse) => {
+          if (networkResponse.ok) {
+            const copy = networkResponse.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          }
+          return networkResponse;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
   event.respondWith(
-    caches.match(event.request)
+    caches.match(request)
       .then((response) => {
         if (response) {
           return response;
         }
-        return fetch(event.request);
+        return fetch(request).then((networkResponse) => {
+          if (networkResponse.ok && url.pathname.startsWith('/assets/')) {
+            const copy = networkResponse.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          }
+          return networkResponse;
+        });
       })
   );
 });
@@ -1,6 +1,7 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import ProtectedRoute from './components/ProtectedRoute';
+import QuickExit from './components/QuickExit';
 import Landing from './pages/Landing';
 import Login from './pages/Login';
 import Signup from './pages/Signup';
@@ -18,12 +19,17 @@ import Insights from './pages/Insights';
 import AICoach from './pages/AICoach';
 import Messages from './pages/Messages';
 import Crisis from './pages/Crisis';
+import SafetyPlan from './pages/SafetyPlan';
+import TrustedContacts from './pages/TrustedContacts';
+import TrustedContactConsent from './pages/TrustedContactConsent';
 import Rituals from './pages/Rituals';
 import Therapists from './pages/Therapists';
 import Workbook from './pages/Workbook';
 import JoinCouple from './pages/JoinCouple';
 import Community from './pages/Community';
 import Profile from './pages/Profile';
+import AttachmentStyle from './pages/AttachmentStyle';
+import Assessments from './pages/Assessments';
 import Wellness from './pages/Wellness';
 import Terms from './pages/Terms';
 import Privacy from './pages/Privacy';
@@ -38,6 +44,7 @@ function App() {
           <Route path="/login" element={<Login />} />
           <Route path="/signup" element={<Signup />} />
           <Route path="/join/:code" element={<JoinCouple />} />
+          <Route path="/trusted-contact/:code" element={<TrustedContactConsent />} />
           <Route
             path="/onboarding"
             element={
@@ -150,6 +157,22 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/safety-plan"
+            element={
+              <ProtectedRoute>
+                <SafetyPlan />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/trusted-contacts"
+            element={
+              <ProtectedRoute>
+                <TrustedContacts />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/rituals"
             element={
@@ -190,6 +213,22 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/assessments"
+            element={
+              <ProtectedRoute>
+                <Assessments />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/attachment-style"
+            element={
+              <ProtectedRoute>
+                <AttachmentStyle />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/wellness"
             element={
@@ -203,6 +242,7 @@ function App() {
           <Route path="/contact" element={<Contact />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
+        <QuickExit />
       </AuthProvider>
     </BrowserRouter>
   );
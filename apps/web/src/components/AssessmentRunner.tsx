@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Assessment, AssessmentQuestion, AssessmentAnswers } from '../lib/assessments';
+
+interface AssessmentRunnerProps {
+  assessment: Assessment;
+  questions: AssessmentQuestion[];
+  submitting: boolean;
+  onSubmit: (answers: AssessmentAnswers) => void;
+  submitLabel?: string;
+}
+
+// Renders any scale-based assessment. When every scale point has a label
+// (e.g. "Several days") the labels are the buttons; otherwise the buttons show
+// numbers with the labelled anchors underneath.
+export default function AssessmentRunner({
+  assessment,
+  questions,
+  submitting,
+  onSubmit,
+  submitLabel = 'See my result',
+}: AssessmentRunnerProps) {
+  const [answers, setAnswers] = useState<AssessmentAnswers>({});
+
+  const answeredCount = questions.filter((q) => answers[q.id] !== undefined).length;
+  const labels = assessment.response_labels || {};
+
+  return (
+    <div className="space-y-6">
+      {assessment.instructions && <p className="text-sm text-slate-600">{assessment.instructions}</p>}
+
+      {questions.map((question, index) => {
+        const values = Array.from(
+          { length: question.scale_max - question.scale_min + 1 },
+          (_, i) => question.scale_min + i
+        );
+        const fullyLabelled = values.every((value) => labels[value]);
+
+        return (
+          <div key={question.id}>
+            <p className="text-sm font-medium text-slate-900 mb-3">
+              {index + 1}. {question.question_text}
+            </p>
+            <div className={fullyLabelled ? 'grid grid-cols-2 sm:grid-cols-none sm:grid-flow-col sm:auto-cols-fr gap-2' : 'flex justify-between gap-1'}>
+              {values.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setAnswers((prev) => ({ ...prev, [question.id]: value }))}
+                  aria-label={labels[value] ? `${value} - ${labels[value]}` : String(value)}
+                  className={`${fullyLabelled ? 'px-2 text-xs' : 'flex-1 text-sm'} py-2 rounded-lg border-2 font-medium transition-all ${
+                    answers[question.id] === value
+                      ? 'border-rose-500 bg-rose-50 text-rose-700'
+                      : 'border-slate-200 hover:border-slate-300 text-slate-600'
+                  }`}
+                >
+                  {fullyLabelled ? labels[value] : value}
+                </button>
+              ))}
+            </div>
+            {!fullyLabelled && (
+              <div className="flex justify-between text-xs text-slate-500 mt-1">
+                <span>{labels[question.scale_min] || ''}</span>
+                <span>{labels[question.scale_max] || ''}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onSubmit(answers)}
+        disabled={submitting || answeredCount < questions.length}
+        className="w-full py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-rose-500 hover:bg-rose-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-rose-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {submitting ? 'Scoring...' : `${submitLabel} (${answeredCount}/${questions.length})`}
+      </button>
+    </div>
+  );
+}
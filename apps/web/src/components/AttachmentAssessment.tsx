@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  assessmentService,
+  Assessment,
+  AssessmentQuestion,
+  AssessmentAnswers,
+  AttachmentResult,
+  ATTACHMENT_ASSESSMENT_NAME,
+} from '../lib/assessments';
+import AssessmentRunner from './AssessmentRunner';
+
+interface AttachmentAssessmentProps {
+  onComplete: (result: AttachmentResult) => void;
+  onUnavailable?: () => void;
+}
+
+export default function AttachmentAssessment({ onComplete, onUnavailable }: AttachmentAssessmentProps) {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [assessment, setAssessment] = useState<Assessment | null>(null);
+  const [questions, setQuestions] = useState<AssessmentQuestion[]>([]);
+
+  useEffect(() => {
+    loadQuestions();
+  }, []);
+
+  const loadQuestions = async () => {
+    setLoading(true);
+    const found = await assessmentService.getAssessmentByName(ATTACHMENT_ASSESSMENT_NAME);
+    const items = found ? await assessmentService.getQuestions(found.id) : [];
+
+    setAssessment(found);
+    setQuestions(items);
+    setLoading(false);
+
+    if (!found || items.length === 0) {
+      onUnavailable?.();
+    }
+  };
+
+  const handleSubmit = async (answers: AssessmentAnswers) => {
+    if (!user || !assessment) return;
+
+    setSubmitting(true);
+    setError(null);
+    const result = await assessmentService.submitAttachmentAssessment(user.id, assessment, questions, answers);
+    setSubmitting(false);
+
+    if (!result) {
+      setError('We couldn\'t save your answers. Please try again.');
+      return;
+    }
+
+    onComplete(result);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-rose-500" />
+      </div>
+    );
+  }
+
+  if (!assessment || questions.length === 0) {
+    return (
+      <p className="text-sm text-slate-600 text-center py-4">
+        The attachment questionnaire isn't available right now.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <AssessmentRunner
+        assessment={assessment}
+        questions={questions}
+        submitting={submitting}
+        onSubmit={handleSubmit}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { discreetService, DISCREET_CHANGED_EVENT } from '../lib/discreet';
+
+// How close together two Escape presses must be to count as a quick exit
+const DOUBLE_PRESS_MS = 1000;
+
+// Always-visible exit for users in discreet mode. Pressing Escape twice does
+// the same from the keyboard.
+export default function QuickExit() {
+  const { user } = useAuth();
+  const [enabled, setEnabled] = useState(() => discreetService.getDeviceSettings().enabled);
+
+  useEffect(() => {
+    if (user) {
+      discreetService.getSettings(user.id);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    const handleChange = () => setEnabled(discreetService.getDeviceSettings().enabled);
+    window.addEventListener(DISCREET_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(DISCREET_CHANGED_EVENT, handleChange);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let lastEscape = 0;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      const now = Date.now();
+      if (now - lastEscape < DOUBLE_PRESS_MS) {
+        discreetService.quickExit();
+      }
+      lastEscape = now;
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+
+  if (!enabled) return null;
+
+  return (
+    <button
+      onClick={() => discreetService.quickExit()}
+      className="fixed bottom-4 right-4 z-50 flex items-center space-x-1 bg-slate-800 hover:bg-slate-900 text-white text-sm font-medium px-4 py-3 rounded-full shadow-lg"
+      aria-label="Quick exit"
+    >
+      <X className="w-4 h-4" />
+      <span>Exit</span>
+    </button>
+  );
+}
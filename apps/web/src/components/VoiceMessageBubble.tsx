@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Loader2, Mic, Play } from 'lucide-react';
+import { VoiceMessage, voiceMessageService } from '../lib/voice';
+
+interface VoiceMessageBubbleProps {
+  voiceMessage: VoiceMessage;
+  isOwn: boolean;
+}
+
+export default function VoiceMessageBubble({ voiceMessage, isOwn }: VoiceMessageBubbleProps) {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [loadingAudio, setLoadingAudio] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
+
+  const handleLoad = async () => {
+    setLoadingAudio(true);
+    const url = await voiceMessageService.getPlaybackUrl(voiceMessage.audio_url);
+    setAudioUrl(url);
+    setLoadingAudio(false);
+  };
+
+  const handlePlay = () => {
+    if (!isOwn && !voiceMessage.is_listened) {
+      voiceMessageService.markAsListened(voiceMessage.id);
+    }
+  };
+
+  const timestamp = voiceMessage.delivered_at || voiceMessage.created_at;
+
+  return (
+    <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+      <div
+        className={`max-w-2xl rounded-2xl px-4 py-3 ${
+          isOwn ? 'bg-blue-500 text-white' : 'bg-white border border-slate-200 text-slate-900'
+        }`}
+      >
+        <div className="flex items-center space-x-2">
+          <Mic className="w-4 h-4 flex-shrink-0" />
+          {audioUrl ? (
+            <audio src={audioUrl} controls autoPlay onPlay={handlePlay} className="h-8" />
+          ) : (
+            <button
+              onClick={handleLoad}
+              disabled={loadingAudio}
+              className="flex items-center space-x-1 text-sm font-medium"
+            >
+              {loadingAudio ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4" />
+              )}
+              <span>Voice message • {voiceMessage.duration_seconds}s</span>
+            </button>
+          )}
+        </div>
+        {voiceMessage.transcription && (
+          <button
+            onClick={() => setShowTranscript(!showTranscript)}
+            className={`text-xs mt-1 ${isOwn ? 'text-blue-100' : 'text-slate-500'}`}
+          >
+            {showTranscript ? 'Hide transcript' : 'Show transcript'}
+          </button>
+        )}
+        {showTranscript && (
+          <p className="text-sm whitespace-pre-wrap mt-1 italic">{voiceMessage.transcription}</p>
+        )}
+        <div className={`text-xs mt-1 ${isOwn ? 'text-blue-100' : 'text-slate-500'}`}>
+          {new Date(timestamp).toLocaleTimeString([], {
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+          {isOwn && voiceMessage.is_listened && ' • Listened'}
+        </div>
+      </div>
+    </div>
+  );
+}
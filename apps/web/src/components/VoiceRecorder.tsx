@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import { Mic, Square } from 'lucide-react';
+
+interface VoiceRecorderProps {
+  disabled?: boolean;
+  maxSeconds?: number;
+  onRecorded: (audio: Blob, durationSeconds: number) => void;
+}
+
+export default function VoiceRecorder({ disabled, maxSeconds = 120, onRecorded }: VoiceRecorderProps) {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearInterval(timerRef.current);
+      recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const startRecording = async () => {
+    setError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError('Voice recording is not supported in this browser');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        const duration = (Date.now() - startedAtRef.current) / 1000;
+        const audio = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+        if (audio.size > 0) {
+          onRecorded(audio, duration);
+        }
+      };
+
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      recorder.start();
+      setRecording(true);
+      setElapsed(0);
+
+      timerRef.current = setInterval(() => {
+        const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000);
+        setElapsed(seconds);
+        if (seconds >= maxSeconds) {
+          stopRecording();
+        }
+      }, 250);
+    } catch (err) {
+      console.error('Error starting voice recording:', err);
+      setError('Microphone access was denied');
+    }
+  };
+
+  const stopRecording = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    setRecording(false);
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      {recording && (
+        <span className="flex items-center space-x-1 text-xs text-rose-600">
+          <span className="w-2 h-2 rounded-full bg-rose-500 animate-pulse" />
+          <span>
+            {Math.floor(elapsed / 60)}:{String(elapsed % 60).padStart(2, '0')}
+          </span>
+        </span>
+      )}
+      {error && !recording && <span className="text-xs text-rose-600">{error}</span>}
+      <button
+        onClick={recording ? stopRecording : startRecording}
+        disabled={disabled && !recording}
+        className={`rounded-xl p-3 border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+          recording
+            ? 'border-rose-300 bg-rose-50 text-rose-600'
+            : 'border-slate-300 text-slate-500 hover:text-slate-700'
+        }`}
+        title={recording ? 'Stop recording' : 'Record voice message'}
+      >
+        {recording ? <Square className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+      </button>
+    </div>
+  );
+}
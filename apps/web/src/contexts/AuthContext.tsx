@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { safetyPlanService } from '../lib/safetyPlan';
 
 interface UserProfile {
   id: string;
@@ -9,6 +10,7 @@ interface UserProfile {
   avatar_url: string | null;
   onboarding_completed: boolean;
   attachment_style: string | null;
+  attachment_personalization: boolean;
 }
 
 interface AuthContextType {
@@ -112,6 +114,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    safetyPlanService.clearCachedPlans();
     await supabase.auth.signOut();
     setUser(null);
     setProfile(null);
@@ -0,0 +1,346 @@
+import { supabase } from './supabase';
+import { AttachmentStyle } from './attachment';
+
+export const ATTACHMENT_ASSESSMENT_NAME = 'ECR-S';
+
+// ECR-S dimension means at or above the scale midpoint count as high
+const ATTACHMENT_CUTOFF = 4;
+
+export type Severity = 'none' | 'mild' | 'moderate' | 'severe';
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  label: string;
+  severity: Severity;
+}
+
+export interface Assessment {
+  id: string;
+  name: string;
+  description: string;
+  category: 'anxiety' | 'depression' | 'wellness' | 'stress' | 'general' | 'attachment';
+  instructions: string;
+  scoring_method: 'sum' | 'mean';
+  severity_bands: SeverityBand[];
+  response_labels: Record<string, string>;
+  retake_interval_days: number | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface AssessmentQuestion {
+  id: string;
+  assessment_id: string;
+  question_text: string;
+  question_order: number;
+  response_type: 'scale' | 'yes_no' | 'text';
+  scale_min: number;
+  scale_max: number;
+  dimension: string | null;
+  reverse_scored: boolean;
+  critical_threshold: number | null;
+  created_at: string;
+}
+
+export interface AssessmentResponse {
+  id: string;
+  client_id: string;
+  assessment_id: string;
+  total_score: number;
+  dimension_scores: Record<string, number>;
+  result: string | null;
+  severity: Severity | null;
+  critical_flag: boolean;
+  completed_at: string;
+  created_at: string;
+}
+
+export interface AttachmentResult {
+  style: AttachmentStyle;
+  anxiety: number;
+  avoidance: number;
+}
+
+export interface AssessmentScore {
+  score: number;
+  totalScore: number;
+  dimensionScores: Record<string, number>;
+  band: SeverityBand | null;
+  criticalFlag: boolean;
+}
+
+// Answers keyed by question id
+export type AssessmentAnswers = Record<string, number>;
+
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+export function scoreQuestion(question: AssessmentQuestion, answer: number): number {
+  return question.reverse_scored ? question.scale_min + question.scale_max - answer : answer;
+}
+
+// Mean of the (reverse-adjusted) answers for each dimension, to two decimals
+export function scoreDimensions(
+  questions: AssessmentQuestion[],
+  answers: AssessmentAnswers
+): Record<string, number> {
+  const totals: Record<string, { sum: number; count: number }> = {};
+
+  for (const question of questions) {
+    const answer = answers[question.id];
+    if (!question.dimension || answer === undefined) continue;
+
+    const total = totals[question.dimension] || { sum: 0, count: 0 };
+    total.sum += scoreQuestion(question, answer);
+    total.count += 1;
+    totals[question.dimension] = total;
+  }
+
+  return Object.fromEntries(
+    Object.entries(totals).map(([dimension, { sum, count }]) => [dimension, roundScore(sum / count)])
+  );
+}
+
+export function findSeverityBand(assessment: Assessment, score: number): SeverityBand | null {
+  return assessment.severity_bands.find((band) => score >= band.min && score <= band.max) || null;
+}
+
+// Applies the assessment's scoring rules: reverse-scored items, sum or mean,
+// severity band, and critical items that flag a response whatever the total
+export function scoreAssessment(
+  assessment: Assessment,
+  questions: AssessmentQuestion[],
+  answers: AssessmentAnswers
+): AssessmentScore {
+  const answered = questions.filter((question) => answers[question.id] !== undefined);
+  const totalScore = answered.reduce((sum, question) => sum + scoreQuestion(question, answers[question.id]), 0);
+  const score =
+    assessment.scoring_method === 'mean' && answered.length > 0 ? roundScore(totalScore / answered.length) : totalScore;
+
+  return {
+    score,
+    totalScore,
+    dimensionScores: scoreDimensions(questions, answers),
+    band: findSeverityBand(assessment, score),
+    criticalFlag: answered.some(
+      (question) => question.critical_threshold !== null && answers[question.id] >= question.critical_threshold
+    ),
+  };
+}
+
+// Severe results and critical items (e.g. thoughts of self-harm) link into the crisis flow
+export function needsCrisisSupport(response: Pick<AssessmentResponse, 'severity' | 'critical_flag'>): boolean {
+  return response.severity === 'severe' || response.critical_flag;
+}
+
+export function getNextDueDate(assessment: Assessment, lastResponse?: AssessmentResponse): Date | null {
+  if (!assessment.retake_interval_days || !lastResponse) {
+    return null;
+  }
+
+  const due = new Date(lastResponse.completed_at);
+  due.setDate(due.getDate() + assessment.retake_interval_days);
+  return due;
+}
+
+// Highest score the bands cover, used to scale trend charts. Assessments
+// without bands fall back to the highest possible answers, on the same sum or
+// mean scale as the stored total_score.
+export function getMaxScore(assessment: Assessment, questions: AssessmentQuestion[] = []): number {
+  if (assessment.severity_bands.length > 0) {
+    return Math.max(...assessment.severity_bands.map((band) => band.max));
+  }
+  if (assessment.scoring_method === 'mean') {
+    return questions.reduce((max, question) => Math.max(max, question.scale_max), 0);
+  }
+  return questions.reduce((sum, question) => sum + question.scale_max, 0);
+}
+
+export function classifyAttachment(anxiety: number, avoidance: number): AttachmentStyle {
+  const highAnxiety = anxiety >= ATTACHMENT_CUTOFF;
+  const highAvoidance = avoidance >= ATTACHMENT_CUTOFF;
+
+  if (highAnxiety && highAvoidance) return 'fearful-avoidant';
+  if (highAnxiety) return 'anxious';
+  if (highAvoidance) return 'avoidant';
+  return 'secure';
+}
+
+export function toAttachmentResult(response: AssessmentResponse): AttachmentResult {
+  const anxiety = response.dimension_scores.anxiety ?? 0;
+  const avoidance = response.dimension_scores.avoidance ?? 0;
+  return {
+    style: (response.result as AttachmentStyle) || classifyAttachment(anxiety, avoidance),
+    anxiety,
+    avoidance,
+  };
+}
+
+export const assessmentService = {
+  async getAssessments(): Promise<Assessment[]> {
+    const { data, error } = await supabase
+      .from('assessments')
+      .select('*')
+      .eq('is_active', true)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching assessments:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async getAssessment(assessmentId: string): Promise<Assessment | null> {
+    const { data, error } = await supabase
+      .from('assessments')
+      .select('*')
+      .eq('id', assessmentId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching assessment:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  async getAssessmentByName(name: string): Promise<Assessment | null> {
+    const { data, error } = await supabase
+      .from('assessments')
+      .select('*')
+      .eq('name', name)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching assessment:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  async getQuestions(assessmentId: string): Promise<AssessmentQuestion[]> {
+    const { data, error } = await supabase
+      .from('assessment_questions')
+      .select('*')
+      .eq('assessment_id', assessmentId)
+      .order('question_order');
+
+    if (error) {
+      console.error('Error fetching assessment questions:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // All of a user's results, newest first
+  async getAllResponses(userId: string): Promise<AssessmentResponse[]> {
+    const { data, error } = await supabase
+      .from('assessment_responses')
+      .select('*')
+      .eq('client_id', userId)
+      .order('completed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching assessment responses:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async getResponses(userId: string, assessmentId: string): Promise<AssessmentResponse[]> {
+    const { data, error } = await supabase
+      .from('assessment_responses')
+      .select('*')
+      .eq('client_id', userId)
+      .eq('assessment_id', assessmentId)
+      .order('completed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching assessment responses:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async submitAssessment(
+    userId: string,
+    assessment: Assessment,
+    questions: AssessmentQuestion[],
+    answers: AssessmentAnswers,
+    result?: string
+  ): Promise<AssessmentResponse | null> {
+    const scored = scoreAssessment(assessment, questions, answers);
+
+    const { data: response, error } = await supabase
+      .from('assessment_responses')
+      .insert({
+        client_id: userId,
+        assessment_id: assessment.id,
+        total_score: scored.score,
+        dimension_scores: scored.dimensionScores,
+        result: result ?? scored.band?.label ?? null,
+        severity: scored.band?.severity ?? null,
+        critical_flag: scored.criticalFlag,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving assessment response:', error);
+      return null;
+    }
+
+    const { error: answersError } = await supabase.from('question_responses').insert(
+      questions
+        .filter((question) => answers[question.id] !== undefined)
+        .map((question) => ({
+          assessment_response_id: response.id,
+          question_id: question.id,
+          response_value: String(answers[question.id]),
+        }))
+    );
+
+    if (answersError) {
+      console.error('Error saving question responses:', answersError);
+    }
+
+    return response;
+  },
+
+  // Scores the ECR-S, records the result and updates the profile's attachment style
+  async submitAttachmentAssessment(
+    userId: string,
+    assessment: Assessment,
+    questions: AssessmentQuestion[],
+    answers: AssessmentAnswers
+  ): Promise<AttachmentResult | null> {
+    const scores = scoreDimensions(questions, answers);
+    const style = classifyAttachment(scores.anxiety ?? 0, scores.avoidance ?? 0);
+
+    const response = await assessmentService.submitAssessment(userId, assessment, questions, answers, style);
+    if (!response) {
+      return null;
+    }
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ attachment_style: style, updated_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Error updating attachment style:', error);
+      return null;
+    }
+
+    return toAttachmentResult(response);
+  },
+};
@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+import type { AttachmentStyle } from '../../../../supabase/functions/_shared/attachmentGuidance.ts';
+
+export type { AttachmentStyle };
+
+// Styles the coach and tone analysis may use. Both are null when the user has
+// turned personalization off; partnerStyle is also null when the partner has.
+export interface AttachmentContext {
+  enabled: boolean;
+  style: AttachmentStyle | null;
+  partnerStyle: AttachmentStyle | null;
+}
+
+export const ATTACHMENT_STYLES: { value: AttachmentStyle; label: string; description: string }[] = [
+  {
+    value: 'secure',
+    label: 'Secure',
+    description: 'Comfortable with intimacy and independence',
+  },
+  {
+    value: 'anxious',
+    label: 'Anxious',
+    description: 'Crave closeness, worry about abandonment',
+  },
+  {
+    value: 'avoidant',
+    label: 'Avoidant',
+    description: 'Value independence, uncomfortable with too much closeness',
+  },
+  {
+    value: 'fearful-avoidant',
+    label: 'Fearful-Avoidant',
+    description: 'Want closeness but fear getting hurt',
+  },
+];
+
+export const attachmentService = {
+  async getAttachmentContext(): Promise<AttachmentContext | null> {
+    const { data, error } = await supabase.rpc('get_attachment_context');
+
+    if (error) {
+      console.error('Error fetching attachment context:', error);
+      return null;
+    }
+
+    return {
+      enabled: data.enabled,
+      style: data.style,
+      partnerStyle: data.partner_style,
+    };
+  },
+
+  async setPersonalization(userId: string, enabled: boolean): Promise<boolean> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ attachment_personalization: enabled })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Error updating attachment personalization:', error);
+      return false;
+    }
+
+    return true;
+  },
+};
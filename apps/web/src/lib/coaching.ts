@@ -1,5 +1,9 @@
 import { supabase } from './supabase';
 import { biometricService } from './biometric';
+import { CrisisHotline, crisisService } from './crisis';
+import { ritualsService } from './rituals';
+import { AttachmentStyle, attachmentService } from './attachment';
+import { detectCrisisLanguage } from '../../../../supabase/functions/_shared/crisisLanguage.ts';
 
 export interface CoachingSession {
   id: string;
@@ -15,6 +19,9 @@ export interface CoachingSession {
   nervous_system_zone?: 'green' | 'yellow' | 'red';
   outcome?: string;
   effectiveness_rating?: number;
+  crisis_detected_at?: string;
+  is_joint?: boolean;
+  current_turn_user_id?: string;
   created_at: string;
 }
 
@@ -24,6 +31,29 @@ export interface CoachingMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   context_data?: any;
+  sender_id?: string;
+  created_at: string;
+}
+
+export interface CoachingParticipant {
+  id: string;
+  session_id: string;
+  user_id: string;
+  joined_at?: string;
+  created_at: string;
+  user_profiles?: {
+    full_name: string;
+  };
+}
+
+export interface CoachingMemory {
+  id: string;
+  user_id: string;
+  session_id: string;
+  summary: string;
+  topics: string[];
+  outcome?: string;
+  effectiveness_rating?: number;
   created_at: string;
 }
 
@@ -36,6 +66,10 @@ export interface CoachingTechnique {
   recommended_for_zones: string[];
   is_active: boolean;
   created_at: string;
+  ranking?: {
+    score: number;
+    reasons: string[];
+  };
 }
 
 export interface CoachingContext {
@@ -46,6 +80,36 @@ export interface CoachingContext {
   recentConflicts?: any[];
   conflictPatterns?: any[];
   partnerReadiness?: number;
+  country?: string;
+  timezoneOffsetMinutes?: number;
+  attachmentStyle?: AttachmentStyle;
+  partnerAttachmentStyle?: AttachmentStyle;
+}
+
+// Proposed by the coach through tool calling; only run after the user confirms
+export interface CoachAction {
+  id: string;
+  type: 'start_cooling_off' | 'log_conflict' | 'schedule_weekly_meeting' | 'open_breathing_exercise';
+  title: string;
+  description: string;
+  params: Record<string, string | number>;
+}
+
+// A library item the coach's reply refers to, numbered as cited in the text
+export interface CoachCitation {
+  number: number;
+  id: string;
+  source: 'wellness_content' | 'workbook_exercises' | 'coaching_techniques' | 'rituals';
+  title: string;
+  summary: string;
+  link: string;
+}
+
+export interface CoachCrisisResponse {
+  category: 'self_harm' | 'violence' | 'abuse';
+  hotlines: CrisisHotline[];
+  // Private session the conversation moved to when it happened in a joint one
+  sessionId?: string;
 }
 
 export interface ChatMessage {
@@ -54,6 +118,11 @@ export interface ChatMessage {
   timestamp: Date;
   techniques?: CoachingTechnique[];
   context?: any;
+  crisis?: CoachCrisisResponse;
+  actions?: CoachAction[];
+  citations?: CoachCitation[];
+  quotaExceeded?: boolean;
+  senderId?: string;
 }
 
 export const coachingService = {
@@ -111,6 +180,105 @@ export const coachingService = {
       return false;
     }
 
+    await this.summarizeSession(sessionId);
+    return true;
+  },
+
+  // Joint sessions can't be updated directly; either partner can end them
+  async endJointSession(
+    sessionId: string,
+    outcome?: string,
+    effectivenessRating?: number
+  ): Promise<boolean> {
+    const { data, error } = await supabase.rpc('end_joint_coaching_session', {
+      p_session_id: sessionId,
+      p_outcome: outcome || '',
+      p_effectiveness_rating: effectivenessRating ?? null,
+    });
+
+    if (error) {
+      console.error('Error ending joint coaching session:', error);
+      return false;
+    }
+
+    if (!data) return false;
+
+    await this.summarizeSession(sessionId);
+    return true;
+  },
+
+  async summarizeSession(sessionId: string): Promise<CoachingMemory | null> {
+    try {
+      const session = await supabase.auth.getSession();
+      if (!session.data.session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/coaching-session-summary`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${session.data.session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ sessionId }),
+        }
+      );
+
+      if (!response.ok) {
+        console.error('Coaching summary API error:', response.status);
+        return null;
+      }
+
+      const data = await response.json();
+      return data.memory;
+    } catch (error) {
+      console.error('Error summarizing coaching session:', error);
+      return null;
+    }
+  },
+
+  async getMemories(userId: string): Promise<CoachingMemory[]> {
+    const { data, error } = await supabase
+      .from('coaching_memories')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching coaching memories:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async deleteMemory(memoryId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('coaching_memories')
+      .delete()
+      .eq('id', memoryId);
+
+    if (error) {
+      console.error('Error deleting coaching memory:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  async clearMemories(userId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('coaching_memories')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error clearing coaching memories:', error);
+      return false;
+    }
+
     return true;
   },
 
@@ -170,6 +338,208 @@ export const coachingService = {
     return data || [];
   },
 
+  async getSession(sessionId: string): Promise<CoachingSession | null> {
+    const { data, error } = await supabase
+      .from('coaching_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching coaching session:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  async getActiveSession(userId: string): Promise<CoachingSession | null> {
+    const { data, error } = await supabase
+      .from('coaching_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching active coaching session:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  async abandonStaleSessions(): Promise<number> {
+    const { data, error } = await supabase.rpc('auto_abandon_stale_coaching_sessions');
+
+    if (error) {
+      console.error('Error abandoning stale coaching sessions:', error);
+      return 0;
+    }
+
+    return data || 0;
+  },
+
+  // Same screen the coach runs server-side. Joint sessions use it to keep a
+  // disclosure out of the transcript the partner reads.
+  isCrisisMessage(content: string): boolean {
+    return detectCrisisLanguage(content) !== null;
+  },
+
+  toChatMessages(messages: CoachingMessage[]): ChatMessage[] {
+    return messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({
+        role: m.role,
+        content: m.content,
+        timestamp: new Date(m.created_at),
+        citations: m.context_data?.citations,
+        senderId: m.sender_id,
+      }));
+  },
+
+  async createJointSession(
+    userId: string,
+    coupleId: string,
+    partnerId: string,
+    context?: {
+      heartRate?: number;
+      readinessScore?: number;
+      nervousSystemZone?: 'green' | 'yellow' | 'red';
+    }
+  ): Promise<CoachingSession | null> {
+    const { data: session, error } = await supabase
+      .from('coaching_sessions')
+      .insert({
+        user_id: userId,
+        couple_id: coupleId,
+        session_type: 'conflict',
+        topic: '',
+        status: 'active',
+        is_joint: true,
+        current_turn_user_id: userId,
+        user_heart_rate_start: context?.heartRate,
+        user_readiness_score: context?.readinessScore,
+        nervous_system_zone: context?.nervousSystemZone,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating joint coaching session:', error);
+      return null;
+    }
+
+    const { error: participantsError } = await supabase
+      .from('coaching_session_participants')
+      .insert([
+        { session_id: session.id, user_id: userId, joined_at: new Date().toISOString() },
+        { session_id: session.id, user_id: partnerId },
+      ]);
+
+    if (participantsError) {
+      console.error('Error inviting partner to joint session:', participantsError);
+      return null;
+    }
+
+    return session;
+  },
+
+  async joinJointSession(sessionId: string, userId: string): Promise<CoachingSession | null> {
+    const { error } = await supabase
+      .from('coaching_session_participants')
+      .update({ joined_at: new Date().toISOString() })
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .is('joined_at', null);
+
+    if (error) {
+      console.error('Error joining joint session:', error);
+      return null;
+    }
+
+    const { data, error: sessionError } = await supabase
+      .from('coaching_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError) {
+      console.error('Error fetching joint session:', sessionError);
+      return null;
+    }
+
+    return data;
+  },
+
+  async getParticipants(sessionId: string): Promise<CoachingParticipant[]> {
+    const { data, error } = await supabase
+      .from('coaching_session_participants')
+      .select('*, user_profiles(full_name)')
+      .eq('session_id', sessionId);
+
+    if (error) {
+      console.error('Error fetching session participants:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Returns the participant who now has the turn
+  async passTurn(sessionId: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('pass_joint_coaching_turn', {
+      p_session_id: sessionId,
+    });
+
+    if (error) {
+      console.error('Error passing turn:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  subscribeToSession(
+    sessionId: string,
+    onMessage: (message: CoachingMessage) => void,
+    onSessionUpdate: (session: CoachingSession) => void
+  ) {
+    const channel = supabase
+      .channel(`coaching_session:${sessionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'coaching_messages',
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload) => {
+          onMessage(payload.new as CoachingMessage);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'coaching_sessions',
+          filter: `id=eq.${sessionId}`,
+        },
+        (payload) => {
+          onSessionUpdate(payload.new as CoachingSession);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
   async getTechniques(zone?: string): Promise<CoachingTechnique[]> {
     let query = supabase
       .from('coaching_techniques')
@@ -193,7 +563,14 @@ export const coachingService = {
   async sendMessage(
     messages: ChatMessage[],
     context: CoachingContext
-  ): Promise<{ message: string; techniques: CoachingTechnique[]; context: any } | null> {
+  ): Promise<{
+    message: string;
+    techniques: CoachingTechnique[];
+    actions?: CoachAction[];
+    citations?: CoachCitation[];
+    context: any;
+    quotaExceeded?: boolean;
+  } | null> {
     try {
       const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-coach`;
 
@@ -209,6 +586,11 @@ export const coachingService = {
         }),
       });
 
+      if (response.status === 429) {
+        const data = await response.json();
+        return { message: data.message, techniques: [], context: undefined, quotaExceeded: true };
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
         console.error('AI Coach API error:', errorText);
@@ -223,8 +605,128 @@ export const coachingService = {
     }
   },
 
+  async streamMessage(
+    messages: ChatMessage[],
+    context: CoachingContext,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<{
+    message: string;
+    techniques: CoachingTechnique[];
+    actions?: CoachAction[];
+    citations?: CoachCitation[];
+    context: ChatMessage['context'];
+    crisis?: CoachCrisisResponse;
+    quotaExceeded?: boolean;
+  } | null> {
+    try {
+      const session = await supabase.auth.getSession();
+      if (!session.data.session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-coach`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.data.session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messages: messages.map(m => ({ role: m.role, content: m.content })),
+          context,
+          stream: true,
+        }),
+        signal,
+      });
+
+      // Monthly quota used up: the server explains when it resets
+      if (response.status === 429) {
+        const data = await response.json();
+        return { message: data.message, techniques: [], context: undefined, quotaExceeded: true };
+      }
+
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        console.error('AI Coach API error:', errorText);
+        throw new Error(`AI Coach API error: ${response.status}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          if (!event.startsWith('data:')) continue;
+          const data = JSON.parse(event.slice(5));
+
+          if (data.type === 'delta') {
+            onDelta(data.content);
+          } else if (data.type === 'done') {
+            return data;
+          } else if (data.type === 'error') {
+            throw new Error(data.error);
+          }
+        }
+      }
+
+      throw new Error('AI coach stream ended unexpectedly');
+    } catch (error) {
+      if (signal?.aborted) return null;
+      console.error('Error streaming message from AI coach:', error);
+      return null;
+    }
+  },
+
+  // Runs a confirmed coach action through the same services the rest of the
+  // app uses. Breathing exercises are navigation and handled by the page.
+  async runAction(action: CoachAction, userId: string, coupleId: string): Promise<boolean> {
+    switch (action.type) {
+      case 'start_cooling_off': {
+        const period = await crisisService.startCoolingOffPeriod(
+          coupleId,
+          userId,
+          String(action.params.reason),
+          Number(action.params.durationHours)
+        );
+        return !!period;
+      }
+      case 'log_conflict': {
+        const { error } = await supabase.from('conflicts').insert({
+          couple_id: coupleId,
+          initiated_by: userId,
+          status: 'active',
+          topic: String(action.params.topic),
+          intensity_level: Number(action.params.intensity),
+        });
+
+        if (error) {
+          console.error('Error logging conflict from coach:', error);
+          return false;
+        }
+
+        return true;
+      }
+      case 'schedule_weekly_meeting':
+        return ritualsService.scheduleWeeklyMeeting(coupleId, String(action.params.scheduledFor));
+      default:
+        return false;
+    }
+  },
+
   async buildContext(userId: string, coupleId?: string): Promise<CoachingContext> {
-    const context: CoachingContext = {};
+    const context: CoachingContext = {
+      timezoneOffsetMinutes: new Date().getTimezoneOffset(),
+    };
+
+    // Same country the Crisis page shows hotlines for
+    context.country = await crisisService.getHotlineCountry(userId);
 
     if (biometricService.isConnected()) {
       const latestReading = biometricService.getLatestReading();
@@ -236,7 +738,7 @@ export const coachingService = {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - 7);
 
-    const [readinessData, checkInData, conflictsData, patternsData] = await Promise.all([
+    const [readinessData, checkInData, conflictsData, patternsData, attachment] = await Promise.all([
       supabase
         .from('check_ins')
         .select('readiness_score')
@@ -267,6 +769,7 @@ export const coachingService = {
             .order('last_detected', { ascending: false })
             .limit(5)
         : { data: null },
+      attachmentService.getAttachmentContext(),
     ]);
 
     if (readinessData.data?.readiness_score) {
@@ -285,6 +788,14 @@ export const coachingService = {
       context.conflictPatterns = patternsData.data;
     }
 
+    if (attachment?.style) {
+      context.attachmentStyle = attachment.style;
+    }
+
+    if (attachment?.partnerStyle) {
+      context.partnerAttachmentStyle = attachment.partnerStyle;
+    }
+
     if (coupleId) {
       const { data: coupleData } = await supabase
         .from('couples')
@@ -1,4 +1,34 @@
 import { supabase } from './supabase';
+import { trustedContactsService } from './trustedContacts';
+import {
+  DEFAULT_INTERVENTION_RULES,
+  evaluateInterventionRules,
+  toInterventionRules,
+  toRecordInterventionParams,
+  type InterventionRule,
+} from '../../../../supabase/functions/_shared/interventionRules.ts';
+import {
+  DEFAULT_HOTLINE_COUNTRY,
+  resolveHotlineCountry,
+} from '../../../../supabase/functions/_shared/hotlineDirectory.ts';
+
+export {
+  CRISIS_FACTORS,
+  compareCrisisScores,
+  describeDrivers,
+  scoreCrisisFactors,
+  weekOverWeek,
+} from '../../../../supabase/functions/_shared/crisisScore.ts';
+export {
+  DEFAULT_HOTLINE_COUNTRY,
+  resolveHotlineCountry,
+} from '../../../../supabase/functions/_shared/hotlineDirectory.ts';
+export type {
+  CrisisFactor,
+  CrisisScoreBreakdown,
+  CrisisTrajectory,
+  FactorContribution,
+} from '../../../../supabase/functions/_shared/crisisScore.ts';
 
 export interface CrisisScore {
   id: string;
@@ -32,6 +62,10 @@ export interface CrisisIntervention {
   action_required: boolean;
   action_taken?: 'acknowledged' | 'accepted' | 'declined' | 'ignored';
   expires_at?: string;
+  dedup_key?: string;
+  occurrence_count: number;
+  last_triggered_at?: string;
+  escalated_at?: string;
   triggered_at: string;
   acknowledged_at?: string;
   created_at: string;
@@ -41,13 +75,19 @@ export interface CrisisHotline {
   id: string;
   country: string;
   name: string;
-  phone: string;
+  phone: string | null;
+  sms_number: string | null;
+  sms_keyword: string | null;
+  chat_url: string | null;
   type: 'mental_health' | 'domestic_violence' | 'suicide_prevention' | 'relationship';
   description: string;
   available_24_7: boolean;
   website: string;
+  languages: string[];
+  verified_on: string | null;
   is_active: boolean;
   created_at: string;
+  updated_at: string;
 }
 
 export interface CoolingOffPeriod {
@@ -68,11 +108,13 @@ export interface SafetyCheck {
   id: string;
   couple_id: string;
   target_user_id: string;
-  check_type: 'disengagement' | 'sustained_red_zone' | 'high_risk_pattern';
+  check_type: 'disengagement' | 'sustained_red_zone' | 'high_risk_pattern' | 'crisis_language' | 'self_report';
   message: string;
   response?: string;
   responded_at?: string;
   requires_escalation: boolean;
+  is_private: boolean;
+  escalate_at?: string;
   created_at: string;
 }
 
@@ -129,6 +171,7 @@ export const crisisService = {
       .select('*')
       .eq('couple_id', coupleId)
       .is('acknowledged_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
       .order('triggered_at', { ascending: false });
 
     if (error) {
@@ -194,7 +237,59 @@ export const crisisService = {
     return data;
   },
 
-  async getCrisisHotlines(country = 'US'): Promise<CrisisHotline[]> {
+  // The user's chosen country, else the one their profile time zone (or
+  // this device's) is in, else the browser locale's region
+  async getHotlineCountry(userId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('timezone, hotline_country')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching hotline country:', error);
+    }
+
+    return resolveHotlineCountry({
+      override: data?.hotline_country,
+      timeZone: data?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+      locale: navigator.language,
+    });
+  },
+
+  // Pass null to go back to the country worked out automatically
+  async setHotlineCountry(userId: string, country: string | null): Promise<boolean> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ hotline_country: country })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Error saving hotline country:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Countries the directory has active hotlines for
+  async getHotlineCountries(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('crisis_hotlines')
+      .select('country')
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Error fetching hotline countries:', error);
+      return [DEFAULT_HOTLINE_COUNTRY];
+    }
+
+    return [...new Set((data || []).map((h) => h.country as string))].sort();
+  },
+
+  // Read-only on purpose: looking up hotlines, including domestic violence
+  // lines, is never recorded, so it can't show up anywhere the partner sees
+  async getCrisisHotlines(country = DEFAULT_HOTLINE_COUNTRY): Promise<CrisisHotline[]> {
     const { data, error } = await supabase
       .from('crisis_hotlines')
       .select('*')
@@ -336,9 +431,47 @@ export const crisisService = {
       return false;
     }
 
+    if (requiresEscalation) {
+      await trustedContactsService.escalateSafetyCheck(checkId);
+    }
+
     return true;
   },
 
+  // A check-in only the user can see, recorded without being asked
+  async recordPrivateCheckIn(
+    coupleId: string,
+    userId: string,
+    response: string,
+    requiresEscalation = false
+  ): Promise<SafetyCheck | null> {
+    const { data, error } = await supabase
+      .from('safety_checks')
+      .insert({
+        couple_id: coupleId,
+        target_user_id: userId,
+        check_type: 'self_report',
+        message: 'Private check-in',
+        response,
+        responded_at: new Date().toISOString(),
+        requires_escalation: requiresEscalation,
+        is_private: true,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error recording private check-in:', error);
+      return null;
+    }
+
+    if (requiresEscalation) {
+      await trustedContactsService.escalateSafetyCheck(data.id);
+    }
+
+    return data;
+  },
+
   async getPendingSafetyChecks(userId: string): Promise<SafetyCheck[]> {
     const { data, error } = await supabase
       .from('safety_checks')
@@ -355,100 +488,50 @@ export const crisisService = {
     return data || [];
   },
 
+  async getInterventionRules(): Promise<InterventionRule[]> {
+    const { data, error } = await supabase
+      .from('crisis_intervention_rules')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Error fetching intervention rules, using defaults:', error);
+      return DEFAULT_INTERVENTION_RULES;
+    }
+
+    return toInterventionRules(data || []);
+  },
+
+  // Creates the intervention for a matched rule, or refreshes/escalates the
+  // one already open for the same condition
+  async recordIntervention(
+    coupleId: string,
+    crisisScoreId: string,
+    rule: InterventionRule
+  ): Promise<CrisisIntervention | null> {
+    const { data, error } = await supabase.rpc(
+      'record_crisis_intervention',
+      toRecordInterventionParams(coupleId, crisisScoreId, rule)
+    );
+
+    if (error) {
+      console.error('Error recording intervention:', error);
+      return null;
+    }
+
+    return data;
+  },
+
   async triggerInterventionsForScore(
     coupleId: string,
     score: CrisisScore
   ): Promise<CrisisIntervention[]> {
     const interventions: CrisisIntervention[] = [];
+    const rules = await this.getInterventionRules();
 
-    if (score.severity === 'critical') {
-      const criticalIntervention = await this.createIntervention(
-        coupleId,
-        'crisis_hotline',
-        'critical',
-        '⚠️ Critical Alert: Immediate Support Needed',
-        'Your relationship health indicators suggest you may be in crisis. Please consider reaching out to a crisis hotline or emergency therapist immediately. Your safety and well-being are the top priority.',
-        {
-          actionRequired: true,
-          crisisScoreId: score.id,
-        }
-      );
-      if (criticalIntervention) interventions.push(criticalIntervention);
-
-      if (score.red_zone_days >= 3) {
-        const coolingOffIntervention = await this.createIntervention(
-          coupleId,
-          'cooling_off',
-          'critical',
-          'Mandatory 24-Hour Break',
-          'Both partners have been in red zone for 3+ days. A mandatory 24-hour cooling-off period is strongly recommended to prevent further escalation.',
-          {
-            actionRequired: true,
-            crisisScoreId: score.id,
-          }
-        );
-        if (coolingOffIntervention) interventions.push(coolingOffIntervention);
-      }
-    } else if (score.severity === 'high') {
-      if (score.high_risk_messages >= 5) {
-        const messagingIntervention = await this.createIntervention(
-          coupleId,
-          'ai_session',
-          'high',
-          '⚠️ Communication Pattern Alert',
-          'We\'ve detected 5+ high-risk messages in the past week. Consider taking a break from messaging and scheduling an AI coaching session to improve communication patterns.',
-          {
-            actionRequired: false,
-            crisisScoreId: score.id,
-          }
-        );
-        if (messagingIntervention) interventions.push(messagingIntervention);
-      }
-
-      if (score.gottman_violations >= 5) {
-        const gottmanIntervention = await this.createIntervention(
-          coupleId,
-          'emergency_therapy',
-          'high',
-          'Four Horsemen Alert',
-          'Multiple instances of criticism, contempt, defensiveness, or stonewalling detected. These patterns can predict relationship distress. Consider booking an emergency therapy session.',
-          {
-            actionRequired: false,
-            crisisScoreId: score.id,
-          }
-        );
-        if (gottmanIntervention) interventions.push(gottmanIntervention);
-      }
-
-      if (score.disengagement_hours >= 48) {
-        const disengagementIntervention = await this.createIntervention(
-          coupleId,
-          'safety_check',
-          'high',
-          'Partner Disengagement Detected',
-          'Your partner hasn\'t checked in for over 48 hours. We\'re sending them a safety check to make sure they\'re okay.',
-          {
-            actionRequired: false,
-            crisisScoreId: score.id,
-          }
-        );
-        if (disengagementIntervention) interventions.push(disengagementIntervention);
-      }
-    } else if (score.severity === 'moderate') {
-      if (score.conflict_frequency >= 5) {
-        const conflictIntervention = await this.createIntervention(
-          coupleId,
-          'ai_session',
-          'moderate',
-          'Conflict Frequency Increasing',
-          'You\'ve logged 5+ conflicts this week. Consider using repair tools or scheduling an AI coaching session to work through these patterns.',
-          {
-            actionRequired: false,
-            crisisScoreId: score.id,
-          }
-        );
-        if (conflictIntervention) interventions.push(conflictIntervention);
-      }
+    for (const rule of evaluateInterventionRules(rules, score)) {
+      const intervention = await this.recordIntervention(coupleId, score.id, rule);
+      if (intervention) interventions.push(intervention);
     }
 
     return interventions;
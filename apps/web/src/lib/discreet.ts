@@ -0,0 +1,118 @@
+import { supabase } from './supabase';
+
+export interface DiscreetSettings {
+  enabled: boolean;
+  disguise_app: boolean;
+}
+
+// Where quick exit lands: an ordinary page that gives nothing away
+export const QUICK_EXIT_URL = 'https://www.google.com/search?q=weather+today';
+
+export const DISGUISE = {
+  title: 'Daily Notes',
+  manifest: '/manifest-notes.json',
+  icon: '/icon-notes.svg',
+};
+
+// Mirrors the settings on the device so the quick-exit button and disguise
+// apply before sign-in and without a connection. index.html reads the same
+// key to set the title before the app loads.
+const DEVICE_KEY = 'paircalm.display';
+export const DISCREET_CHANGED_EVENT = 'paircalm:discreet-changed';
+
+const DEFAULT_SETTINGS: DiscreetSettings = { enabled: false, disguise_app: false };
+
+// As set in index.html
+const ORIGINAL = {
+  title: 'PairCalm - Relationship Support',
+  manifest: '/manifest.json',
+  icon: '/icon-192.png',
+  appleTitle: 'PairCalm',
+};
+
+const storeOnDevice = (settings: DiscreetSettings) => {
+  try {
+    localStorage.setItem(DEVICE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error storing discreet settings:', error);
+  }
+  window.dispatchEvent(new Event(DISCREET_CHANGED_EVENT));
+};
+
+export const discreetService = {
+  getDeviceSettings(): DiscreetSettings {
+    try {
+      const raw = localStorage.getItem(DEVICE_KEY);
+      return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error('Error reading discreet settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  },
+
+  async getSettings(userId: string): Promise<DiscreetSettings> {
+    const { data, error } = await supabase
+      .from('discreet_settings')
+      .select('enabled, disguise_app')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching discreet settings:', error);
+      return discreetService.getDeviceSettings();
+    }
+
+    const settings = data || DEFAULT_SETTINGS;
+    storeOnDevice(settings);
+    discreetService.applyDisguise(settings.enabled && settings.disguise_app);
+    return settings;
+  },
+
+  async saveSettings(userId: string, settings: DiscreetSettings): Promise<boolean> {
+    const { error } = await supabase
+      .from('discreet_settings')
+      .upsert({ user_id: userId, ...settings }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving discreet settings:', error);
+      return false;
+    }
+
+    storeOnDevice(settings);
+    discreetService.applyDisguise(settings.enabled && settings.disguise_app);
+    return true;
+  },
+
+  // Swaps the tab title, home-screen title and manifest. An app that is
+  // already installed keeps the name it was installed with until it is
+  // removed and added to the home screen again.
+  applyDisguise(disguised: boolean) {
+    document.title = disguised ? DISGUISE.title : ORIGINAL.title;
+    document.querySelector('link[rel="manifest"]')?.setAttribute('href', disguised ? DISGUISE.manifest : ORIGINAL.manifest);
+    document.querySelector('link[rel="apple-touch-icon"]')?.setAttribute('href', disguised ? DISGUISE.icon : ORIGINAL.icon);
+    document
+      .querySelector('meta[name="apple-mobile-web-app-title"]')
+      ?.setAttribute('content', disguised ? DISGUISE.title : ORIGINAL.appleTitle);
+  },
+
+  // Leaves immediately for a neutral page. The current page is replaced
+  // rather than pushed, so Back doesn't return to it; browsers don't let a
+  // page erase the rest of its history. Anything the app keeps on the device,
+  // such as the cached safety plan, is removed too, apart from these display
+  // settings so the disguise stays in place. That includes the Supabase
+  // session (`sb-*` keys), so reopening the app asks for sign-in again. It is
+  // removed directly rather than through auth.signOut(), which waits on the
+  // network and keeps the session when offline.
+  quickExit() {
+    try {
+      sessionStorage.clear();
+      Object.keys(localStorage)
+        .filter((key) => key.startsWith('sb-') || (key.startsWith('paircalm.') && key !== DEVICE_KEY))
+        .forEach((key) => localStorage.removeItem(key));
+    } catch {
+      // Nothing to clear
+    }
+    window.history.replaceState(null, '', '/');
+    window.location.replace(QUICK_EXIT_URL);
+  },
+};
@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { analyzeToneOffline } from '../../../../supabase/functions/_shared/toneAnalyzer.ts';
+import { AttachmentStyle } from './attachment';
 
 export interface CoupleMessage {
   id: string;
@@ -17,10 +19,23 @@ export interface CoupleMessage {
   is_template: boolean;
   template_id?: string;
   reply_to_id?: string;
+  cooling_off_period_id?: string;
+  thread_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface ConversationThread {
+  id: string;
+  couple_id: string;
+  topic: string;
+  started_at: string;
+  last_message_at: string;
+  is_archived: boolean;
+  created_by?: string;
+  created_at: string;
+}
+
 export interface MessageTemplate {
   id: string;
   category: 'repair' | 'support' | 'appreciation' | 'boundary' | 'request';
@@ -29,6 +44,7 @@ export interface MessageTemplate {
   recommended_for_zones: string[];
   description: string;
   is_active: boolean;
+  allowed_during_cooling_off: boolean;
   created_at: string;
 }
 
@@ -71,6 +87,8 @@ export interface PartnerStatus {
   lastCheckIn?: string;
 }
 
+export const GENERAL_THREAD_KEY = 'general';
+
 export const messagingService = {
   async getCouple(userId: string) {
     const { data, error } = await supabase
@@ -88,14 +106,24 @@ export const messagingService = {
     return data;
   },
 
-  async getMessages(coupleId: string): Promise<CoupleMessage[]> {
-    const { data, error } = await supabase
+  // threadId: undefined returns every message, null only the general
+  // (unthreaded) conversation, and an id only that thread's messages.
+  async getMessages(coupleId: string, threadId?: string | null): Promise<CoupleMessage[]> {
+    let query = supabase
       .from('couple_messages')
       .select('*')
       .eq('couple_id', coupleId)
       .in('status', ['sent', 'read'])
       .order('sent_at', { ascending: true });
 
+    if (threadId === null) {
+      query = query.is('thread_id', null);
+    } else if (threadId) {
+      query = query.eq('thread_id', threadId);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('Error fetching messages:', error);
       return [];
@@ -104,6 +132,186 @@ export const messagingService = {
     return data || [];
   },
 
+  async getThreads(coupleId: string, includeArchived = false): Promise<ConversationThread[]> {
+    let query = supabase
+      .from('conversation_threads')
+      .select('*')
+      .eq('couple_id', coupleId)
+      .order('last_message_at', { ascending: false });
+
+    if (!includeArchived) {
+      query = query.eq('is_archived', false);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching threads:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async createThread(
+    coupleId: string,
+    userId: string,
+    topic: string
+  ): Promise<ConversationThread | null> {
+    const { data, error } = await supabase
+      .from('conversation_threads')
+      .insert({
+        couple_id: coupleId,
+        created_by: userId,
+        topic,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating thread:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  async setThreadArchived(threadId: string, isArchived: boolean): Promise<boolean> {
+    const { error } = await supabase
+      .from('conversation_threads')
+      .update({ is_archived: isArchived })
+      .eq('id', threadId);
+
+    if (error) {
+      console.error('Error archiving thread:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Unread counts keyed by thread id, with the general conversation under GENERAL_THREAD_KEY.
+  async getThreadUnreadCounts(coupleId: string, userId: string): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('couple_messages')
+      .select('thread_id')
+      .eq('couple_id', coupleId)
+      .eq('receiver_id', userId)
+      .eq('status', 'sent');
+
+    if (error) {
+      console.error('Error fetching unread counts:', error);
+      return {};
+    }
+
+    const counts: Record<string, number> = {};
+    (data || []).forEach((row: { thread_id: string | null }) => {
+      const key = row.thread_id || GENERAL_THREAD_KEY;
+      counts[key] = (counts[key] || 0) + 1;
+    });
+
+    return counts;
+  },
+
+  async getScheduledMessages(coupleId: string, senderId: string): Promise<CoupleMessage[]> {
+    const { data, error } = await supabase
+      .from('couple_messages')
+      .select('*')
+      .eq('couple_id', coupleId)
+      .eq('sender_id', senderId)
+      .eq('status', 'scheduled')
+      .order('scheduled_send_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching scheduled messages:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Null when the update fails or the message is no longer scheduled, e.g.
+  // the dispatcher sent it first
+  async updateScheduledMessage(
+    messageId: string,
+    updates: { content?: string; scheduledSendAt?: string }
+  ): Promise<CoupleMessage | null> {
+    const { data, error } = await supabase
+      .from('couple_messages')
+      .update({
+        content: updates.content,
+        scheduled_send_at: updates.scheduledSendAt,
+      })
+      .eq('id', messageId)
+      .eq('status', 'scheduled')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating scheduled message:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  async getHeldMessages(coupleId: string, senderId: string): Promise<CoupleMessage[]> {
+    const { data, error } = await supabase
+      .from('couple_messages')
+      .select('*')
+      .eq('couple_id', coupleId)
+      .eq('sender_id', senderId)
+      .eq('status', 'draft')
+      .not('cooling_off_period_id', 'is', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching held messages:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async releaseHeldMessage(messageId: string): Promise<CoupleMessage | null> {
+    // The cooling-off trigger keeps the message held if a break is still active,
+    // so callers should check the returned status.
+    const { data, error } = await supabase
+      .from('couple_messages')
+      .update({
+        status: 'sent',
+        sent_at: new Date().toISOString(),
+      })
+      .eq('id', messageId)
+      .eq('status', 'draft')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error releasing held message:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  // False when the delete fails or the message is no longer pending
+  async discardPendingMessage(messageId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('couple_messages')
+      .delete()
+      .eq('id', messageId)
+      .in('status', ['draft', 'scheduled'])
+      .select('id');
+
+    if (error) {
+      console.error('Error discarding pending message:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  },
+
   async sendMessage(
     coupleId: string,
     senderId: string,
@@ -117,6 +325,7 @@ export const messagingService = {
       toneAnalysis?: ToneAnalysis;
       templateId?: string;
       replyToId?: string;
+      threadId?: string;
     }
   ): Promise<CoupleMessage | null> {
     const messageData: any = {
@@ -134,6 +343,7 @@ export const messagingService = {
       is_template: !!options?.templateId,
       template_id: options?.templateId,
       reply_to_id: options?.replyToId,
+      thread_id: options?.threadId,
     };
 
     const { data, error } = await supabase
@@ -239,15 +449,21 @@ export const messagingService = {
       receiverZone?: string;
       senderHeartRate?: number;
       recentConflicts?: number;
+      senderAttachmentStyle?: AttachmentStyle;
+      receiverAttachmentStyle?: AttachmentStyle;
     }
-  ): Promise<ToneAnalysis | null> {
+  ): Promise<ToneAnalysis> {
     try {
       const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/message-tone-analysis`;
+      const session = await supabase.auth.getSession();
+      if (!session.data.session) {
+        return analyzeToneOffline(message, context);
+      }
 
       const response = await fetch(apiUrl, {
         method: 'POST',
         headers: {
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          Authorization: `Bearer ${session.data.session.access_token}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -256,19 +472,23 @@ export const messagingService = {
           receiverZone: context?.receiverZone,
           senderHeartRate: context?.senderHeartRate,
           recentConflicts: context?.recentConflicts,
+          senderAttachmentStyle: context?.senderAttachmentStyle,
+          receiverAttachmentStyle: context?.receiverAttachmentStyle,
         }),
       });
 
+      // 429 means the monthly quota is used up; the offline analyzer still
+      // gives the sender a safety check
       if (!response.ok) {
         console.error('Tone analysis API error:', response.status);
-        return null;
+        return analyzeToneOffline(message, context);
       }
 
       const analysis: ToneAnalysis = await response.json();
       return analysis;
     } catch (error) {
-      console.error('Error analyzing tone:', error);
-      return null;
+      console.error('Error analyzing tone, using offline analyzer:', error);
+      return analyzeToneOffline(message, context);
     }
   },
 
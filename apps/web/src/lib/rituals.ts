@@ -102,6 +102,22 @@ export const ritualsService = {
     return true;
   },
 
+  async scheduleWeeklyMeeting(coupleId: string, scheduledFor: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('weekly_meetings')
+      .insert({
+        couple_id: coupleId,
+        scheduled_for: scheduledFor,
+      });
+
+    if (error) {
+      console.error('Error scheduling weekly meeting:', error);
+      return false;
+    }
+
+    return true;
+  },
+
   async getRecentCompletions(coupleId: string, days = 7): Promise<RitualCompletion[]> {
     const { data, error } = await supabase
       .from('ritual_completions')
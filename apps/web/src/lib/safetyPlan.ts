@@ -0,0 +1,166 @@
+import { supabase } from './supabase';
+import { discreetService } from './discreet';
+
+export interface SafetyContact {
+  name: string;
+  phone: string;
+}
+
+export interface ProfessionalContact extends SafetyContact {
+  role: string;
+}
+
+export interface SafetyPlan {
+  user_id: string;
+  warning_signs: string[];
+  coping_strategies: string[];
+  safe_people: SafetyContact[];
+  safe_places: string[];
+  professional_contacts: ProfessionalContact[];
+  environment_steps: string[];
+  updated_at: string;
+}
+
+// A copy of the plan kept on this device so it opens without a connection.
+// `pendingSync` marks edits made offline that haven't reached the server yet.
+interface CachedSafetyPlan {
+  plan: SafetyPlan;
+  pendingSync: boolean;
+}
+
+const CACHE_PREFIX = 'paircalm.safetyPlan.';
+
+// In discreet mode the plan is never written to the device; this copy lasts
+// until the page is closed
+const sessionCache = new Map<string, CachedSafetyPlan>();
+
+const isDiscreet = () => discreetService.getDeviceSettings().enabled;
+
+export function emptySafetyPlan(userId: string): SafetyPlan {
+  return {
+    user_id: userId,
+    warning_signs: [],
+    coping_strategies: [],
+    safe_people: [],
+    safe_places: [],
+    professional_contacts: [],
+    environment_steps: [],
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export function isSafetyPlanEmpty(plan: SafetyPlan): boolean {
+  return (
+    plan.warning_signs.length === 0 &&
+    plan.coping_strategies.length === 0 &&
+    plan.safe_people.length === 0 &&
+    plan.safe_places.length === 0 &&
+    plan.professional_contacts.length === 0 &&
+    plan.environment_steps.length === 0
+  );
+}
+
+const readCache = (userId: string): CachedSafetyPlan | null => {
+  if (isDiscreet()) {
+    return sessionCache.get(userId) ?? null;
+  }
+
+  try {
+    const raw = localStorage.getItem(CACHE_PREFIX + userId);
+    return raw ? (JSON.parse(raw) as CachedSafetyPlan) : null;
+  } catch (error) {
+    console.error('Error reading cached safety plan:', error);
+    return null;
+  }
+};
+
+const writeCache = (userId: string, cached: CachedSafetyPlan) => {
+  if (isDiscreet()) {
+    sessionCache.set(userId, cached);
+    safetyPlanService.clearCachedPlans();
+    return;
+  }
+
+  try {
+    localStorage.setItem(CACHE_PREFIX + userId, JSON.stringify(cached));
+  } catch (error) {
+    console.error('Error caching safety plan:', error);
+  }
+};
+
+export const safetyPlanService = {
+  getCachedPlan(userId: string): CachedSafetyPlan | null {
+    return readCache(userId);
+  },
+
+  // Prefers the server copy, falling back to the device copy when offline.
+  // Offline edits that haven't synced yet win over the server copy.
+  async getPlan(userId: string): Promise<SafetyPlan | null> {
+    const cached = readCache(userId);
+
+    if (cached?.pendingSync) {
+      const synced = await safetyPlanService.syncPendingPlan(userId);
+      return synced ?? cached.plan;
+    }
+
+    const { data, error } = await supabase
+      .from('safety_plans')
+      .select('user_id, warning_signs, coping_strategies, safe_people, safe_places, professional_contacts, environment_steps, updated_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching safety plan:', error);
+      return cached?.plan ?? null;
+    }
+
+    if (data) {
+      writeCache(userId, { plan: data, pendingSync: false });
+    }
+
+    return data ?? cached?.plan ?? null;
+  },
+
+  // Always saves to the device first so nothing is lost without a
+  // connection; returns whether the server copy is up to date.
+  async savePlan(plan: SafetyPlan): Promise<{ plan: SafetyPlan; synced: boolean }> {
+    const saved = { ...plan, updated_at: new Date().toISOString() };
+    writeCache(plan.user_id, { plan: saved, pendingSync: true });
+
+    const { error } = await supabase.from('safety_plans').upsert(saved, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving safety plan:', error);
+      return { plan: saved, synced: false };
+    }
+
+    writeCache(plan.user_id, { plan: saved, pendingSync: false });
+    return { plan: saved, synced: true };
+  },
+
+  async syncPendingPlan(userId: string): Promise<SafetyPlan | null> {
+    const cached = readCache(userId);
+    if (!cached?.pendingSync) return null;
+
+    const { error } = await supabase.from('safety_plans').upsert(cached.plan, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error syncing safety plan:', error);
+      return null;
+    }
+
+    writeCache(userId, { plan: cached.plan, pendingSync: false });
+    return cached.plan;
+  },
+
+  // Called on sign-out so the plan doesn't stay on a shared device
+  clearCachedPlans() {
+    try {
+      Object.keys(localStorage)
+        .filter((key) => key.startsWith(CACHE_PREFIX))
+        .forEach((key) => localStorage.removeItem(key));
+    } catch (error) {
+      console.error('Error clearing cached safety plans:', error);
+    }
+  },
+};
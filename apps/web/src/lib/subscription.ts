@@ -19,6 +19,14 @@ export interface Subscription {
   current_period_end: string;
 }
 
+export interface UsageSummary {
+  metric: 'ai_coach_messages' | 'tone_analyses';
+  used: number;
+  limit: number | null;
+  tier: string;
+  resets_at: string;
+}
+
 export const subscriptionService = {
   async getTiers(): Promise<SubscriptionTier[]> {
     const { data, error } = await supabase
@@ -64,6 +72,17 @@ export const subscriptionService = {
 
     return data || false;
   },
+
+  async getUsage(): Promise<UsageSummary[]> {
+    const { data, error } = await supabase.rpc('get_usage_summary');
+
+    if (error) {
+      console.error('Error fetching usage:', error);
+      return [];
+    }
+
+    return data || [];
+  },
 };
 
 export interface CommunityPost {
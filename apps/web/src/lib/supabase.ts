@@ -22,6 +22,8 @@ export type Database = {
           timezone: string;
           onboarding_completed: boolean;
           attachment_style: 'anxious' | 'avoidant' | 'secure' | 'fearful-avoidant' | null;
+          attachment_personalization: boolean;
+          hotline_country: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -34,6 +36,8 @@ export type Database = {
           timezone?: string;
           onboarding_completed?: boolean;
           attachment_style?: 'anxious' | 'avoidant' | 'secure' | 'fearful-avoidant' | null;
+          attachment_personalization?: boolean;
+          hotline_country?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -46,6 +50,8 @@ export type Database = {
           timezone?: string;
           onboarding_completed?: boolean;
           attachment_style?: 'anxious' | 'avoidant' | 'secure' | 'fearful-avoidant' | null;
+          attachment_personalization?: boolean;
+          hotline_country?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -1,3 +1,5 @@
+import { discreetService } from './discreet';
+
 declare global {
   interface Window {
     gtag?: (...args: any[]) => void;
@@ -8,6 +10,8 @@ declare global {
 export const tracking = {
   init(measurementId: string) {
     if (typeof window === 'undefined' || !measurementId) return;
+    // Discreet mode leaves no trail in third-party analytics
+    if (discreetService.getDeviceSettings().enabled) return;
 
     const script1 = document.createElement('script');
     script1.async = true;
@@ -28,6 +32,7 @@ export const tracking = {
 
   pageView(path: string) {
     if (typeof window === 'undefined' || !window.gtag) return;
+    if (discreetService.getDeviceSettings().enabled) return;
     const measurementId = import.meta.env.VITE_GA_MEASUREMENT_ID;
     if (!measurementId) return;
 
@@ -38,6 +43,7 @@ export const tracking = {
 
   event(eventName: string, parameters?: Record<string, any>) {
     if (typeof window === 'undefined' || !window.gtag) return;
+    if (discreetService.getDeviceSettings().enabled) return;
     window.gtag('event', eventName, parameters);
   },
 
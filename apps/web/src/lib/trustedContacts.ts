@@ -0,0 +1,219 @@
+import { supabase } from './supabase';
+
+export type ContactRelationship = 'friend' | 'family' | 'therapist' | 'other';
+export type ContactChannel = 'sms' | 'email';
+
+export interface TrustedContact {
+  id: string;
+  user_id: string;
+  name: string;
+  relationship: ContactRelationship;
+  channel: ContactChannel;
+  destination: string;
+  consent_status: 'pending' | 'confirmed' | 'declined';
+  consent_requested_at?: string;
+  consent_responded_at?: string;
+  created_at: string;
+}
+
+export interface NewTrustedContact {
+  name: string;
+  relationship: ContactRelationship;
+  channel: ContactChannel;
+  destination: string;
+}
+
+export interface SafetyCheckEscalation {
+  id: string;
+  safety_check_id: string;
+  user_id: string;
+  reason: 'requested' | 'unanswered';
+  status: 'in_progress' | 'notified' | 'partially_notified' | 'failed' | 'no_contacts';
+  created_at: string;
+  completed_at?: string;
+}
+
+export type EscalationAuditEventType =
+  | 'contact_added'
+  | 'contact_removed'
+  | 'consent_requested'
+  | 'consent_confirmed'
+  | 'consent_declined'
+  | 'escalation_started'
+  | 'contact_notified'
+  | 'delivery_failed'
+  | 'no_contacts'
+  | 'escalation_completed';
+
+export interface EscalationAuditEvent {
+  id: string;
+  user_id: string;
+  escalation_id?: string;
+  contact_id?: string;
+  event: EscalationAuditEventType;
+  channel?: ContactChannel;
+  detail: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface TrustedContactRequest {
+  valid: boolean;
+  requester_name?: string;
+  contact_name?: string;
+  relationship?: ContactRelationship;
+  channel?: ContactChannel;
+}
+
+const callFunction = async (name: string, body: Record<string, unknown>) => {
+  const session = await supabase.auth.getSession();
+  if (!session.data.session) {
+    throw new Error('Not authenticated');
+  }
+
+  return fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.data.session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+};
+
+export const trustedContactsService = {
+  async getContacts(userId: string): Promise<TrustedContact[]> {
+    const { data, error } = await supabase
+      .from('trusted_contacts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching trusted contacts:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Adds the contact as pending and sends them the consent request. They
+  // aren't messaged about escalations until they agree.
+  async addContact(userId: string, contact: NewTrustedContact): Promise<TrustedContact | null> {
+    const { data, error } = await supabase
+      .from('trusted_contacts')
+      .insert({ user_id: userId, ...contact })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding trusted contact:', error);
+      return null;
+    }
+
+    await trustedContactsService.requestConsent(data.id);
+    return data;
+  },
+
+  async requestConsent(contactId: string): Promise<boolean> {
+    try {
+      const response = await callFunction('trusted-contact-invite', { contactId });
+
+      if (!response.ok) {
+        console.error('Trusted contact invite API error:', response.status);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error requesting trusted contact consent:', error);
+      return false;
+    }
+  },
+
+  async removeContact(contactId: string): Promise<boolean> {
+    const { error } = await supabase.from('trusted_contacts').delete().eq('id', contactId);
+
+    if (error) {
+      console.error('Error removing trusted contact:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Asks the escalation function to handle this check now rather than on
+  // its next scheduled run
+  async escalateSafetyCheck(safetyCheckId: string): Promise<boolean> {
+    try {
+      const response = await callFunction('safety-check-escalation', { safetyCheckId });
+
+      if (!response.ok) {
+        console.error('Safety check escalation API error:', response.status);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error escalating safety check:', error);
+      return false;
+    }
+  },
+
+  async getEscalations(userId: string, limit = 20): Promise<SafetyCheckEscalation[]> {
+    const { data, error } = await supabase
+      .from('safety_check_escalations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching escalations:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async getAuditLog(userId: string, limit = 50): Promise<EscalationAuditEvent[]> {
+    const { data, error } = await supabase
+      .from('escalation_audit_log')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching escalation audit log:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Used by the contact, who isn't signed in, from the link they were sent
+  async getContactRequest(code: string): Promise<TrustedContactRequest> {
+    const { data, error } = await supabase.rpc('get_trusted_contact_request', { p_code: code });
+
+    if (error) {
+      console.error('Error fetching trusted contact request:', error);
+      return { valid: false };
+    }
+
+    return data;
+  },
+
+  async respondToContactRequest(code: string, accept: boolean): Promise<boolean> {
+    const { data, error } = await supabase.rpc('respond_to_trusted_contact_request', {
+      p_code: code,
+      p_accept: accept,
+    });
+
+    if (error || !data?.success) {
+      console.error('Error responding to trusted contact request:', error || data?.error);
+      return false;
+    }
+
+    return true;
+  },
+};
@@ -0,0 +1,249 @@
+import { supabase } from './supabase';
+import { ToneAnalysis } from './messaging';
+
+export interface VoiceMessage {
+  id: string;
+  couple_id: string;
+  sender_id: string;
+  receiver_id: string;
+  audio_url: string;
+  duration_seconds: number;
+  transcription: string;
+  transcription_confidence: number;
+  sender_zone_at_send?: 'green' | 'yellow' | 'red';
+  tone_analysis?: ToneAnalysis;
+  is_listened: boolean;
+  listened_at?: string;
+  status: 'pending' | 'delivered';
+  delivered_at?: string;
+  held_at?: string;
+  thread_id?: string | null;
+  created_at: string;
+}
+
+export interface VoiceProcessingResult {
+  voiceMessage: VoiceMessage;
+  analysis: ToneAnalysis | null;
+  delivered: boolean;
+  heldForCoolingOff: boolean;
+}
+
+const VOICE_BUCKET = 'voice-messages';
+
+export const voiceMessageService = {
+  async getVoiceMessages(coupleId: string, threadId?: string | null): Promise<VoiceMessage[]> {
+    let query = supabase
+      .from('voice_messages')
+      .select('*')
+      .eq('couple_id', coupleId)
+      .eq('status', 'delivered')
+      .order('delivered_at', { ascending: true });
+
+    if (threadId === null) {
+      query = query.is('thread_id', null);
+    } else if (threadId) {
+      query = query.eq('thread_id', threadId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching voice messages:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async sendVoiceMessage(
+    coupleId: string,
+    senderId: string,
+    receiverId: string,
+    audio: Blob,
+    durationSeconds: number,
+    options?: {
+      senderZone?: 'green' | 'yellow' | 'red';
+      receiverZone?: 'green' | 'yellow' | 'red';
+      senderHeartRate?: number;
+      threadId?: string;
+    }
+  ): Promise<VoiceProcessingResult | null> {
+    const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'm4a' : 'webm';
+    const path = `${coupleId}/${senderId}/${Date.now()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(VOICE_BUCKET)
+      .upload(path, audio, { contentType: audio.type || 'audio/webm' });
+
+    if (uploadError) {
+      console.error('Error uploading voice message:', uploadError);
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('voice_messages')
+      .insert({
+        couple_id: coupleId,
+        sender_id: senderId,
+        receiver_id: receiverId,
+        audio_url: path,
+        duration_seconds: Math.max(1, Math.round(durationSeconds)),
+        thread_id: options?.threadId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating voice message:', error);
+      await supabase.storage.from(VOICE_BUCKET).remove([path]);
+      return null;
+    }
+
+    return this.processVoiceMessage(data.id, options);
+  },
+
+  async processVoiceMessage(
+    voiceMessageId: string,
+    context?: {
+      senderZone?: string;
+      receiverZone?: string;
+      senderHeartRate?: number;
+    }
+  ): Promise<VoiceProcessingResult | null> {
+    try {
+      const session = await supabase.auth.getSession();
+      if (!session.data.session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/voice-message-transcription`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${session.data.session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            voiceMessageId,
+            senderZone: context?.senderZone,
+            receiverZone: context?.receiverZone,
+            senderHeartRate: context?.senderHeartRate,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        console.error('Voice transcription API error:', response.status);
+        return null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error processing voice message:', error);
+      return null;
+    }
+  },
+
+  // Sends a message that was held for review; delivery is done server-side
+  async deliverVoiceMessage(voiceMessageId: string): Promise<VoiceMessage | null> {
+    try {
+      const session = await supabase.auth.getSession();
+      if (!session.data.session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/voice-message-transcription`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${session.data.session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ voiceMessageId, sendAnyway: true }),
+        }
+      );
+
+      if (!response.ok) {
+        console.error('Voice delivery API error:', response.status);
+        return null;
+      }
+
+      const data = await response.json();
+      return data.voiceMessage;
+    } catch (error) {
+      console.error('Error delivering voice message:', error);
+      return null;
+    }
+  },
+
+  async discardVoiceMessage(voiceMessage: VoiceMessage): Promise<boolean> {
+    const { error } = await supabase
+      .from('voice_messages')
+      .delete()
+      .eq('id', voiceMessage.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('Error discarding voice message:', error);
+      return false;
+    }
+
+    await supabase.storage.from(VOICE_BUCKET).remove([voiceMessage.audio_url]);
+    return true;
+  },
+
+  async getPlaybackUrl(path: string): Promise<string | null> {
+    const { data, error } = await supabase.storage
+      .from(VOICE_BUCKET)
+      .createSignedUrl(path, 60 * 60);
+
+    if (error) {
+      console.error('Error creating playback URL:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  },
+
+  async markAsListened(voiceMessageId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('voice_messages')
+      .update({
+        is_listened: true,
+        listened_at: new Date().toISOString(),
+      })
+      .eq('id', voiceMessageId)
+      .eq('is_listened', false);
+
+    if (error) {
+      console.error('Error marking voice message as listened:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  subscribeToVoiceMessages(coupleId: string, callback: (voiceMessage: VoiceMessage) => void) {
+    const channel = supabase
+      .channel('voice_messages')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'voice_messages',
+          filter: `couple_id=eq.${coupleId}`,
+        },
+        (payload) => {
+          if (payload.new && 'id' in payload.new) {
+            callback(payload.new as VoiceMessage);
+          }
+        }
+      )
+      .subscribe();
+
+    return channel;
+  },
+};
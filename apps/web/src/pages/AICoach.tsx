@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   ArrowLeft,
   Send,
@@ -12,6 +12,17 @@ import {
   BookOpen,
   MessageCircle,
   Star,
+  Square,
+  Brain,
+  Trash2,
+  X,
+  Phone,
+  History,
+  Plus,
+  Info,
+  Users,
+  Wand2,
+  Library,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
@@ -21,12 +32,26 @@ import {
   ChatMessage,
   CoachingTechnique,
   CoachingContext,
+  CoachingMemory,
+  CoachingParticipant,
+  CoachAction,
 } from '../lib/coaching';
 
+const SESSION_OUTCOMES = [
+  'I feel calmer',
+  'I have a plan',
+  'Ready to talk to my partner',
+  'Still stuck',
+  'Need more support',
+];
+
 export default function AICoach() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const [session, setSession] = useState<CoachingSession | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
@@ -36,6 +61,15 @@ export default function AICoach() {
   const [rating, setRating] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [coupleId, setCoupleId] = useState<string | null>(null);
+  const [showMemories, setShowMemories] = useState(false);
+  const [memories, setMemories] = useState<CoachingMemory[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<CoachingSession[]>([]);
+  const [outcome, setOutcome] = useState('');
+  const [outcomeNote, setOutcomeNote] = useState('');
+  const [partnerId, setPartnerId] = useState<string | null>(null);
+  const [participants, setParticipants] = useState<CoachingParticipant[]>([]);
+  const [actionStatus, setActionStatus] = useState<Record<string, 'running' | 'done' | 'failed' | 'dismissed'>>({});
 
   useEffect(() => {
     if (!user) {
@@ -44,12 +78,45 @@ export default function AICoach() {
     }
 
     initializeSession();
+
+    return () => abortRef.current?.abort();
   }, [user]);
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
+  // Technique citations link back here with ?technique=<id>
+  useEffect(() => {
+    const techniqueId = searchParams.get('technique');
+    if (!techniqueId) return;
+
+    const openTechnique = async () => {
+      const techniques = await coachingService.getTechniques();
+      const technique = techniques.find((t) => t.id === techniqueId);
+      if (technique) {
+        setSelectedTechnique(technique);
+      }
+    };
+
+    openTechnique();
+  }, [searchParams]);
+
+  // Joint sessions: show the partner's messages and turn changes live. Our own
+  // messages (and replies the coach wrote for us) are already on screen.
+  useEffect(() => {
+    if (!user || !session?.is_joint) return;
+
+    return coachingService.subscribeToSession(
+      session.id,
+      (message) => {
+        if (message.sender_id === user.id) return;
+        setMessages((prev) => [...prev, ...coachingService.toChatMessages([message])]);
+      },
+      (updated) => setSession((prev) => (prev ? { ...prev, ...updated } : prev))
+    );
+  }, [user, session?.id, session?.is_joint]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -62,33 +129,34 @@ export default function AICoach() {
     try {
       const { data: coupleData } = await supabase
         .from('couples')
-        .select('id')
+        .select('id, partner_1_id, partner_2_id')
         .or(`partner_1_id.eq.${user.id},partner_2_id.eq.${user.id}`)
         .maybeSingle();
 
       if (coupleData) {
         setCoupleId(coupleData.id);
+        setPartnerId(
+          coupleData.partner_1_id === user.id ? coupleData.partner_2_id : coupleData.partner_1_id
+        );
       }
 
       const ctx = await coachingService.buildContext(user.id, coupleData?.id || undefined);
       setContext(ctx);
 
-      const newSession = await coachingService.createSession(user.id, 'general', {
-        coupleId: coupleData?.id,
-        heartRate: ctx.heartRate,
-        readinessScore: ctx.readinessScore,
-        nervousSystemZone: ctx.nervousSystemZone,
-      });
+      await coachingService.abandonStaleSessions();
 
-      if (newSession) {
-        setSession(newSession);
+      // Opened from a joint session invite
+      const invitedSessionId = searchParams.get('session');
+      const invitedSession = invitedSessionId
+        ? await coachingService.joinJointSession(invitedSessionId, user.id)
+        : null;
 
-        const welcomeMessage: ChatMessage = {
-          role: 'assistant',
-          content: getWelcomeMessage(ctx),
-          timestamp: new Date(),
-        };
-        setMessages([welcomeMessage]);
+      const activeSession = invitedSession || (await coachingService.getActiveSession(user.id));
+
+      if (activeSession) {
+        await openSession(activeSession, ctx);
+      } else {
+        await startNewSession(ctx, coupleData?.id);
       }
     } catch (error) {
       console.error('Error initializing session:', error);
@@ -97,6 +165,98 @@ export default function AICoach() {
     }
   };
 
+  const startNewSession = async (ctx: CoachingContext, sessionCoupleId?: string) => {
+    if (!user) return;
+
+    const newSession = await coachingService.createSession(user.id, 'general', {
+      coupleId: sessionCoupleId,
+      heartRate: ctx.heartRate,
+      readinessScore: ctx.readinessScore,
+      nervousSystemZone: ctx.nervousSystemZone,
+    });
+
+    if (newSession) {
+      setSession(newSession);
+
+      const welcomeMessage: ChatMessage = {
+        role: 'assistant',
+        content: getWelcomeMessage(ctx),
+        timestamp: new Date(),
+      };
+      setMessages([welcomeMessage]);
+    }
+  };
+
+  const openSession = async (target: CoachingSession, ctx: CoachingContext = context) => {
+    const transcript = coachingService.toChatMessages(
+      await coachingService.getSessionMessages(target.id)
+    );
+
+    setSession(target);
+    setParticipants(target.is_joint ? await coachingService.getParticipants(target.id) : []);
+    setMessages(
+      transcript.length > 0
+        ? transcript
+        : [{ role: 'assistant', content: getWelcomeMessage(ctx), timestamp: new Date() }]
+    );
+  };
+
+  const handleOpenHistory = async () => {
+    if (!user) return;
+    setShowHistory(true);
+    setHistory(await coachingService.getSessions(user.id, 20));
+  };
+
+  const handleSelectHistorySession = async (target: CoachingSession) => {
+    setShowHistory(false);
+    setLoading(true);
+    await openSession(target);
+    setLoading(false);
+  };
+
+  const handleStartNewSession = async () => {
+    setShowHistory(false);
+    setLoading(true);
+    await startNewSession(context, coupleId || undefined);
+    setLoading(false);
+  };
+
+  const handleStartJointSession = async () => {
+    if (!user || !coupleId || !partnerId) return;
+
+    setShowHistory(false);
+    setLoading(true);
+
+    const jointSession = await coachingService.createJointSession(user.id, coupleId, partnerId, {
+      heartRate: context.heartRate,
+      readinessScore: context.readinessScore,
+      nervousSystemZone: context.nervousSystemZone,
+    });
+
+    if (jointSession) {
+      setSession(jointSession);
+      setParticipants(await coachingService.getParticipants(jointSession.id));
+      setMessages([
+        {
+          role: 'assistant',
+          content:
+            "Welcome to your joint session. I've invited your partner - I'll stay neutral and help you both be heard. You'll take turns speaking. Whenever you're ready, share what you'd like to talk about together.",
+          timestamp: new Date(),
+        },
+      ]);
+    }
+
+    setLoading(false);
+  };
+
+  const handlePassTurn = async () => {
+    if (!session) return;
+    const nextUserId = await coachingService.passTurn(session.id);
+    if (nextUserId) {
+      setSession((prev) => (prev ? { ...prev, current_turn_user_id: nextUserId } : prev));
+    }
+  };
+
   const getWelcomeMessage = (ctx: CoachingContext): string => {
     let message = "Hi, I'm your relationship coach. I'm here to help you navigate conflicts and strengthen your connection.";
 
@@ -113,62 +273,170 @@ export default function AICoach() {
   };
 
   const handleSendMessage = async () => {
-    if (!input.trim() || !session || loading) return;
+    if (!input.trim() || !session || session.status !== 'active' || loading || !isMyTurn) return;
 
     const userMessage: ChatMessage = {
       role: 'user',
       content: input.trim(),
       timestamp: new Date(),
+      senderId: user?.id,
+    };
+
+    const placeholder: ChatMessage = {
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    setMessages((prev) => [...prev, userMessage, placeholder]);
     setInput('');
     setLoading(true);
 
-    await coachingService.saveMessage(session.id, 'user', userMessage.content);
+    // A crisis disclosure in a joint session is only sent to the coach, which
+    // answers it in a private session
+    const keepOutOfTranscript = !!session.is_joint && coachingService.isCrisisMessage(userMessage.content);
+    const saved = keepOutOfTranscript
+      ? null
+      : await coachingService.saveMessage(session.id, 'user', userMessage.content);
+
+    // Joint sessions rely on the saved transcript, so stop if the turn was lost
+    if (!saved && session.is_joint && !keepOutOfTranscript) {
+      setMessages((prev) => prev.slice(0, -2));
+      setInput(userMessage.content);
+      setLoading(false);
+      return;
+    }
+
+    const updateLastMessage = (update: (message: ChatMessage) => ChatMessage | null) => {
+      setMessages((prev) => {
+        const last = update(prev[prev.length - 1]);
+        return last ? [...prev.slice(0, -1), last] : prev.slice(0, -1);
+      });
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreaming(true);
 
     try {
       const updatedContext = { ...context, sessionId: session.id };
-      const response = await coachingService.sendMessage(
+      const response = await coachingService.streamMessage(
         [...messages, userMessage],
-        updatedContext
+        updatedContext,
+        (delta) => updateLastMessage((message) => ({ ...message, content: message.content + delta })),
+        controller.signal
       );
 
       if (response) {
-        const assistantMessage: ChatMessage = {
-          role: 'assistant',
+        updateLastMessage((message) => ({
+          ...message,
           content: response.message,
-          timestamp: new Date(),
           techniques: response.techniques,
+          actions: response.actions,
+          citations: response.citations,
+          quotaExceeded: response.quotaExceeded,
           context: response.context,
-        };
+          crisis: response.crisis,
+        }));
 
-        setMessages((prev) => [...prev, assistantMessage]);
+        if (response.crisis?.sessionId && response.crisis.sessionId !== session.id) {
+          // Moved out of the joint session; the partner sees none of this
+          const privateSession = await coachingService.getSession(response.crisis.sessionId);
+          if (privateSession) {
+            setSession(privateSession);
+            setParticipants([]);
+            setMessages((prev) => prev.slice(-2));
+          }
+        } else if (response.crisis) {
+          setSession((prev) => (prev ? { ...prev, session_type: 'crisis' } : prev));
+        }
+      } else if (controller.signal.aborted) {
+        // Keep whatever arrived before the user stopped the reply
+        updateLastMessage((message) => (message.content ? message : null));
       } else {
         throw new Error('No response from AI coach');
       }
     } catch (error) {
       console.error('Error getting AI response:', error);
-      const errorMessage: ChatMessage = {
-        role: 'assistant',
+      updateLastMessage((message) => ({
+        ...message,
         content: "I'm having trouble connecting right now. Please try again in a moment.",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      }));
     } finally {
+      abortRef.current = null;
+      setStreaming(false);
       setLoading(false);
     }
   };
 
+  const handleStopStreaming = () => {
+    abortRef.current?.abort();
+  };
+
   const handleEndSession = async () => {
     if (!session) return;
 
+    const sessionOutcome = [outcome, outcomeNote.trim()].filter(Boolean).join(' - ');
+
     setLoading(true);
-    await coachingService.endSession(session.id, 'User ended session', rating || undefined);
+    if (session.is_joint) {
+      await coachingService.endJointSession(session.id, sessionOutcome || 'User ended session', rating || undefined);
+    } else {
+      await coachingService.endSession(session.id, sessionOutcome || 'User ended session', rating || undefined);
+    }
     setLoading(false);
     navigate('/dashboard');
   };
 
+  const isReadOnly = !!session && session.status !== 'active';
+  const isMyTurn = !session?.is_joint || !session.current_turn_user_id || session.current_turn_user_id === user?.id;
+  const partnerParticipant = participants.find((p) => p.user_id !== user?.id);
+  const partnerName = partnerParticipant?.user_profiles?.full_name?.split(' ')[0] || 'your partner';
+
+  const handleTechniqueFeedback = (wasHelpful: boolean) => {
+    if (session && selectedTechnique) {
+      coachingService.recordTechniqueUsage(session.id, selectedTechnique.id, wasHelpful);
+    }
+    setSelectedTechnique(null);
+  };
+
+  const handleConfirmAction = async (action: CoachAction) => {
+    if (action.type === 'open_breathing_exercise') {
+      navigate('/de-escalate');
+      return;
+    }
+
+    if (!user || !coupleId) return;
+
+    setActionStatus((prev) => ({ ...prev, [action.id]: 'running' }));
+    const succeeded = await coachingService.runAction(action, user.id, coupleId);
+    setActionStatus((prev) => ({ ...prev, [action.id]: succeeded ? 'done' : 'failed' }));
+  };
+
+  const handleDismissAction = (action: CoachAction) => {
+    setActionStatus((prev) => ({ ...prev, [action.id]: 'dismissed' }));
+  };
+
+  const handleOpenMemories = async () => {
+    if (!user) return;
+    setShowMemories(true);
+    setMemories(await coachingService.getMemories(user.id));
+  };
+
+  const handleDeleteMemory = async (memoryId: string) => {
+    if (await coachingService.deleteMemory(memoryId)) {
+      setMemories((prev) => prev.filter((m) => m.id !== memoryId));
+    }
+  };
+
+  const handleClearMemories = async () => {
+    if (!user) return;
+    if (!confirm('Delete everything the coach remembers about your past sessions?')) return;
+    if (await coachingService.clearMemories(user.id)) {
+      setMemories([]);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -208,17 +476,34 @@ export default function AICoach() {
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <button
-              onClick={() => setShowEndSession(true)}
+              onClick={() => (isReadOnly ? navigate('/dashboard') : setShowEndSession(true))}
               className="flex items-center space-x-2 text-slate-600 hover:text-slate-900"
             >
               <ArrowLeft className="w-5 h-5" />
-              <span>End Session</span>
+              <span>{isReadOnly ? 'Back' : 'End Session'}</span>
             </button>
             <div className="flex items-center space-x-2">
               <MessageCircle className="w-6 h-6 text-blue-600" />
               <span className="font-semibold text-slate-900">AI Coach</span>
             </div>
-            <div className="w-24"></div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleOpenHistory}
+                className="flex items-center space-x-1 text-sm text-slate-600 hover:text-slate-900"
+                title="Past sessions"
+              >
+                <History className="w-4 h-4" />
+                <span>History</span>
+              </button>
+              <button
+                onClick={handleOpenMemories}
+                className="flex items-center space-x-1 text-sm text-slate-600 hover:text-slate-900"
+                title="What the coach remembers"
+              >
+                <Brain className="w-4 h-4" />
+                <span>Memory</span>
+              </button>
+            </div>
           </div>
         </div>
       </nav>
@@ -250,46 +535,192 @@ export default function AICoach() {
 
       <main className="flex-1 overflow-y-auto">
         <div className="max-w-4xl mx-auto px-4 py-6 space-y-4">
-          {messages.map((message, index) => (
-            <div key={index}>
-              <div
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
+          {messages.filter((message) => message.content).map((message, index) => {
+            const fromPartner = message.role === 'user' && !!message.senderId && message.senderId !== user?.id;
+            return (
+              <div key={index}>
+                {fromPartner && (
+                  <div className="text-xs text-slate-500 mb-1 capitalize">{partnerName}</div>
+                )}
                 <div
-                  className={`max-w-2xl rounded-2xl px-4 py-3 ${
-                    message.role === 'user'
-                      ? 'bg-blue-500 text-white'
-                      : 'bg-white border border-slate-200 text-slate-900'
-                  }`}
+                  className={`flex ${message.role === 'user' && !fromPartner ? 'justify-end' : 'justify-start'}`}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  <div
+                    className={`max-w-2xl rounded-2xl px-4 py-3 ${
+                      fromPartner
+                        ? 'bg-violet-100 text-violet-900'
+                        : message.role === 'user'
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-white border border-slate-200 text-slate-900'
+                    }`}
+                  >
+                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  </div>
                 </div>
-              </div>
 
-              {message.techniques && message.techniques.length > 0 && (
-                <div className="ml-0 mt-3 space-y-2">
-                  <div className="text-xs font-medium text-slate-600 flex items-center space-x-1">
-                    <BookOpen className="w-3 h-3" />
-                    <span>Suggested Techniques:</span>
-                  </div>
-                  <div className="space-y-2">
-                    {message.techniques.map((technique) => (
+                {message.quotaExceeded && (
+                  <button
+                    onClick={() => navigate('/profile')}
+                    className="mt-2 flex items-center space-x-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    <Zap className="w-3 h-3" />
+                    <span>See usage and plans</span>
+                  </button>
+                )}
+
+                {message.citations && message.citations.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {message.citations.map((citation) => (
                       <button
-                        key={technique.id}
-                        onClick={() => setSelectedTechnique(technique)}
-                        className="w-full text-left bg-blue-50 border border-blue-200 rounded-lg p-3 hover:bg-blue-100 transition-colors"
+                        key={citation.id}
+                        onClick={() => navigate(citation.link)}
+                        className="flex items-center space-x-1 text-xs text-indigo-600 hover:text-indigo-800"
+                        title={citation.summary}
                       >
-                        <div className="font-medium text-sm text-blue-900">{technique.name}</div>
-                        <div className="text-xs text-blue-700 mt-1">{technique.description}</div>
+                        <Library className="w-3 h-3" />
+                        <span>
+                          [{citation.number}] {citation.title}
+                        </span>
                       </button>
                     ))}
                   </div>
-                </div>
-              )}
-            </div>
-          ))}
+                )}
+
+                {message.crisis && message.crisis.hotlines.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {message.crisis.hotlines.map((hotline) => (
+                      <div key={hotline.id} className="bg-rose-50 border border-rose-200 rounded-lg p-3">
+                        <div className="flex items-center justify-between">
+                          <div className="font-medium text-sm text-rose-900">{hotline.name}</div>
+                          {hotline.available_24_7 && (
+                            <span className="text-xs text-rose-700">24/7</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-rose-700 mt-1">{hotline.description}</div>
+                        <div className="flex items-center space-x-3 mt-2">
+                          {hotline.phone && (
+                            <a
+                              href={`tel:${hotline.phone.replace(/[^0-9+]/g, '')}`}
+                              className="flex items-center space-x-1 text-sm font-semibold text-rose-700 hover:text-rose-900"
+                            >
+                              <Phone className="w-4 h-4" />
+                              <span>{hotline.phone}</span>
+                            </a>
+                          )}
+                          {hotline.sms_number && (
+                            <span className="text-sm font-semibold text-rose-700">
+                              {hotline.sms_keyword
+                                ? `Text ${hotline.sms_keyword} to ${hotline.sms_number}`
+                                : `Text ${hotline.sms_number}`}
+                            </span>
+                          )}
+                          {hotline.chat_url && (
+                            <a
+                              href={hotline.chat_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-rose-600 underline"
+                            >
+                              Chat
+                            </a>
+                          )}
+                          {hotline.website && (
+                            <a
+                              href={hotline.website}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-rose-600 underline"
+                            >
+                              Website
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {message.actions && message.actions.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {message.actions
+                      .filter((action) => actionStatus[action.id] !== 'dismissed')
+                      .map((action) => (
+                        <div key={action.id} className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                          <div className="flex items-center space-x-1 font-medium text-sm text-amber-900">
+                            <Wand2 className="w-4 h-4" />
+                            <span>{action.title}</span>
+                          </div>
+                          <div className="text-xs text-amber-800 mt-1">{action.description}</div>
+                          {action.type === 'schedule_weekly_meeting' && (
+                            <div className="text-xs text-amber-800 mt-1">
+                              {new Date(String(action.params.scheduledFor)).toLocaleString([], {
+                                dateStyle: 'full',
+                                timeStyle: 'short',
+                              })}
+                            </div>
+                          )}
+                          {actionStatus[action.id] === 'done' ? (
+                            <div className="flex items-center space-x-1 text-xs font-medium text-emerald-700 mt-2">
+                              <CheckCircle2 className="w-4 h-4" />
+                              <span>Done</span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center space-x-2 mt-2">
+                              <button
+                                onClick={() => handleConfirmAction(action)}
+                                disabled={actionStatus[action.id] === 'running'}
+                                className="bg-amber-500 text-white rounded-lg px-3 py-1.5 text-xs font-medium hover:bg-amber-600 transition-colors disabled:opacity-50"
+                              >
+                                {action.type === 'open_breathing_exercise' ? 'Open' : 'Confirm'}
+                              </button>
+                              <button
+                                onClick={() => handleDismissAction(action)}
+                                disabled={actionStatus[action.id] === 'running'}
+                                className="text-xs text-amber-800 hover:text-amber-900 disabled:opacity-50"
+                              >
+                                Not now
+                              </button>
+                              {actionStatus[action.id] === 'failed' && (
+                                <span className="text-xs text-rose-600">That didn't work - please try again.</span>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                  </div>
+                )}
+
+                {message.techniques && message.techniques.length > 0 && (
+                  <div className="ml-0 mt-3 space-y-2">
+                    <div className="text-xs font-medium text-slate-600 flex items-center space-x-1">
+                      <BookOpen className="w-3 h-3" />
+                      <span>Suggested Techniques:</span>
+                    </div>
+                    <div className="space-y-2">
+                      {message.techniques.map((technique) => (
+                        <button
+                          key={technique.id}
+                          onClick={() => setSelectedTechnique(technique)}
+                          className="w-full text-left bg-blue-50 border border-blue-200 rounded-lg p-3 hover:bg-blue-100 transition-colors"
+                        >
+                          <div className="font-medium text-sm text-blue-900">{technique.name}</div>
+                          <div className="text-xs text-blue-700 mt-1">{technique.description}</div>
+                          {technique.ranking && technique.ranking.reasons.length > 0 && (
+                            <div className="flex items-start space-x-1 text-xs text-blue-600 mt-2">
+                              <Info className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                              <span>Why this: {technique.ranking.reasons.join(' • ')}</span>
+                            </div>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
 
-          {loading && (
+          {loading && !messages[messages.length - 1]?.content && (
             <div className="flex justify-start">
               <div className="bg-white border border-slate-200 rounded-2xl px-4 py-3">
                 <Loader2 className="w-5 h-5 animate-spin text-blue-500" />
@@ -301,24 +732,75 @@ export default function AICoach() {
       </main>
 
       <div className="border-t border-slate-200 bg-white px-4 py-4 sticky bottom-0">
-        <div className="max-w-4xl mx-auto flex items-end space-x-3">
-          <textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyPress}
-            placeholder="Type your message..."
-            rows={1}
-            disabled={loading}
-            className="flex-1 resize-none rounded-xl border border-slate-300 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
-          />
-          <button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || loading}
-            className="bg-blue-500 text-white rounded-xl p-3 hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Send className="w-5 h-5" />
-          </button>
-        </div>
+        {isReadOnly ? (
+          <div className="max-w-4xl mx-auto flex items-center justify-between">
+            <span className="text-sm text-slate-600">
+              This session {session?.status === 'abandoned' ? 'was left unfinished' : 'has ended'}.
+            </span>
+            <button
+              onClick={handleStartNewSession}
+              disabled={loading}
+              className="flex items-center space-x-1 bg-blue-500 text-white rounded-lg px-4 py-2 text-sm font-medium hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New session</span>
+            </button>
+          </div>
+        ) : (
+          <>
+            {session?.is_joint && (
+              <div className="max-w-4xl mx-auto flex items-center justify-between mb-3 text-sm">
+                <div className="flex items-center space-x-2 text-slate-600">
+                  <Users className="w-4 h-4 text-violet-600" />
+                  {!partnerParticipant?.joined_at ? (
+                    <span>Waiting for {partnerName} to join - you can start on your own.</span>
+                  ) : isMyTurn ? (
+                    <span className="font-medium text-slate-900">Your turn</span>
+                  ) : (
+                    <span>Waiting for {partnerName} to share...</span>
+                  )}
+                </div>
+                {isMyTurn && partnerParticipant?.joined_at && (
+                  <button
+                    onClick={handlePassTurn}
+                    disabled={loading}
+                    className="text-violet-600 hover:text-violet-800 font-medium disabled:opacity-50"
+                  >
+                    Pass turn
+                  </button>
+                )}
+              </div>
+            )}
+            <div className="max-w-4xl mx-auto flex items-end space-x-3">
+              <textarea
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={handleKeyPress}
+                placeholder={isMyTurn ? 'Type your message...' : `It's ${partnerName}'s turn`}
+                rows={1}
+                disabled={loading || !isMyTurn}
+                className="flex-1 resize-none rounded-xl border border-slate-300 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+              {streaming ? (
+                <button
+                  onClick={handleStopStreaming}
+                  className="bg-slate-200 text-slate-700 rounded-xl p-3 hover:bg-slate-300 transition-colors"
+                  title="Stop response"
+                >
+                  <Square className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSendMessage}
+                  disabled={!input.trim() || loading || !isMyTurn}
+                  className="bg-blue-500 text-white rounded-xl p-3 hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          </>
+        )}
       </div>
 
       {selectedTechnique && (
@@ -336,20 +818,17 @@ export default function AICoach() {
             </div>
             <div className="flex space-x-3">
               <button
-                onClick={() => {
-                  if (session) {
-                    coachingService.recordTechniqueUsage(
-                      session.id,
-                      selectedTechnique.id,
-                      true
-                    );
-                  }
-                  setSelectedTechnique(null);
-                }}
+                onClick={() => handleTechniqueFeedback(true)}
                 className="flex-1 bg-emerald-500 text-white rounded-lg py-3 font-medium hover:bg-emerald-600 transition-colors"
               >
                 This Helped
               </button>
+              <button
+                onClick={() => handleTechniqueFeedback(false)}
+                className="flex-1 bg-slate-100 text-slate-700 border border-slate-300 rounded-lg py-3 font-medium hover:bg-slate-200 transition-colors"
+              >
+                Didn't Help
+              </button>
               <button
                 onClick={() => setSelectedTechnique(null)}
                 className="flex-1 bg-slate-200 text-slate-700 rounded-lg py-3 font-medium hover:bg-slate-300 transition-colors"
@@ -361,10 +840,163 @@ export default function AICoach() {
         </div>
       )}
 
+      {showHistory && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl max-w-lg w-full p-6 max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-slate-900">Past sessions</h3>
+              <button onClick={() => setShowHistory(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {history.length === 0 ? (
+                <p className="text-sm text-slate-500 text-center py-6">No sessions yet.</p>
+              ) : (
+                history.map((past) => (
+                  <button
+                    key={past.id}
+                    onClick={() => handleSelectHistorySession(past)}
+                    className={`w-full text-left border rounded-lg p-3 transition-colors hover:bg-slate-50 ${
+                      past.id === session?.id ? 'border-blue-300 bg-blue-50' : 'border-slate-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-slate-900 capitalize">
+                        {past.topic || past.session_type.replace('_', ' ')}
+                      </span>
+                      <span
+                        className={`text-xs rounded-full px-2 py-0.5 ${
+                          past.status === 'active'
+                            ? 'bg-emerald-100 text-emerald-700'
+                            : past.status === 'abandoned'
+                              ? 'bg-slate-100 text-slate-500'
+                              : 'bg-blue-100 text-blue-700'
+                        }`}
+                      >
+                        {past.status === 'active' ? 'Resume' : past.status}
+                      </span>
+                    </div>
+                    <div className="text-xs text-slate-500 mt-1">
+                      {new Date(past.started_at).toLocaleString([], {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                      })}
+                      {past.effectiveness_rating && ` • Rated ${past.effectiveness_rating}/5`}
+                    </div>
+                    {past.outcome && (
+                      <div className="text-xs text-slate-600 mt-1">{past.outcome}</div>
+                    )}
+                  </button>
+                ))
+              )}
+            </div>
+            <button
+              onClick={handleStartNewSession}
+              disabled={loading}
+              className="mt-4 w-full flex items-center justify-center space-x-1 bg-blue-500 text-white rounded-lg py-2 text-sm font-medium hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Start a new session</span>
+            </button>
+            {coupleId && partnerId && (
+              <button
+                onClick={handleStartJointSession}
+                disabled={loading}
+                className="mt-2 w-full flex items-center justify-center space-x-1 bg-violet-50 text-violet-700 border border-violet-200 rounded-lg py-2 text-sm font-medium hover:bg-violet-100 transition-colors disabled:opacity-50"
+              >
+                <Users className="w-4 h-4" />
+                <span>Start a joint session with your partner</span>
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showMemories && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl max-w-lg w-full p-6 max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xl font-bold text-slate-900">What the coach remembers</h3>
+              <button onClick={() => setShowMemories(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-sm text-slate-600 mb-4">
+              A short summary is saved when you end a session so the coach can pick up where you left off.
+              Full conversations are never used as memory.
+            </p>
+            <div className="flex-1 overflow-y-auto space-y-3">
+              {memories.length === 0 ? (
+                <p className="text-sm text-slate-500 text-center py-6">Nothing remembered yet.</p>
+              ) : (
+                memories.map((memory) => (
+                  <div key={memory.id} className="border border-slate-200 rounded-lg p-3">
+                    <div className="flex items-start justify-between space-x-2">
+                      <div className="text-xs text-slate-500">
+                        {new Date(memory.created_at).toLocaleDateString()}
+                        {memory.effectiveness_rating && ` • Rated ${memory.effectiveness_rating}/5`}
+                      </div>
+                      <button
+                        onClick={() => handleDeleteMemory(memory.id)}
+                        className="text-slate-400 hover:text-rose-600"
+                        title="Forget this session"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <p className="text-sm text-slate-800 mt-1">{memory.summary}</p>
+                    {memory.topics.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {memory.topics.map((topic) => (
+                          <span key={topic} className="text-xs bg-slate-100 text-slate-600 rounded-full px-2 py-0.5">
+                            {topic}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+            {memories.length > 0 && (
+              <button
+                onClick={handleClearMemories}
+                className="mt-4 w-full bg-rose-50 text-rose-700 border border-rose-200 rounded-lg py-2 text-sm font-medium hover:bg-rose-100 transition-colors"
+              >
+                Forget everything
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {showEndSession && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-2xl max-w-md w-full p-6">
             <h3 className="text-xl font-bold text-slate-900 mb-4">End Session</h3>
+            <p className="text-slate-600 mb-3">Where did you land?</p>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {SESSION_OUTCOMES.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setOutcome(outcome === option ? '' : option)}
+                  className={`text-sm rounded-full px-3 py-1 border transition-colors ${
+                    outcome === option
+                      ? 'bg-blue-500 border-blue-500 text-white'
+                      : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <input
+              value={outcomeNote}
+              onChange={(e) => setOutcomeNote(e.target.value)}
+              placeholder="Anything you want to remember? (optional)"
+              className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
             <p className="text-slate-600 mb-4">
               How helpful was this coaching session?
             </p>
@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ClipboardList, Loader2, Shield, Clock, TrendingUp } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  assessmentService,
+  Assessment,
+  AssessmentQuestion,
+  AssessmentAnswers,
+  AssessmentResponse,
+  Severity,
+  getMaxScore,
+  getNextDueDate,
+  needsCrisisSupport,
+} from '../lib/assessments';
+import AssessmentRunner from '../components/AssessmentRunner';
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  none: 'bg-emerald-100 text-emerald-700',
+  mild: 'bg-sky-100 text-sky-700',
+  moderate: 'bg-amber-100 text-amber-700',
+  severe: 'bg-rose-100 text-rose-700',
+};
+
+export default function Assessments() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [loading, setLoading] = useState(true);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [responses, setResponses] = useState<AssessmentResponse[]>([]);
+  const [active, setActive] = useState<Assessment | null>(null);
+  const [questions, setQuestions] = useState<AssessmentQuestion[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<AssessmentResponse | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    loadData();
+  }, [user]);
+
+  const loadData = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const [assessmentsData, responsesData] = await Promise.all([
+      assessmentService.getAssessments(),
+      assessmentService.getAllResponses(user.id),
+    ]);
+
+    // The attachment questionnaire has its own page
+    const runnable = assessmentsData.filter((a) => a.category !== 'attachment');
+    setAssessments(runnable);
+    setResponses(responsesData);
+    setLoading(false);
+
+    // Reminder notifications link straight to the assessment that's due
+    const requested = runnable.find((a) => a.id === searchParams.get('assessment'));
+    if (requested) {
+      startAssessment(requested);
+    }
+  };
+
+  const startAssessment = async (assessment: Assessment) => {
+    setResult(null);
+    setError(null);
+    setActive(assessment);
+    setQuestions(await assessmentService.getQuestions(assessment.id));
+  };
+
+  const handleSubmit = async (answers: AssessmentAnswers) => {
+    if (!user || !active) return;
+
+    setSubmitting(true);
+    setError(null);
+    const response = await assessmentService.submitAssessment(user.id, active, questions, answers);
+    setSubmitting(false);
+
+    if (!response) {
+      setError('We couldn\'t save your answers. Please try again.');
+      return;
+    }
+
+    setResult(response);
+    setResponses((prev) => [response, ...prev]);
+  };
+
+  const closeAssessment = () => {
+    setActive(null);
+    setQuestions([]);
+    setResult(null);
+  };
+
+  const latestFor = (assessmentId: string) => responses.find((r) => r.assessment_id === assessmentId);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-rose-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <nav className="border-b border-slate-200 bg-white/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <button
+              onClick={() => (active ? closeAssessment() : navigate('/dashboard'))}
+              className="flex items-center space-x-2 text-slate-600 hover:text-slate-900"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back</span>
+            </button>
+            <h1 className="text-lg font-semibold text-slate-900">{active ? active.name : 'Self-Assessments'}</h1>
+            <div className="w-20"></div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {!active && (
+          <>
+            <p className="text-sm text-slate-600">
+              Short, validated questionnaires to track how you're doing over time. They are screening tools, not a
+              diagnosis. Your results are private to you.
+            </p>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {assessments.map((assessment) => {
+                const latest = latestFor(assessment.id);
+                const due = getNextDueDate(assessment, latest);
+                const isDue = due !== null && due <= new Date();
+
+                return (
+                  <div key={assessment.id} className="bg-white rounded-xl border border-slate-200 p-6 flex flex-col">
+                    <div className="flex items-start justify-between mb-2">
+                      <h3 className="text-lg font-bold text-slate-900 flex items-center space-x-2">
+                        <ClipboardList className="w-5 h-5 text-rose-500" />
+                        <span>{assessment.name}</span>
+                      </h3>
+                      {isDue && (
+                        <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium">
+                          Due
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-600 mb-4 flex-1">{assessment.description}</p>
+                    {latest ? (
+                      <div className="text-sm text-slate-600 mb-4 space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <span>Last result:</span>
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              SEVERITY_STYLES[latest.severity || 'none']
+                            }`}
+                          >
+                            {latest.result || `Score ${latest.total_score}`}
+                          </span>
+                        </div>
+                        <div className="flex items-center space-x-1 text-xs text-slate-500">
+                          <Clock className="w-3 h-3" />
+                          <span>
+                            {new Date(latest.completed_at).toLocaleDateString()}
+                            {due && !isDue && ` · next due ${due.toLocaleDateString()}`}
+                          </span>
+                        </div>
+                      </div>
+                    ) : null}
+                    <button
+                      onClick={() => startAssessment(assessment)}
+                      className="w-full bg-rose-500 hover:bg-rose-600 text-white font-medium py-2 rounded-lg"
+                    >
+                      {latest ? 'Retake' : 'Start'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+
+            {responses.some((r) => assessments.some((a) => a.id === r.assessment_id)) && (
+              <button
+                onClick={() => navigate('/insights')}
+                className="inline-flex items-center space-x-2 text-sm font-medium text-rose-600 hover:text-rose-700"
+              >
+                <TrendingUp className="w-4 h-4" />
+                <span>See your trends in Insights</span>
+              </button>
+            )}
+          </>
+        )}
+
+        {active && !result && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <p className="text-sm text-slate-500 mb-4">{active.description}</p>
+            {questions.length > 0 ? (
+              <AssessmentRunner
+                assessment={active}
+                questions={questions}
+                submitting={submitting}
+                onSubmit={handleSubmit}
+              />
+            ) : (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-rose-500" />
+              </div>
+            )}
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+          </div>
+        )}
+
+        {active && result && (
+          <div className="space-y-4">
+            <div className="bg-white rounded-xl border border-slate-200 p-6 text-center">
+              <div className="text-sm text-slate-500 mb-1">Your score</div>
+              <div className="text-4xl font-bold text-slate-900">
+                {result.total_score}
+                <span className="text-lg text-slate-500"> / {getMaxScore(active, questions)}</span>
+              </div>
+              {result.result && (
+                <span
+                  className={`inline-block mt-3 px-3 py-1 rounded-full text-sm font-medium ${
+                    SEVERITY_STYLES[result.severity || 'none']
+                  }`}
+                >
+                  {result.result}
+                </span>
+              )}
+              <p className="text-xs text-slate-500 mt-4">
+                This is a screening result, not a diagnosis. A therapist can help you make sense of it.
+              </p>
+            </div>
+
+            {needsCrisisSupport(result) && (
+              <div className="bg-rose-50 border border-rose-200 rounded-xl p-6">
+                <h3 className="font-bold text-rose-900 flex items-center space-x-2 mb-2">
+                  <Shield className="w-5 h-5" />
+                  <span>You don't have to handle this alone</span>
+                </h3>
+                <p className="text-sm text-rose-900 mb-4">
+                  {result.critical_flag
+                    ? 'You mentioned thoughts of being better off dead or hurting yourself. Please reach out to a crisis line now - they are free, confidential and available 24/7.'
+                    : 'Your answers suggest you are going through a lot right now. Talking to someone can really help.'}
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={() => navigate('/crisis')}
+                    className="bg-rose-600 hover:bg-rose-700 text-white font-medium px-4 py-2 rounded-lg"
+                  >
+                    Get crisis support
+                  </button>
+                  <button
+                    onClick={() => navigate('/therapists')}
+                    className="bg-white border border-rose-300 text-rose-700 hover:bg-rose-100 font-medium px-4 py-2 rounded-lg"
+                  >
+                    Find a therapist
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={closeAssessment}
+              className="w-full bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 font-medium py-2 rounded-lg"
+            >
+              Done
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
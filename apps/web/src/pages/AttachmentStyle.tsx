@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Heart, History, Loader2, RotateCcw } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { ATTACHMENT_STYLES } from '../lib/attachment';
+import {
+  assessmentService,
+  AttachmentResult,
+  AssessmentResponse,
+  toAttachmentResult,
+  ATTACHMENT_ASSESSMENT_NAME,
+} from '../lib/assessments';
+import AttachmentAssessment from '../components/AttachmentAssessment';
+
+export default function AttachmentStyle() {
+  const { user, profile, refreshProfile } = useAuth();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [history, setHistory] = useState<AssessmentResponse[]>([]);
+  const [retaking, setRetaking] = useState(false);
+  const [latestResult, setLatestResult] = useState<AttachmentResult | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    loadHistory();
+  }, [user]);
+
+  const loadHistory = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const assessment = await assessmentService.getAssessmentByName(ATTACHMENT_ASSESSMENT_NAME);
+    const responses = assessment ? await assessmentService.getResponses(user.id, assessment.id) : [];
+    setHistory(responses);
+    setLoading(false);
+  };
+
+  const handleComplete = async (result: AttachmentResult) => {
+    setLatestResult(result);
+    setRetaking(false);
+    await Promise.all([refreshProfile(), loadHistory()]);
+  };
+
+  const currentStyle = ATTACHMENT_STYLES.find((s) => s.value === profile?.attachment_style);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-rose-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <nav className="border-b border-slate-200 bg-white/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <button onClick={() => navigate('/profile')} className="flex items-center space-x-2 text-slate-600 hover:text-slate-900">
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back</span>
+            </button>
+            <h1 className="text-lg font-semibold text-slate-900">Attachment Style</h1>
+            <div className="w-20"></div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <h3 className="text-lg font-bold text-slate-900 mb-4 flex items-center space-x-2">
+            <Heart className="w-6 h-6 text-rose-500" />
+            <span>Your Attachment Style</span>
+          </h3>
+          {currentStyle ? (
+            <div>
+              <p className="text-2xl font-bold text-slate-900">{currentStyle.label}</p>
+              <p className="text-slate-600 mt-1">{currentStyle.description}</p>
+            </div>
+          ) : (
+            <p className="text-slate-600">You haven't set an attachment style yet.</p>
+          )}
+          {latestResult && (
+            <p className="text-sm text-slate-600 mt-3">
+              New result saved: anxiety {latestResult.anxiety.toFixed(1)}/7, avoidance{' '}
+              {latestResult.avoidance.toFixed(1)}/7.
+            </p>
+          )}
+          {!retaking && (
+            <button
+              onClick={() => setRetaking(true)}
+              className="mt-4 inline-flex items-center space-x-2 bg-rose-500 hover:bg-rose-600 text-white font-medium px-4 py-2 rounded-lg"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>{history.length > 0 ? 'Retake the questionnaire' : 'Take the questionnaire'}</span>
+            </button>
+          )}
+        </div>
+
+        {retaking && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <AttachmentAssessment onComplete={handleComplete} />
+            <button
+              onClick={() => setRetaking(false)}
+              className="w-full text-sm text-slate-600 hover:text-slate-900 mt-4"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <h3 className="text-lg font-bold text-slate-900 mb-4 flex items-center space-x-2">
+              <History className="w-6 h-6 text-slate-500" />
+              <span>Past Results</span>
+            </h3>
+            <div className="divide-y divide-slate-100">
+              {history.map((response) => {
+                const result = toAttachmentResult(response);
+                return (
+                  <div key={response.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-slate-900">
+                        {ATTACHMENT_STYLES.find((s) => s.value === result.style)?.label || result.style}
+                      </p>
+                      <p className="text-sm text-slate-600">
+                        Anxiety {result.anxiety.toFixed(1)}/7 · Avoidance {result.avoidance.toFixed(1)}/7
+                      </p>
+                    </div>
+                    <span className="text-sm text-slate-500">
+                      {new Date(response.completed_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
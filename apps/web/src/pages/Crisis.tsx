@@ -12,6 +12,14 @@ import {
   Heart,
   Loader2,
   ExternalLink,
+  TrendingUp,
+  TrendingDown,
+  ClipboardList,
+  ChevronRight,
+  Lock,
+  Users,
+  MessageCircle,
+  BadgeCheck,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import {
@@ -20,18 +28,46 @@ import {
   CrisisIntervention,
   CrisisHotline,
   CoolingOffPeriod,
+  SafetyCheck,
+  CrisisFactor,
+  CRISIS_FACTORS,
+  DEFAULT_HOTLINE_COUNTRY,
+  compareCrisisScores,
+  describeDrivers,
+  scoreCrisisFactors,
+  weekOverWeek,
 } from '../lib/crisis';
 import { messagingService } from '../lib/messaging';
 
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+const countryName = (code: string) => regionNames.of(code) ?? code;
+
+type CheckInResponse = 'okay' | 'struggling' | 'unsafe';
+
+const CHECK_IN_OPTIONS: Record<CheckInResponse, { label: string; escalate: boolean; className: string }> = {
+  okay: { label: "I'm okay", escalate: false, className: 'bg-emerald-100 hover:bg-emerald-200 text-emerald-800' },
+  struggling: { label: "I'm struggling", escalate: false, className: 'bg-amber-100 hover:bg-amber-200 text-amber-800' },
+  unsafe: { label: "I don't feel safe", escalate: true, className: 'bg-rose-100 hover:bg-rose-200 text-rose-800' },
+};
+
 export default function Crisis() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [coupleId, setCoupleId] = useState<string | null>(null);
   const [crisisScore, setCrisisScore] = useState<CrisisScore | null>(null);
+  const [history, setHistory] = useState<CrisisScore[]>([]);
+  const [selectedScoreId, setSelectedScoreId] = useState<string | null>(null);
   const [interventions, setInterventions] = useState<CrisisIntervention[]>([]);
   const [hotlines, setHotlines] = useState<CrisisHotline[]>([]);
+  const [hotlineCountry, setHotlineCountry] = useState(DEFAULT_HOTLINE_COUNTRY);
+  const [hotlineCountries, setHotlineCountries] = useState<string[]>([]);
+  // Set when the directory has nothing for hotlineCountry and US numbers are
+  // shown instead
+  const [hotlineFallback, setHotlineFallback] = useState(false);
   const [coolingOff, setCoolingOff] = useState<CoolingOffPeriod | null>(null);
+  const [pendingChecks, setPendingChecks] = useState<SafetyCheck[]>([]);
+  const [checkInResponse, setCheckInResponse] = useState<CheckInResponse | null>(null);
   const [calculating, setCalculating] = useState(false);
 
   useEffect(() => {
@@ -58,17 +94,24 @@ export default function Crisis() {
 
       setCoupleId(couple.id);
 
-      const [scoreData, interventionsData, hotlinesData, coolingOffData] = await Promise.all([
-        crisisService.getLatestCrisisScore(couple.id),
-        crisisService.getActiveInterventions(couple.id),
-        crisisService.getCrisisHotlines(),
-        crisisService.getActiveCoolingOffPeriod(couple.id),
-      ]);
+      const [scoreData, historyData, interventionsData, country, countries, coolingOffData, checksData] =
+        await Promise.all([
+          crisisService.getLatestCrisisScore(couple.id),
+          crisisService.getCrisisHistory(couple.id),
+          crisisService.getActiveInterventions(couple.id),
+          crisisService.getHotlineCountry(user.id),
+          crisisService.getHotlineCountries(),
+          crisisService.getActiveCoolingOffPeriod(couple.id),
+          crisisService.getPendingSafetyChecks(user.id),
+        ]);
 
       setCrisisScore(scoreData);
+      setHistory(historyData);
       setInterventions(interventionsData);
-      setHotlines(hotlinesData);
+      setHotlineCountries(countries);
+      await loadHotlines(country);
       setCoolingOff(coolingOffData);
+      setPendingChecks(checksData);
     } catch (error) {
       console.error('Error initializing crisis page:', error);
     } finally {
@@ -76,6 +119,29 @@ export default function Crisis() {
     }
   };
 
+  const loadHotlines = async (country: string) => {
+    setHotlineCountry(country);
+
+    let data = await crisisService.getCrisisHotlines(country);
+    const fallback = data.length === 0 && country !== DEFAULT_HOTLINE_COUNTRY;
+    if (fallback) {
+      data = await crisisService.getCrisisHotlines(DEFAULT_HOTLINE_COUNTRY);
+    }
+
+    setHotlineFallback(fallback);
+    setHotlines(data);
+  };
+
+  const handleHotlineCountryChange = async (country: string) => {
+    if (!user) return;
+
+    // Choosing "Automatic" clears the override
+    const saved = await crisisService.setHotlineCountry(user.id, country || null);
+    if (!saved) return;
+
+    await loadHotlines(country || (await crisisService.getHotlineCountry(user.id)));
+  };
+
   const handleRecalculate = async () => {
     if (!coupleId || calculating) return;
 
@@ -87,9 +153,17 @@ export default function Crisis() {
       setCrisisScore(newScore);
 
       if (newScore) {
-        const newInterventions = await crisisService.triggerInterventionsForScore(coupleId, newScore);
-        if (newInterventions.length > 0) {
-          setInterventions([...newInterventions, ...interventions]);
+        setHistory([newScore, ...history]);
+        setSelectedScoreId(null);
+
+        // Recorded interventions may be refreshes of ones already listed;
+        // acknowledged ones only come back if they were escalated
+        const recorded = (await crisisService.triggerInterventionsForScore(coupleId, newScore)).filter(
+          (i) => !i.acknowledged_at
+        );
+        if (recorded.length > 0) {
+          const recordedIds = new Set(recorded.map((i) => i.id));
+          setInterventions([...recorded, ...interventions.filter((i) => !recordedIds.has(i.id))]);
         }
       }
     } catch (error) {
@@ -121,6 +195,29 @@ export default function Crisis() {
     }
   };
 
+  // Pending checks come newest first
+  const oldestPendingCheck = pendingChecks[pendingChecks.length - 1];
+
+  // Answers the oldest check waiting for the user, or records a private
+  // check-in if nobody asked
+  const handleCheckIn = async (response: CheckInResponse) => {
+    if (!coupleId || !user) return;
+
+    const { label, escalate } = CHECK_IN_OPTIONS[response];
+    const pending = oldestPendingCheck;
+
+    const success = pending
+      ? await crisisService.respondToSafetyCheck(pending.id, label, escalate)
+      : !!(await crisisService.recordPrivateCheckIn(coupleId, user.id, label, escalate));
+
+    if (success) {
+      if (pending) {
+        setPendingChecks(pendingChecks.filter((c) => c.id !== pending.id));
+      }
+      setCheckInResponse(response);
+    }
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -153,6 +250,35 @@ export default function Crisis() {
     return 'text-emerald-600';
   };
 
+  const getBarColor = (severity: string) => {
+    switch (severity) {
+      case 'critical':
+        return 'bg-rose-500';
+      case 'high':
+        return 'bg-orange-500';
+      case 'moderate':
+        return 'bg-amber-400';
+      default:
+        return 'bg-emerald-400';
+    }
+  };
+
+  const breakdown = crisisScore ? scoreCrisisFactors(crisisScore) : null;
+  const pointsFor = (factor: CrisisFactor) =>
+    breakdown?.contributions.find((c) => c.factor === factor)?.points ?? 0;
+
+  // History comes newest first; the chart reads left to right
+  const chronological = [...history].reverse();
+  const selectedIndex = selectedScoreId
+    ? chronological.findIndex((s) => s.id === selectedScoreId)
+    : chronological.length - 1;
+  const selected = selectedIndex >= 0 ? chronological[selectedIndex] : null;
+  const selectedPrevious = selectedIndex > 0 ? chronological[selectedIndex - 1] : null;
+  const selectedChange = selected && selectedPrevious ? compareCrisisScores(selected, selectedPrevious) : null;
+  const weekly = weekOverWeek(history);
+
+  const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex items-center justify-center">
@@ -180,6 +306,69 @@ export default function Crisis() {
       </nav>
 
       <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <button
+          onClick={() => navigate('/safety-plan')}
+          className="w-full bg-white border-2 border-blue-300 hover:border-blue-400 rounded-xl p-4 flex items-center justify-between transition-colors"
+        >
+          <span className="flex items-center space-x-3">
+            <ClipboardList className="w-6 h-6 text-blue-600" />
+            <span className="text-left">
+              <span className="block font-semibold text-slate-900">My Safety Plan</span>
+              <span className="block text-sm text-slate-600">Private to you and available offline</span>
+            </span>
+          </span>
+          <ChevronRight className="w-5 h-5 text-slate-400" />
+        </button>
+
+        <button
+          onClick={() => navigate('/trusted-contacts')}
+          className="w-full bg-white border border-slate-200 hover:border-blue-300 rounded-xl p-4 flex items-center justify-between transition-colors"
+        >
+          <span className="flex items-center space-x-3">
+            <Users className="w-6 h-6 text-blue-600" />
+            <span className="text-left">
+              <span className="block font-semibold text-slate-900">Trusted Contacts</span>
+              <span className="block text-sm text-slate-600">People we'll message if you ask for help</span>
+            </span>
+          </span>
+          <ChevronRight className="w-5 h-5 text-slate-400" />
+        </button>
+
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <div className="flex items-start justify-between mb-1">
+            <h3 className="text-lg font-semibold text-slate-900">
+              {oldestPendingCheck ? oldestPendingCheck.message : 'How are you doing right now?'}
+            </h3>
+            {(!oldestPendingCheck || oldestPendingCheck.is_private) && (
+              <span className="flex items-center space-x-1 text-xs text-slate-500 flex-shrink-0 ml-3">
+                <Lock className="w-3 h-3" />
+                <span>Only you can see this</span>
+              </span>
+            )}
+          </div>
+          {checkInResponse ? (
+            <p className="text-sm text-slate-700 mt-2">
+              {checkInResponse === 'unsafe'
+                ? "Thank you for telling us. If you've added trusted contacts, we'll let them know. If you are in danger, call one of the hotlines below now, or open your safety plan."
+                : checkInResponse === 'struggling'
+                  ? 'Thanks for checking in. Your safety plan and the hotlines below are here whenever you need them.'
+                  : 'Thanks for checking in.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-4">
+              {(Object.keys(CHECK_IN_OPTIONS) as CheckInResponse[]).map((response) => (
+                <button
+                  key={response}
+                  onClick={() => handleCheckIn(response)}
+                  className={`font-medium py-2 px-4 rounded-lg transition-colors ${CHECK_IN_OPTIONS[response].className}`}
+                >
+                  {CHECK_IN_OPTIONS[response].label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
         {coolingOff && (
           <div className="bg-blue-50 border-2 border-blue-300 rounded-xl p-6">
             <div className="flex items-start space-x-3">
@@ -218,22 +407,27 @@ export default function Crisis() {
               <div className="bg-white/50 rounded-lg p-3">
                 <div className="text-2xl font-bold">{crisisScore.red_zone_days}</div>
                 <div className="text-xs opacity-75">Red Zone Days</div>
+                <div className="text-xs font-medium mt-1">+{pointsFor('red_zone_days')} pts</div>
               </div>
               <div className="bg-white/50 rounded-lg p-3">
                 <div className="text-2xl font-bold">{crisisScore.high_risk_messages}</div>
                 <div className="text-xs opacity-75">Risky Messages</div>
+                <div className="text-xs font-medium mt-1">+{pointsFor('high_risk_messages')} pts</div>
               </div>
               <div className="bg-white/50 rounded-lg p-3">
                 <div className="text-2xl font-bold">{crisisScore.gottman_violations}</div>
                 <div className="text-xs opacity-75">Four Horsemen</div>
+                <div className="text-xs font-medium mt-1">+{pointsFor('gottman_violations')} pts</div>
               </div>
               <div className="bg-white/50 rounded-lg p-3">
                 <div className="text-2xl font-bold">{Math.round(crisisScore.disengagement_hours)}</div>
                 <div className="text-xs opacity-75">Hours Disengaged</div>
+                <div className="text-xs font-medium mt-1">+{pointsFor('disengagement_hours')} pts</div>
               </div>
               <div className="bg-white/50 rounded-lg p-3">
                 <div className="text-2xl font-bold">{crisisScore.conflict_frequency}</div>
                 <div className="text-xs opacity-75">Conflicts (7d)</div>
+                <div className="text-xs font-medium mt-1">+{pointsFor('conflict_frequency')} pts</div>
               </div>
             </div>
 
@@ -254,6 +448,103 @@ export default function Crisis() {
           </div>
         )}
 
+        {history.length > 1 && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-slate-900">Score History</h3>
+              {weekly && (
+                <span className="flex items-center space-x-1 text-sm text-slate-600">
+                  {weekly.current.score > weekly.previous.score ? (
+                    <TrendingUp className="w-4 h-4 text-rose-500" />
+                  ) : (
+                    <TrendingDown className="w-4 h-4 text-emerald-500" />
+                  )}
+                  <span>
+                    {weekly.current.score === weekly.previous.score
+                      ? 'Same as a week ago'
+                      : `${formatDelta(weekly.current.score - weekly.previous.score)} vs. a week ago`}
+                  </span>
+                </span>
+              )}
+            </div>
+
+            <div className="flex items-end space-x-1 h-32">
+              {chronological.map((entry, index) => (
+                <button
+                  key={entry.id}
+                  onClick={() => setSelectedScoreId(entry.id)}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`${new Date(entry.calculated_at).toLocaleString()}: ${entry.score} (${entry.severity})`}
+                  aria-label={`Score ${entry.score} on ${new Date(entry.calculated_at).toLocaleDateString()}`}
+                >
+                  <div
+                    className={`rounded-t ${getBarColor(entry.severity)} ${
+                      index === selectedIndex ? 'ring-2 ring-offset-1 ring-slate-400' : ''
+                    }`}
+                    style={{ height: `${Math.max(4, entry.score)}%` }}
+                  />
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-slate-500 mt-1">
+              <span>{new Date(chronological[0].calculated_at).toLocaleDateString()}</span>
+              <span>{new Date(chronological[chronological.length - 1].calculated_at).toLocaleDateString()}</span>
+            </div>
+
+            {selected && (
+              <div className="mt-4 pt-4 border-t border-slate-200 text-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-slate-900">
+                    {new Date(selected.calculated_at).toLocaleString()}
+                  </span>
+                  <span className="text-slate-600">
+                    Score {selected.score}
+                    {selectedPrevious && ` (${formatDelta(selected.score - selectedPrevious.score)} from the previous score)`}
+                  </span>
+                </div>
+                {!selectedChange ? (
+                  <p className="text-slate-600">This is the earliest score on record.</p>
+                ) : selectedChange.drivers.length === 0 ? (
+                  <p className="text-slate-600">None of the factors changed since the previous score.</p>
+                ) : (
+                  <ul className="space-y-1 text-slate-700">
+                    {describeDrivers(selectedChange).map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {weekly && weekly.trajectory.drivers.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-slate-200 text-sm">
+                <div className="font-medium text-slate-900 mb-2">What changed over the last week</div>
+                <ul className="space-y-1 text-slate-700">
+                  {describeDrivers(weekly.trajectory).map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <details className="mt-4 text-sm text-slate-600">
+              <summary className="cursor-pointer font-medium text-slate-700">How is the score calculated?</summary>
+              <ul className="mt-2 space-y-1">
+                {CRISIS_FACTORS.map((definition) => (
+                  <li key={definition.factor}>
+                    <span className="font-medium">{definition.label}:</span> {definition.weight} points per{' '}
+                    {definition.factor === 'disengagement_hours' ? 'day' : 'occurrence'}
+                    {definition.maxPoints !== undefined && ` (up to ${definition.maxPoints})`}. {definition.measure}.
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2">
+                The total is capped at 100. 25+ is moderate, 50+ high and 75+ critical.
+              </p>
+            </details>
+          </div>
+        )}
+
         {interventions.length > 0 && (
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-slate-900">Active Interventions</h3>
@@ -263,7 +554,22 @@ export default function Crisis() {
                 className={`border-2 rounded-xl p-6 ${getSeverityColor(intervention.severity)}`}
               >
                 <h4 className="font-bold mb-2">{intervention.title}</h4>
+                {(intervention.escalated_at || intervention.occurrence_count > 1) && (
+                  <p className="text-xs font-medium opacity-80 mb-2">
+                    {intervention.escalated_at ? 'Escalated · ' : ''}
+                    Still present after {intervention.occurrence_count} checks
+                  </p>
+                )}
                 <p className="text-sm mb-4">{intervention.message}</p>
+                {intervention.severity === 'critical' && (
+                  <button
+                    onClick={() => navigate('/safety-plan')}
+                    className="w-full mb-2 bg-white hover:bg-white/90 text-slate-900 font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-1"
+                  >
+                    <ClipboardList className="w-4 h-4" />
+                    <span>Open My Safety Plan</span>
+                  </button>
+                )}
                 {intervention.action_required && (
                   <div className="flex space-x-2">
                     <button
@@ -325,10 +631,33 @@ export default function Crisis() {
         </div>
 
         <div className="bg-white rounded-xl border border-slate-200 p-6">
-          <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center space-x-2">
-            <Phone className="w-5 h-5" />
-            <span>Crisis Hotlines</span>
-          </h3>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h3 className="text-lg font-semibold text-slate-900 flex items-center space-x-2">
+              <Phone className="w-5 h-5" />
+              <span>Crisis Hotlines</span>
+            </h3>
+            <label className="flex items-center space-x-2 text-sm text-slate-600">
+              <span>Country</span>
+              <select
+                value={hotlineCountry}
+                onChange={(e) => handleHotlineCountryChange(e.target.value)}
+                className="px-2 py-1 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Automatic</option>
+                {[...new Set([...hotlineCountries, hotlineCountry])].sort().map((country) => (
+                  <option key={country} value={country}>
+                    {countryName(country)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {hotlineFallback && (
+            <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3 mb-3">
+              We don't have hotlines for {countryName(hotlineCountry)} yet. Call your local emergency number if you
+              are in danger. US services are shown below and some may be reachable online.
+            </p>
+          )}
           <div className="space-y-3">
             {hotlines.map((hotline) => (
               <div
@@ -347,14 +676,42 @@ export default function Crisis() {
                   )}
                 </div>
                 <p className="text-sm text-slate-700 mb-3">{hotline.description}</p>
-                <div className="flex items-center space-x-3">
-                  <a
-                    href={`tel:${hotline.phone}`}
-                    className="flex-1 bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
-                  >
-                    <Phone className="w-4 h-4" />
-                    <span>{hotline.phone}</span>
-                  </a>
+                <div className="flex flex-wrap items-center gap-2">
+                  {hotline.phone && (
+                    <a
+                      href={`tel:${hotline.phone.replace(/[^0-9+]/g, '')}`}
+                      className="flex-1 bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
+                    >
+                      <Phone className="w-4 h-4" />
+                      <span>{hotline.phone}</span>
+                    </a>
+                  )}
+                  {hotline.sms_number && (
+                    <a
+                      href={`sms:${hotline.sms_number.replace(/[^0-9+]/g, '')}${
+                        hotline.sms_keyword ? `?&body=${encodeURIComponent(hotline.sms_keyword)}` : ''
+                      }`}
+                      className="flex-1 bg-blue-100 hover:bg-blue-200 text-blue-900 font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
+                    >
+                      <MessageSquare className="w-4 h-4" />
+                      <span>
+                        {hotline.sms_keyword
+                          ? `Text ${hotline.sms_keyword} to ${hotline.sms_number}`
+                          : `Text ${hotline.sms_number}`}
+                      </span>
+                    </a>
+                  )}
+                  {hotline.chat_url && (
+                    <a
+                      href={hotline.chat_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex-1 bg-blue-100 hover:bg-blue-200 text-blue-900 font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
+                    >
+                      <MessageCircle className="w-4 h-4" />
+                      <span>Chat online</span>
+                    </a>
+                  )}
                   {hotline.website && (
                     <a
                       href={hotline.website}
@@ -366,6 +723,19 @@ export default function Crisis() {
                     </a>
                   )}
                 </div>
+                <p className="text-xs text-slate-500 mt-2 flex items-center space-x-1">
+                  {hotline.verified_on ? (
+                    <>
+                      <BadgeCheck className="w-3 h-3" />
+                      <span>Verified on {new Date(`${hotline.verified_on}T00:00:00`).toLocaleDateString()}</span>
+                    </>
+                  ) : (
+                    <span>Not yet verified</span>
+                  )}
+                  {hotline.languages.length > 0 && (
+                    <span>· {hotline.languages.map((l) => l.toUpperCase()).join(', ')}</span>
+                  )}
+                </p>
               </div>
             ))}
           </div>
@@ -373,7 +743,8 @@ export default function Crisis() {
 
         <div className="bg-slate-100 rounded-xl p-6 text-center">
           <p className="text-sm text-slate-600">
-            If you or your partner are in immediate danger, please call 911 or go to your nearest emergency room.
+            If you or your partner are in immediate danger, please call your local emergency number (911 in the US) or
+            go to your nearest emergency room.
           </p>
         </div>
       </main>
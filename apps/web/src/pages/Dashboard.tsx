@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Heart, LogOut, Activity, MessageCircle, Calendar, TrendingUp, AlertCircle, Zap, Sparkles, Bluetooth, Bot, Shield, Award, Users, BookOpen, User, Wind } from 'lucide-react';
+import { Heart, LogOut, Activity, MessageCircle, Calendar, TrendingUp, AlertCircle, Zap, Sparkles, Bluetooth, Bot, Shield, Award, Users, BookOpen, User, Wind, ClipboardList } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 
@@ -195,6 +195,12 @@ export default function Dashboard() {
             description="View your relationship patterns and progress"
             onClick={() => navigate('/insights')}
           />
+          <DashboardCard
+            icon={<ClipboardList className="w-6 h-6 text-rose-500" />}
+            title="Self-Assessments"
+            description="Check in on mood, anxiety, stress and well-being"
+            onClick={() => navigate('/assessments')}
+          />
           <DashboardCard
             icon={<Shield className="w-6 h-6 text-rose-600" />}
             title="Crisis Support"
@@ -13,10 +13,29 @@ import {
   CheckCircle2,
   Info,
   BarChart3,
+  ClipboardList,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { analyticsService, CorrelationInsight } from '../lib/analytics';
 import { supabase } from '../lib/supabase';
+import {
+  assessmentService,
+  Assessment,
+  AssessmentQuestion,
+  AssessmentResponse,
+  Severity,
+  getMaxScore,
+  needsCrisisSupport,
+} from '../lib/assessments';
+
+const SEVERITY_BAR_COLORS: Record<Severity, string> = {
+  none: 'bg-emerald-500',
+  mild: 'bg-sky-500',
+  moderate: 'bg-amber-500',
+  severe: 'bg-rose-500',
+};
+
+const ASSESSMENT_TREND_LENGTH = 8;
 
 interface Couple {
   id: string;
@@ -37,6 +56,9 @@ export default function Insights() {
   const [conflictPatterns, setConflictPatterns] = useState<any[]>([]);
   const [partnerComparison, setPartnerComparison] = useState<any>(null);
   const [timeRange, setTimeRange] = useState<7 | 30 | 90>(30);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [assessmentResponses, setAssessmentResponses] = useState<AssessmentResponse[]>([]);
+  const [assessmentQuestions, setAssessmentQuestions] = useState<Record<string, AssessmentQuestion[]>>({});
 
   useEffect(() => {
     if (!user) {
@@ -69,6 +91,8 @@ export default function Insights() {
         biometrics,
         conflicts,
         partnerData,
+        assessmentsData,
+        assessmentResponsesData,
       ] = await Promise.all([
         analyticsService.getCorrelationInsights(user.id, coupleData?.id || null),
         analyticsService.getEmotionalPatterns(user.id, timeRange),
@@ -85,6 +109,8 @@ export default function Insights() {
               coupleData.partner_2_id
             )
           : Promise.resolve(null),
+        assessmentService.getAssessments(),
+        assessmentService.getAllResponses(user.id),
       ]);
 
       setInsights(insightsData);
@@ -94,6 +120,16 @@ export default function Insights() {
       setBiometricTrends(biometrics);
       setConflictPatterns(conflicts);
       setPartnerComparison(partnerData);
+      const trackedAssessments = assessmentsData.filter((a) => a.category !== 'attachment');
+      setAssessments(trackedAssessments);
+      setAssessmentResponses(assessmentResponsesData);
+
+      // Without severity bands the chart scale comes from the questions
+      const unbanded = trackedAssessments.filter(
+        (a) => a.severity_bands.length === 0 && assessmentResponsesData.some((r) => r.assessment_id === a.id)
+      );
+      const unbandedQuestions = await Promise.all(unbanded.map((a) => assessmentService.getQuestions(a.id)));
+      setAssessmentQuestions(Object.fromEntries(unbanded.map((a, i) => [a.id, unbandedQuestions[i]])));
     } catch (error) {
       console.error('Error loading insights:', error);
     } finally {
@@ -184,6 +220,19 @@ export default function Insights() {
     };
   };
 
+  // Oldest to newest, per assessment, for the trend bars
+  const getAssessmentTrends = () => {
+    return assessments
+      .map((assessment) => ({
+        assessment,
+        results: assessmentResponses
+          .filter((r) => r.assessment_id === assessment.id)
+          .slice(0, ASSESSMENT_TREND_LENGTH)
+          .reverse(),
+      }))
+      .filter((trend) => trend.results.length > 0);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex items-center justify-center">
@@ -195,6 +244,7 @@ export default function Insights() {
   const zoneSummary = getZoneSummary();
   const avgBiometrics = getAverageBiometrics();
   const topEmotions = getTopEmotions();
+  const assessmentTrends = getAssessmentTrends();
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
@@ -394,6 +444,78 @@ export default function Insights() {
           </div>
         )}
 
+        <div className="bg-white rounded-xl border border-slate-200 p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-slate-900 flex items-center space-x-2">
+              <ClipboardList className="w-5 h-5 text-rose-500" />
+              <span>Self-Assessments</span>
+            </h2>
+            <button
+              onClick={() => navigate('/assessments')}
+              className="text-sm font-medium text-rose-600 hover:text-rose-700"
+            >
+              {assessmentTrends.length > 0 ? 'Take or retake' : 'Take an assessment'}
+            </button>
+          </div>
+          {assessmentTrends.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              Track mood, anxiety, stress and well-being over time with short questionnaires.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              {assessmentTrends.map(({ assessment, results }) => {
+                const latest = results[results.length - 1];
+                const previous = results.length > 1 ? results[results.length - 2] : null;
+                const maxScore = getMaxScore(assessment, assessmentQuestions[assessment.id]) || 1;
+                const change = previous ? latest.total_score - previous.total_score : null;
+
+                return (
+                  <div key={assessment.id}>
+                    <div className="flex items-center justify-between text-sm mb-2">
+                      <span className="font-medium text-slate-900">{assessment.name}</span>
+                      <span className="text-slate-600">
+                        {latest.result || `Score ${latest.total_score}`}
+                        {change !== null && change !== 0 && ` (${change > 0 ? '+' : ''}${change} since last time)`}
+                      </span>
+                    </div>
+                    <div className="flex items-end space-x-2 h-16">
+                      {results.map((result) => (
+                        <div
+                          key={result.id}
+                          className="flex-1 flex flex-col justify-end h-full"
+                          title={`${new Date(result.completed_at).toLocaleDateString()}: ${result.total_score}${
+                            result.result ? ` - ${result.result}` : ''
+                          }`}
+                        >
+                          <div
+                            className={`rounded-t ${SEVERITY_BAR_COLORS[result.severity || 'none']}`}
+                            style={{ height: `${Math.max(4, (result.total_score / maxScore) * 100)}%` }}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-xs text-slate-500 mt-1">
+                      <span>{new Date(results[0].completed_at).toLocaleDateString()}</span>
+                      <span>{new Date(latest.completed_at).toLocaleDateString()}</span>
+                    </div>
+                    {needsCrisisSupport(latest) && (
+                      <div className="mt-3 text-sm text-rose-900 bg-rose-50 border border-rose-200 rounded-lg p-3 flex items-center justify-between">
+                        <span>Your latest result suggests you could use some extra support.</span>
+                        <button
+                          onClick={() => navigate('/crisis')}
+                          className="ml-3 font-medium underline hover:no-underline whitespace-nowrap"
+                        >
+                          Get support
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
         {partnerComparison && (couple?.partner_2_id) && (
           <div className="bg-gradient-to-br from-blue-50 to-violet-50 rounded-xl border border-blue-200 p-6">
             <h2 className="text-lg font-semibold text-slate-900 mb-4">Partner Readiness</h2>
@@ -12,6 +12,16 @@ import {
   BookOpen,
   Zap,
   Activity,
+  CalendarClock,
+  Pencil,
+  Trash2,
+  ChevronDown,
+  ChevronUp,
+  PauseCircle,
+  Plus,
+  Archive,
+  ArchiveRestore,
+  X,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import {
@@ -20,8 +30,21 @@ import {
   ToneAnalysis,
   MessageTemplate,
   PartnerStatus,
+  ConversationThread,
+  GENERAL_THREAD_KEY,
 } from '../lib/messaging';
 import { biometricService } from '../lib/biometric';
+import { crisisService, CoolingOffPeriod } from '../lib/crisis';
+import { attachmentService, AttachmentContext } from '../lib/attachment';
+import { voiceMessageService, VoiceMessage, VoiceProcessingResult } from '../lib/voice';
+import VoiceRecorder from '../components/VoiceRecorder';
+import VoiceMessageBubble from '../components/VoiceMessageBubble';
+
+const toDateTimeLocal = (iso: string) => {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
 
 export default function Messages() {
   const { user } = useAuth();
@@ -37,9 +60,31 @@ export default function Messages() {
   const [partnerStatus, setPartnerStatus] = useState<PartnerStatus | null>(null);
   const [myZone, setMyZone] = useState<'green' | 'yellow' | 'red' | undefined>();
   const [myHeartRate, setMyHeartRate] = useState<number | undefined>();
+  const [attachment, setAttachment] = useState<AttachmentContext | null>(null);
   const [showTemplates, setShowTemplates] = useState(false);
   const [templates, setTemplates] = useState<MessageTemplate[]>([]);
   const [showWarning, setShowWarning] = useState(false);
+  const [scheduledMessages, setScheduledMessages] = useState<CoupleMessage[]>([]);
+  const [showOutbox, setShowOutbox] = useState(false);
+  const [showSchedulePicker, setShowSchedulePicker] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editScheduleAt, setEditScheduleAt] = useState('');
+  const [heldMessages, setHeldMessages] = useState<CoupleMessage[]>([]);
+  const [outboxNotice, setOutboxNotice] = useState<string | null>(null);
+  const [coolingOff, setCoolingOff] = useState<CoolingOffPeriod | null>(null);
+  const [activeTemplate, setActiveTemplate] = useState<MessageTemplate | null>(null);
+  const [threads, setThreads] = useState<ConversationThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [showArchived, setShowArchived] = useState(false);
+  const [showNewThread, setShowNewThread] = useState(false);
+  const [newThreadTopic, setNewThreadTopic] = useState('');
+  const activeThreadRef = useRef<string | null>(null);
+  const [voiceMessages, setVoiceMessages] = useState<VoiceMessage[]>([]);
+  const [processingVoice, setProcessingVoice] = useState(false);
+  const [pendingVoice, setPendingVoice] = useState<VoiceProcessingResult | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const analyzeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -60,13 +105,18 @@ export default function Messages() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, voiceMessages]);
 
   useEffect(() => {
     if (coupleId) {
       const channel = messagingService.subscribeToMessages(coupleId, handleNewMessage);
+      const voiceChannel = voiceMessageService.subscribeToVoiceMessages(
+        coupleId,
+        handleVoiceMessage
+      );
       return () => {
         messagingService.unsubscribeFromMessages(channel);
+        messagingService.unsubscribeFromMessages(voiceChannel);
       };
     }
   }, [coupleId]);
@@ -108,16 +158,42 @@ export default function Messages() {
       const partner = couple.partner_1_id === user.id ? couple.partner_2_id : couple.partner_1_id;
       setPartnerId(partner);
 
-      const [messagesData, partnerStatusData, templatesData, myCheckIn] = await Promise.all([
-        messagingService.getMessages(couple.id),
+      const [
+        messagesData,
+        partnerStatusData,
+        templatesData,
+        myCheckIn,
+        scheduledData,
+        heldData,
+        coolingOffData,
+        threadsData,
+        unreadData,
+        voiceData,
+        attachmentData,
+      ] = await Promise.all([
+        messagingService.getMessages(couple.id, null),
         messagingService.getPartnerStatus(user.id, partner),
         messagingService.getTemplates(),
         messagingService.getPartnerStatus(partner, user.id),
+        messagingService.getScheduledMessages(couple.id, user.id),
+        messagingService.getHeldMessages(couple.id, user.id),
+        crisisService.getActiveCoolingOffPeriod(couple.id),
+        messagingService.getThreads(couple.id, true),
+        messagingService.getThreadUnreadCounts(couple.id, user.id),
+        voiceMessageService.getVoiceMessages(couple.id, null),
+        attachmentService.getAttachmentContext(),
       ]);
 
       setMessages(messagesData);
+      setVoiceMessages(voiceData);
+      setScheduledMessages(scheduledData);
+      setHeldMessages(heldData);
+      setCoolingOff(coolingOffData);
+      setThreads(threadsData);
+      setUnreadCounts({ ...unreadData, [GENERAL_THREAD_KEY]: 0 });
       setPartnerStatus(partnerStatusData);
       setTemplates(templatesData);
+      setAttachment(attachmentData);
 
       if (myCheckIn) {
         setMyZone(myCheckIn.zone);
@@ -144,6 +220,40 @@ export default function Messages() {
   };
 
   const handleNewMessage = (message: CoupleMessage) => {
+    if (message.status === 'scheduled' || message.status === 'draft') {
+      if (message.sender_id === user?.id) {
+        const upsert = (prev: CoupleMessage[]) => {
+          const exists = prev.find((m) => m.id === message.id);
+          if (exists) {
+            return prev.map((m) => (m.id === message.id ? message : m));
+          }
+          return [...prev, message];
+        };
+
+        if (message.status === 'scheduled') {
+          setScheduledMessages(upsert);
+        } else if (message.cooling_off_period_id) {
+          setScheduledMessages((prev) => prev.filter((m) => m.id !== message.id));
+          setHeldMessages(upsert);
+        }
+      }
+      return;
+    }
+
+    setScheduledMessages((prev) => prev.filter((m) => m.id !== message.id));
+    setHeldMessages((prev) => prev.filter((m) => m.id !== message.id));
+
+    if ((message.thread_id || null) !== activeThreadRef.current) {
+      if (message.receiver_id === user?.id && message.status === 'sent') {
+        const key = message.thread_id || GENERAL_THREAD_KEY;
+        setUnreadCounts((prev) => ({ ...prev, [key]: (prev[key] || 0) + 1 }));
+      }
+      if (message.thread_id) {
+        messagingService.getThreads(message.couple_id, true).then(setThreads);
+      }
+      return;
+    }
+
     setMessages((prev) => {
       const exists = prev.find((m) => m.id === message.id);
       if (exists) {
@@ -157,6 +267,114 @@ export default function Messages() {
     }
   };
 
+  const handleVoiceMessage = (voiceMessage: VoiceMessage) => {
+    if (voiceMessage.status !== 'delivered') return;
+    if ((voiceMessage.thread_id || null) !== activeThreadRef.current) return;
+
+    setVoiceMessages((prev) => {
+      const exists = prev.find((v) => v.id === voiceMessage.id);
+      if (exists) {
+        return prev.map((v) => (v.id === voiceMessage.id ? voiceMessage : v));
+      }
+      return [...prev, voiceMessage];
+    });
+  };
+
+  const handleVoiceRecorded = async (audio: Blob, durationSeconds: number) => {
+    if (!coupleId || !partnerId || !user) return;
+
+    setProcessingVoice(true);
+
+    try {
+      const result = await voiceMessageService.sendVoiceMessage(
+        coupleId,
+        user.id,
+        partnerId,
+        audio,
+        durationSeconds,
+        {
+          senderZone: myZone,
+          receiverZone: partnerStatus?.zone,
+          senderHeartRate: myHeartRate,
+          threadId: activeThreadId || undefined,
+        }
+      );
+
+      if (result?.delivered) {
+        handleVoiceMessage(result.voiceMessage);
+      } else if (result) {
+        setPendingVoice(result);
+      }
+    } finally {
+      setProcessingVoice(false);
+    }
+  };
+
+  const handleDeliverPendingVoice = async () => {
+    if (!pendingVoice) return;
+
+    const delivered = await voiceMessageService.deliverVoiceMessage(pendingVoice.voiceMessage.id);
+    if (delivered) {
+      handleVoiceMessage(delivered);
+      setPendingVoice(null);
+    }
+  };
+
+  const handleDiscardPendingVoice = async () => {
+    if (!pendingVoice) return;
+
+    await voiceMessageService.discardVoiceMessage(pendingVoice.voiceMessage);
+    setPendingVoice(null);
+  };
+
+  const handleSelectThread = async (threadId: string | null) => {
+    if (!coupleId || !user) return;
+
+    activeThreadRef.current = threadId;
+    setActiveThreadId(threadId);
+
+    const [threadMessages, threadVoiceMessages] = await Promise.all([
+      messagingService.getMessages(coupleId, threadId),
+      voiceMessageService.getVoiceMessages(coupleId, threadId),
+    ]);
+    if (activeThreadRef.current !== threadId) return;
+
+    setMessages(threadMessages);
+    setVoiceMessages(threadVoiceMessages);
+    setUnreadCounts((prev) => ({ ...prev, [threadId || GENERAL_THREAD_KEY]: 0 }));
+
+    const unreadMessages = threadMessages.filter(
+      (m) => m.receiver_id === user.id && m.status === 'sent'
+    );
+    for (const msg of unreadMessages) {
+      await messagingService.markAsRead(msg.id);
+    }
+  };
+
+  const handleCreateThread = async () => {
+    if (!coupleId || !user || !newThreadTopic.trim()) return;
+
+    const thread = await messagingService.createThread(coupleId, user.id, newThreadTopic.trim());
+    if (thread) {
+      setThreads((prev) => [thread, ...prev]);
+      setNewThreadTopic('');
+      setShowNewThread(false);
+      handleSelectThread(thread.id);
+    }
+  };
+
+  const handleToggleArchived = async (thread: ConversationThread) => {
+    const success = await messagingService.setThreadArchived(thread.id, !thread.is_archived);
+    if (success) {
+      setThreads((prev) =>
+        prev.map((t) => (t.id === thread.id ? { ...t, is_archived: !thread.is_archived } : t))
+      );
+      if (!thread.is_archived && !showArchived) {
+        handleSelectThread(null);
+      }
+    }
+  };
+
   const analyzeTone = async () => {
     if (!input.trim() || analyzing) return;
 
@@ -167,12 +385,12 @@ export default function Messages() {
         senderZone: myZone,
         receiverZone: partnerStatus?.zone,
         senderHeartRate: myHeartRate,
+        senderAttachmentStyle: attachment?.style || undefined,
+        receiverAttachmentStyle: attachment?.partnerStyle || undefined,
       });
 
-      if (analysis) {
-        setToneAnalysis(analysis);
-        setShowWarning(analysis.riskLevel !== 'low' || analysis.shouldDelay);
-      }
+      setToneAnalysis(analysis);
+      setShowWarning(analysis.riskLevel !== 'low' || analysis.shouldDelay);
     } catch (error) {
       console.error('Error analyzing tone:', error);
     } finally {
@@ -183,23 +401,34 @@ export default function Messages() {
   const handleSendMessage = async () => {
     if (!input.trim() || !coupleId || !partnerId || sending) return;
 
-    if (showWarning && toneAnalysis?.shouldDelay) {
+    if (showWarning && toneAnalysis?.shouldDelay && !scheduleAt) {
       return;
     }
 
     setSending(true);
 
     try {
-      await messagingService.sendMessage(coupleId, user!.id, partnerId, input, {
+      const sent = await messagingService.sendMessage(coupleId, user!.id, partnerId, input, {
+        scheduledSendAt: scheduleAt ? new Date(scheduleAt).toISOString() : undefined,
         senderZone: myZone,
         senderHeartRate: myHeartRate,
         receiverZone: partnerStatus?.zone,
         toneAnalysis: toneAnalysis || undefined,
+        templateId: activeTemplate?.content === input ? activeTemplate.id : undefined,
+        threadId: activeThreadId || undefined,
       });
 
+      if (sent && sent.status !== 'sent') {
+        handleNewMessage(sent);
+        setShowOutbox(true);
+      }
+
       setInput('');
+      setActiveTemplate(null);
       setToneAnalysis(null);
       setShowWarning(false);
+      setScheduleAt('');
+      setShowSchedulePicker(false);
     } catch (error) {
       console.error('Error sending message:', error);
     } finally {
@@ -207,15 +436,78 @@ export default function Messages() {
     }
   };
 
+  const handleStartEdit = (message: CoupleMessage) => {
+    setEditingMessageId(message.id);
+    setEditContent(message.content);
+    setEditScheduleAt(message.scheduled_send_at ? toDateTimeLocal(message.scheduled_send_at) : '');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessageId || !editContent.trim() || !editScheduleAt) return;
+
+    const updated = await messagingService.updateScheduledMessage(editingMessageId, {
+      content: editContent.trim(),
+      scheduledSendAt: new Date(editScheduleAt).toISOString(),
+    });
+
+    if (updated) {
+      setScheduledMessages((prev) =>
+        prev
+          .map((m) => (m.id === updated.id ? updated : m))
+          .sort((a, b) => (a.scheduled_send_at || '').localeCompare(b.scheduled_send_at || ''))
+      );
+      setOutboxNotice(null);
+    } else {
+      await handlePendingChangeFailed();
+    }
+
+    setEditingMessageId(null);
+  };
+
+  const handleDiscardPending = async (messageId: string) => {
+    const success = await messagingService.discardPendingMessage(messageId);
+    if (success) {
+      setScheduledMessages((prev) => prev.filter((m) => m.id !== messageId));
+      setHeldMessages((prev) => prev.filter((m) => m.id !== messageId));
+      setOutboxNotice(null);
+    } else {
+      await handlePendingChangeFailed();
+    }
+  };
+
+  // The message may have been sent while it was being changed, so reload the
+  // outbox rather than showing it as still pending
+  const handlePendingChangeFailed = async () => {
+    setOutboxNotice("That message couldn't be changed. It may already have been sent.");
+    if (!coupleId || !user) return;
+
+    const [scheduledData, heldData] = await Promise.all([
+      messagingService.getScheduledMessages(coupleId, user.id),
+      messagingService.getHeldMessages(coupleId, user.id),
+    ]);
+    setScheduledMessages(scheduledData);
+    setHeldMessages(heldData);
+  };
+
+  const handleReleaseHeld = async (messageId: string) => {
+    const released = await messagingService.releaseHeldMessage(messageId);
+    if (released?.status === 'sent') {
+      handleNewMessage(released);
+    } else if (coupleId) {
+      setCoolingOff(await crisisService.getActiveCoolingOffPeriod(coupleId));
+    }
+  };
+
   const handleUseTemplate = (template: MessageTemplate) => {
     setInput(template.content);
+    setActiveTemplate(template);
     setShowTemplates(false);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      if (!showWarning || !toneAnalysis?.shouldDelay) {
+      if (!showWarning || !toneAnalysis?.shouldDelay || scheduleAt) {
         handleSendMessage();
       }
     }
@@ -245,6 +537,22 @@ export default function Messages() {
     }
   };
 
+  const inCoolingOff = !!coolingOff && new Date(coolingOff.ends_at) > new Date();
+  const visibleThreads = threads.filter((t) => showArchived || !t.is_archived);
+  const timeline = [
+    ...messages.map((message) => ({
+      kind: 'text' as const,
+      at: message.sent_at || message.created_at,
+      message,
+    })),
+    ...voiceMessages.map((voiceMessage) => ({
+      kind: 'voice' as const,
+      at: voiceMessage.delivered_at || voiceMessage.created_at,
+      voiceMessage,
+    })),
+  ].sort((a, b) => a.at.localeCompare(b.at));
+  const activeThread = threads.find((t) => t.id === activeThreadId);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex items-center justify-center">
@@ -312,48 +620,203 @@ export default function Messages() {
         </div>
       )}
 
+      {inCoolingOff && coolingOff && (
+        <div className="bg-indigo-50 border-b border-indigo-200 px-4 py-3">
+          <div className="max-w-4xl mx-auto flex items-start space-x-2 text-sm text-indigo-900">
+            <PauseCircle className="w-5 h-5 flex-shrink-0 text-indigo-600" />
+            <p>
+              You're in a cooling-off break until{' '}
+              {new Date(coolingOff.ends_at).toLocaleString([], {
+                weekday: 'short',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+              . Messages you write now will be held, and you can review them before they're sent
+              once the break ends. Break and support templates can still be sent unchanged.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white border-b border-slate-200 px-4 py-2">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center space-x-2 overflow-x-auto">
+            {[null, ...visibleThreads].map((thread) => {
+              const threadId = thread?.id || null;
+              const unread = unreadCounts[threadId || GENERAL_THREAD_KEY] || 0;
+              return (
+                <button
+                  key={threadId || GENERAL_THREAD_KEY}
+                  onClick={() => handleSelectThread(threadId)}
+                  className={`flex items-center space-x-1 whitespace-nowrap rounded-full px-3 py-1 text-sm transition-colors ${
+                    activeThreadId === threadId
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                  } ${thread?.is_archived ? 'opacity-60' : ''}`}
+                >
+                  <span>{thread ? thread.topic || 'Untitled' : 'General'}</span>
+                  {unread > 0 && (
+                    <span className="ml-1 min-w-[1.25rem] rounded-full bg-rose-500 px-1.5 text-xs text-white">
+                      {unread}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+            <button
+              onClick={() => setShowNewThread(!showNewThread)}
+              className="flex items-center space-x-1 whitespace-nowrap rounded-full border border-dashed border-slate-300 px-3 py-1 text-sm text-slate-600 hover:text-slate-900"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New topic</span>
+            </button>
+            {threads.some((t) => t.is_archived) && (
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="whitespace-nowrap text-xs text-slate-500 hover:text-slate-700 px-2"
+              >
+                {showArchived ? 'Hide archived' : 'Show archived'}
+              </button>
+            )}
+          </div>
+          {showNewThread && (
+            <div className="mt-2 flex items-center space-x-2">
+              <input
+                type="text"
+                value={newThreadTopic}
+                onChange={(e) => setNewThreadTopic(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateThread()}
+                placeholder="e.g. Money, In-laws, Weekend plans"
+                className="flex-1 rounded-lg border border-slate-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleCreateThread}
+                disabled={!newThreadTopic.trim()}
+                className="text-sm bg-blue-500 text-white rounded-lg px-3 py-1.5 hover:bg-blue-600 disabled:opacity-50"
+              >
+                Start
+              </button>
+            </div>
+          )}
+          {activeThread && (
+            <div className="mt-2 flex items-center justify-between text-xs text-slate-500">
+              <span>
+                Started {new Date(activeThread.started_at).toLocaleDateString()}
+                {activeThread.is_archived && ' • Archived'}
+              </span>
+              <button
+                onClick={() => handleToggleArchived(activeThread)}
+                className="flex items-center space-x-1 hover:text-slate-700"
+              >
+                {activeThread.is_archived ? (
+                  <ArchiveRestore className="w-3 h-3" />
+                ) : (
+                  <Archive className="w-3 h-3" />
+                )}
+                <span>{activeThread.is_archived ? 'Restore topic' : 'Archive topic'}</span>
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
       <main className="flex-1 overflow-y-auto">
         <div className="max-w-4xl mx-auto px-4 py-6 space-y-4">
-          {messages.length === 0 ? (
+          {timeline.length === 0 ? (
             <div className="text-center py-12">
               <Heart className="w-12 h-12 text-slate-300 mx-auto mb-3" />
               <p className="text-slate-600">No messages yet. Start the conversation!</p>
             </div>
           ) : (
-            messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.sender_id === user?.id ? 'justify-end' : 'justify-start'}`}
-              >
+            timeline.map((item) =>
+              item.kind === 'voice' ? (
+                <VoiceMessageBubble
+                  key={item.voiceMessage.id}
+                  voiceMessage={item.voiceMessage}
+                  isOwn={item.voiceMessage.sender_id === user?.id}
+                />
+              ) : (
                 <div
-                  className={`max-w-2xl rounded-2xl px-4 py-3 ${
-                    message.sender_id === user?.id
-                      ? 'bg-blue-500 text-white'
-                      : 'bg-white border border-slate-200 text-slate-900'
-                  }`}
+                  key={item.message.id}
+                  className={`flex ${item.message.sender_id === user?.id ? 'justify-end' : 'justify-start'}`}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                  {message.sent_at && (
-                    <div
-                      className={`text-xs mt-1 ${
-                        message.sender_id === user?.id ? 'text-blue-100' : 'text-slate-500'
-                      }`}
-                    >
-                      {new Date(message.sent_at).toLocaleTimeString([], {
-                        hour: '2-digit',
-                        minute: '2-digit',
-                      })}
-                      {message.status === 'read' && message.sender_id === user?.id && ' • Read'}
-                    </div>
-                  )}
+                  <div
+                    className={`max-w-2xl rounded-2xl px-4 py-3 ${
+                      item.message.sender_id === user?.id
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-white border border-slate-200 text-slate-900'
+                    }`}
+                  >
+                    <p className="text-sm whitespace-pre-wrap">{item.message.content}</p>
+                    {item.message.sent_at && (
+                      <div
+                        className={`text-xs mt-1 ${
+                          item.message.sender_id === user?.id ? 'text-blue-100' : 'text-slate-500'
+                        }`}
+                      >
+                        {new Date(item.message.sent_at).toLocaleTimeString([], {
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                        {item.message.status === 'read' && item.message.sender_id === user?.id && ' • Read'}
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))
+              )
+            )
           )}
           <div ref={messagesEndRef} />
         </div>
       </main>
 
+      {pendingVoice && (
+        <div
+          className={`border-t-2 px-4 py-3 ${
+            pendingVoice.analysis ? getRiskColor(pendingVoice.analysis.riskLevel) : 'border-indigo-300 bg-indigo-50'
+          }`}
+        >
+          <div className="max-w-4xl mx-auto flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5 text-rose-600" />
+            <div className="flex-1 space-y-2">
+              <p className="font-medium text-slate-900">
+                {pendingVoice.heldForCoolingOff && inCoolingOff
+                  ? 'Voice message held during your cooling-off break'
+                  : 'Review your voice message before sending'}
+              </p>
+              {pendingVoice.voiceMessage.transcription && (
+                <p className="text-sm text-slate-700 italic">
+                  "{pendingVoice.voiceMessage.transcription}"
+                </p>
+              )}
+              {pendingVoice.analysis?.delayReason && (
+                <p className="text-sm text-slate-700">{pendingVoice.analysis.delayReason}</p>
+              )}
+              {pendingVoice.analysis && pendingVoice.analysis.gottmanWarnings.length > 0 && (
+                <p className="text-sm text-slate-700">
+                  Detected: {pendingVoice.analysis.gottmanWarnings.join(', ')}
+                </p>
+              )}
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={handleDeliverPendingVoice}
+                  disabled={inCoolingOff}
+                  className="text-sm bg-blue-500 text-white rounded-lg px-3 py-1.5 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Send anyway
+                </button>
+                <button
+                  onClick={handleDiscardPendingVoice}
+                  className="text-sm text-slate-600 hover:text-slate-900"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {toneAnalysis && showWarning && (
         <div className={`border-t-2 px-4 py-3 ${getRiskColor(toneAnalysis.riskLevel)}`}>
           <div className="max-w-4xl mx-auto">
@@ -366,6 +829,14 @@ export default function Messages() {
                 {toneAnalysis.delayReason && (
                   <p className="text-sm text-slate-700">{toneAnalysis.delayReason}</p>
                 )}
+                {toneAnalysis.shouldDelay && !showSchedulePicker && (
+                  <button
+                    onClick={() => setShowSchedulePicker(true)}
+                    className="text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    Schedule it for later instead
+                  </button>
+                )}
                 {toneAnalysis.gottmanWarnings.length > 0 && (
                   <p className="text-sm text-slate-700">
                     Detected: {toneAnalysis.gottmanWarnings.join(', ')}
@@ -389,7 +860,167 @@ export default function Messages() {
         </div>
       )}
 
+      {outboxNotice && (
+        <div className="border-t border-amber-200 bg-amber-50 px-4 py-2">
+          <div className="max-w-4xl mx-auto flex items-center justify-between text-sm text-amber-900">
+            <span>{outboxNotice}</span>
+            <button
+              onClick={() => setOutboxNotice(null)}
+              className="p-1 text-amber-700 hover:text-amber-900"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(scheduledMessages.length > 0 || heldMessages.length > 0) && (
+        <div className="border-t border-slate-200 bg-slate-50 px-4 py-2">
+          <div className="max-w-4xl mx-auto">
+            <button
+              onClick={() => setShowOutbox(!showOutbox)}
+              className="w-full flex items-center justify-between text-sm text-slate-700"
+            >
+              <span className="flex items-center space-x-2">
+                <CalendarClock className="w-4 h-4" />
+                <span>
+                  {scheduledMessages.length > 0 && `Scheduled (${scheduledMessages.length})`}
+                  {scheduledMessages.length > 0 && heldMessages.length > 0 && ' • '}
+                  {heldMessages.length > 0 && `Held (${heldMessages.length})`}
+                </span>
+              </span>
+              {showOutbox ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+            </button>
+            {showOutbox && (
+              <div className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+                {heldMessages.map((message) => (
+                  <div
+                    key={message.id}
+                    className="bg-white rounded-lg border border-indigo-200 p-3 flex items-start justify-between space-x-3"
+                  >
+                    <div className="flex-1">
+                      <p className="text-sm text-slate-900 whitespace-pre-wrap">{message.content}</p>
+                      <p className="text-xs text-indigo-600 mt-1 flex items-center space-x-1">
+                        <PauseCircle className="w-3 h-3" />
+                        <span>
+                          {inCoolingOff
+                            ? 'Held until the cooling-off break ends'
+                            : 'Break is over - still want to send this?'}
+                        </span>
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => handleReleaseHeld(message.id)}
+                        disabled={inCoolingOff}
+                        className="text-xs bg-blue-500 text-white rounded-lg px-3 py-1.5 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Send now
+                      </button>
+                      <button
+                        onClick={() => handleDiscardPending(message.id)}
+                        className="p-1.5 text-slate-500 hover:text-rose-600"
+                        title="Discard"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {scheduledMessages.map((message) => (
+                  <div key={message.id} className="bg-white rounded-lg border border-slate-200 p-3">
+                    {editingMessageId === message.id ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={editContent}
+                          onChange={(e) => setEditContent(e.target.value)}
+                          rows={2}
+                          className="w-full resize-none rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="datetime-local"
+                            value={editScheduleAt}
+                            min={toDateTimeLocal(new Date().toISOString())}
+                            onChange={(e) => setEditScheduleAt(e.target.value)}
+                            className="flex-1 rounded-lg border border-slate-300 px-3 py-1.5 text-sm"
+                          />
+                          <button
+                            onClick={handleSaveEdit}
+                            disabled={!editContent.trim() || !editScheduleAt}
+                            className="text-sm bg-blue-500 text-white rounded-lg px-3 py-1.5 hover:bg-blue-600 disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditingMessageId(null)}
+                            className="text-sm text-slate-600 hover:text-slate-900 px-2"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-start justify-between space-x-3">
+                        <div className="flex-1">
+                          <p className="text-sm text-slate-900 whitespace-pre-wrap">{message.content}</p>
+                          {message.scheduled_send_at && (
+                            <p className="text-xs text-slate-500 mt-1 flex items-center space-x-1">
+                              <Clock className="w-3 h-3" />
+                              <span>{new Date(message.scheduled_send_at).toLocaleString()}</span>
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <button
+                            onClick={() => handleStartEdit(message)}
+                            className="p-1.5 text-slate-500 hover:text-slate-900"
+                            title="Edit or reschedule"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDiscardPending(message.id)}
+                            className="p-1.5 text-slate-500 hover:text-rose-600"
+                            title="Cancel"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="border-t border-slate-200 bg-white px-4 py-4 sticky bottom-0">
+        {showSchedulePicker && (
+          <div className="max-w-4xl mx-auto mb-3 flex items-center space-x-2 text-sm">
+            <CalendarClock className="w-4 h-4 text-slate-500" />
+            <span className="text-slate-600">Send at</span>
+            <input
+              type="datetime-local"
+              value={scheduleAt}
+              min={toDateTimeLocal(new Date().toISOString())}
+              onChange={(e) => setScheduleAt(e.target.value)}
+              className="rounded-lg border border-slate-300 px-3 py-1.5"
+            />
+            <button
+              onClick={() => {
+                setScheduleAt('');
+                setShowSchedulePicker(false);
+              }}
+              className="text-slate-500 hover:text-slate-700"
+            >
+              ✕
+            </button>
+          </div>
+        )}
         <div className="max-w-4xl mx-auto flex items-end space-x-3">
           <textarea
             value={input}
@@ -406,9 +1037,33 @@ export default function Messages() {
               <span>Analyzing...</span>
             </div>
           )}
+          {processingVoice ? (
+            <div className="flex items-center space-x-1 text-slate-500 text-xs p-3">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Transcribing...</span>
+            </div>
+          ) : (
+            <VoiceRecorder
+              disabled={sending || !!pendingVoice}
+              onRecorded={handleVoiceRecorded}
+            />
+          )}
+          <button
+            onClick={() => setShowSchedulePicker(!showSchedulePicker)}
+            className={`rounded-xl p-3 border transition-colors ${
+              scheduleAt
+                ? 'border-blue-300 bg-blue-50 text-blue-600'
+                : 'border-slate-300 text-slate-500 hover:text-slate-700'
+            }`}
+            title="Schedule message"
+          >
+            <CalendarClock className="w-5 h-5" />
+          </button>
           <button
             onClick={handleSendMessage}
-            disabled={!input.trim() || sending || (showWarning && toneAnalysis?.shouldDelay)}
+            disabled={
+              !input.trim() || sending || (showWarning && toneAnalysis?.shouldDelay && !scheduleAt)
+            }
             className="bg-blue-500 text-white rounded-xl p-3 hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {sending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
@@ -450,8 +1105,15 @@ export default function Messages() {
                 >
                   <div className="flex items-start justify-between mb-2">
                     <div className="font-medium text-slate-900">{template.title}</div>
-                    <div className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700">
-                      {template.category}
+                    <div className="flex items-center space-x-1">
+                      {inCoolingOff && template.allowed_during_cooling_off && (
+                        <div className="text-xs px-2 py-1 rounded-full bg-indigo-100 text-indigo-700">
+                          sends during break
+                        </div>
+                      )}
+                      <div className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700">
+                        {template.category}
+                      </div>
                     </div>
                   </div>
                   <div className="text-sm text-slate-600 mb-2">{template.description}</div>
@@ -3,33 +3,15 @@ import { useNavigate } from 'react-router-dom';
 import { Heart, CheckCircle2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-
-const attachmentStyles = [
-  {
-    value: 'secure',
-    label: 'Secure',
-    description: 'Comfortable with intimacy and independence',
-  },
-  {
-    value: 'anxious',
-    label: 'Anxious',
-    description: 'Crave closeness, worry about abandonment',
-  },
-  {
-    value: 'avoidant',
-    label: 'Avoidant',
-    description: 'Value independence, uncomfortable with too much closeness',
-  },
-  {
-    value: 'fearful-avoidant',
-    label: 'Fearful-Avoidant',
-    description: 'Want closeness but fear getting hurt',
-  },
-];
+import { ATTACHMENT_STYLES } from '../lib/attachment';
+import { AttachmentResult } from '../lib/assessments';
+import AttachmentAssessment from '../components/AttachmentAssessment';
 
 export default function Onboarding() {
   const [step, setStep] = useState(1);
   const [attachmentStyle, setAttachmentStyle] = useState<string | null>(null);
+  const [assessmentResult, setAssessmentResult] = useState<AttachmentResult | null>(null);
+  const [selfSelect, setSelfSelect] = useState(false);
   const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
   const [loading, setLoading] = useState(false);
   const { user, refreshProfile } = useAuth();
@@ -72,7 +54,7 @@ export default function Onboarding() {
         </h2>
         <p className="text-center text-slate-600">
           {step === 1
-            ? 'Understanding your attachment style helps us personalize your experience'
+            ? 'A short questionnaire about your attachment style helps us personalize your experience'
             : 'Review your profile and finish setup'}
         </p>
 
@@ -93,28 +75,6 @@ export default function Onboarding() {
         <div className="bg-white py-8 px-6 shadow-lg rounded-2xl sm:px-10 border border-slate-200">
           {step === 1 && (
             <div className="space-y-6">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-4">
-                  Which attachment style resonates most with you?
-                </label>
-                <div className="space-y-3">
-                  {attachmentStyles.map((style) => (
-                    <button
-                      key={style.value}
-                      onClick={() => setAttachmentStyle(style.value)}
-                      className={`w-full text-left px-4 py-4 border-2 rounded-lg transition-all ${
-                        attachmentStyle === style.value
-                          ? 'border-rose-500 bg-rose-50'
-                          : 'border-slate-200 hover:border-slate-300 bg-white'
-                      }`}
-                    >
-                      <div className="font-medium text-slate-900">{style.label}</div>
-                      <div className="text-sm text-slate-600 mt-1">{style.description}</div>
-                    </button>
-                  ))}
-                </div>
-              </div>
-
               <div>
                 <label htmlFor="timezone" className="block text-sm font-medium text-slate-700 mb-2">
                   Timezone
@@ -129,13 +89,67 @@ export default function Onboarding() {
                 </select>
               </div>
 
-              <button
-                onClick={() => setStep(2)}
-                disabled={!attachmentStyle}
-                className="w-full py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-rose-500 hover:bg-rose-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-rose-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                Continue
-              </button>
+              {selfSelect ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-4">
+                      Which attachment style resonates most with you?
+                    </label>
+                    <div className="space-y-3">
+                      {ATTACHMENT_STYLES.map((style) => (
+                        <button
+                          key={style.value}
+                          onClick={() => {
+                            setAttachmentStyle(style.value);
+                            setAssessmentResult(null);
+                          }}
+                          className={`w-full text-left px-4 py-4 border-2 rounded-lg transition-all ${
+                            attachmentStyle === style.value
+                              ? 'border-rose-500 bg-rose-50'
+                              : 'border-slate-200 hover:border-slate-300 bg-white'
+                          }`}
+                        >
+                          <div className="font-medium text-slate-900">{style.label}</div>
+                          <div className="text-sm text-slate-600 mt-1">{style.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => setStep(2)}
+                    disabled={!attachmentStyle}
+                    className="w-full py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-rose-500 hover:bg-rose-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-rose-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Continue
+                  </button>
+
+                  <button
+                    onClick={() => setSelfSelect(false)}
+                    className="w-full text-sm text-slate-600 hover:text-slate-900"
+                  >
+                    Take the questionnaire instead
+                  </button>
+                </>
+              ) : (
+                <>
+                  <AttachmentAssessment
+                    onComplete={(result) => {
+                      setAssessmentResult(result);
+                      setAttachmentStyle(result.style);
+                      setStep(2);
+                    }}
+                    onUnavailable={() => setSelfSelect(true)}
+                  />
+
+                  <button
+                    onClick={() => setSelfSelect(true)}
+                    className="w-full text-sm text-slate-600 hover:text-slate-900"
+                  >
+                    I already know my attachment style
+                  </button>
+                </>
+              )}
             </div>
           )}
 
@@ -145,8 +159,14 @@ export default function Onboarding() {
                 <div>
                   <div className="text-sm font-medium text-slate-500">Attachment Style</div>
                   <div className="text-lg text-slate-900 mt-1">
-                    {attachmentStyles.find((s) => s.value === attachmentStyle)?.label}
+                    {ATTACHMENT_STYLES.find((s) => s.value === attachmentStyle)?.label}
                   </div>
+                  {assessmentResult && (
+                    <div className="text-sm text-slate-600 mt-1">
+                      Anxiety {assessmentResult.anxiety.toFixed(1)}/7 · Avoidance {assessmentResult.avoidance.toFixed(1)}/7.
+                      You can retake the questionnaire any time from your profile.
+                    </div>
+                  )}
                 </div>
                 <div>
                   <div className="text-sm font-medium text-slate-500">Timezone</div>
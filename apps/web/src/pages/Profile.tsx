@@ -1,17 +1,35 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Award, Crown, Zap, Loader2 } from 'lucide-react';
+import { ArrowLeft, Award, Crown, Zap, Loader2, Gauge, Sparkles, EyeOff } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { achievementService, subscriptionService, Achievement, UserAchievement, SubscriptionTier } from '../lib/subscription';
+import {
+  achievementService,
+  subscriptionService,
+  Achievement,
+  UserAchievement,
+  SubscriptionTier,
+  UsageSummary,
+} from '../lib/subscription';
+import { attachmentService } from '../lib/attachment';
+import { discreetService, DiscreetSettings } from '../lib/discreet';
+
+const USAGE_LABELS: Record<UsageSummary['metric'], string> = {
+  ai_coach_messages: 'AI coach messages',
+  tone_analyses: 'Message tone checks',
+};
 
 export default function Profile() {
-  const { user, profile } = useAuth();
+  const { user, profile, refreshProfile } = useAuth();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [userAchievements, setUserAchievements] = useState<UserAchievement[]>([]);
   const [subscription, setSubscription] = useState<any>(null);
   const [tiers, setTiers] = useState<SubscriptionTier[]>([]);
+  const [usage, setUsage] = useState<UsageSummary[]>([]);
+  const [savingPersonalization, setSavingPersonalization] = useState(false);
+  const [discreet, setDiscreet] = useState<DiscreetSettings>(() => discreetService.getDeviceSettings());
+  const [savingDiscreet, setSavingDiscreet] = useState(false);
 
   useEffect(() => {
     if (!user) {
@@ -25,20 +43,50 @@ export default function Profile() {
     if (!user) return;
 
     setLoading(true);
-    const [achvs, userAchvs, sub, tiersList] = await Promise.all([
+    const [achvs, userAchvs, sub, tiersList, usageData, discreetData] = await Promise.all([
       achievementService.getAchievements(),
       achievementService.getUserAchievements(user.id),
       subscriptionService.getCurrentSubscription(user.id),
       subscriptionService.getTiers(),
+      subscriptionService.getUsage(),
+      discreetService.getSettings(user.id),
     ]);
 
     setAchievements(achvs);
     setUserAchievements(userAchvs);
     setSubscription(sub);
     setTiers(tiersList);
+    setUsage(usageData);
+    setDiscreet(discreetData);
     setLoading(false);
   };
 
+  const togglePersonalization = async () => {
+    if (!user || !profile) return;
+
+    setSavingPersonalization(true);
+    const success = await attachmentService.setPersonalization(user.id, !profile.attachment_personalization);
+    if (success) {
+      await refreshProfile();
+    }
+    setSavingPersonalization(false);
+  };
+
+  const updateDiscreet = async (changes: Partial<DiscreetSettings>) => {
+    if (!user) return;
+
+    const next = { ...discreet, ...changes };
+    // Disguise only applies while discreet mode is on
+    if (!next.enabled) next.disguise_app = false;
+
+    setSavingDiscreet(true);
+    const success = await discreetService.saveSettings(user.id, next);
+    if (success) {
+      setDiscreet(next);
+    }
+    setSavingDiscreet(false);
+  };
+
   const hasAchievement = (achievementId: string) => {
     return userAchievements.some(ua => ua.achievement_id === achievementId);
   };
@@ -78,6 +126,117 @@ export default function Profile() {
           )}
         </div>
 
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <h3 className="text-lg font-bold text-slate-900 mb-4 flex items-center space-x-2">
+            <Sparkles className="w-6 h-6 text-purple-500" />
+            <span>Personalization</span>
+          </h3>
+          <label className="flex items-start justify-between space-x-4 cursor-pointer">
+            <div>
+              <p className="font-medium text-slate-900">Use my attachment style</p>
+              <p className="text-sm text-slate-600 mt-1">
+                Lets the AI coach and message tone checks tailor their guidance to your attachment style
+                {profile?.attachment_style ? ` (${profile.attachment_style})` : ''} and your partner's. Turning this
+                off also stops your style being used in your partner's guidance.
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              checked={profile?.attachment_personalization ?? true}
+              onChange={togglePersonalization}
+              disabled={savingPersonalization}
+              className="mt-1 w-5 h-5 accent-purple-500"
+            />
+          </label>
+          <button
+            onClick={() => navigate('/attachment-style')}
+            className="text-sm font-medium text-purple-600 hover:text-purple-700 mt-3"
+          >
+            {profile?.attachment_style ? 'Retake the attachment questionnaire' : 'Take the attachment questionnaire'}
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <h3 className="text-lg font-bold text-slate-900 mb-4 flex items-center space-x-2">
+            <EyeOff className="w-6 h-6 text-slate-500" />
+            <span>Discreet Mode</span>
+          </h3>
+          <label className="flex items-start justify-between space-x-4 cursor-pointer">
+            <div>
+              <p className="font-medium text-slate-900">Turn on discreet mode</p>
+              <p className="text-sm text-slate-600 mt-1">
+                For when it isn't safe for someone to see what you're doing here. Adds an Exit button (or press Escape
+                twice) that leaves for a neutral page, keeps safety check-ins private to you, and makes crisis
+                notifications read simply "Reminder". Your partner is not told this is on.
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              checked={discreet.enabled}
+              onChange={() => updateDiscreet({ enabled: !discreet.enabled })}
+              disabled={savingDiscreet}
+              className="mt-1 w-5 h-5 accent-slate-600"
+            />
+          </label>
+          {discreet.enabled && (
+            <label className="flex items-start justify-between space-x-4 cursor-pointer mt-4 pt-4 border-t border-slate-200">
+              <div>
+                <p className="font-medium text-slate-900">Disguise the app</p>
+                <p className="text-sm text-slate-600 mt-1">
+                  Shows the app as "Daily Notes" with a plain icon in your browser tab and when you add it to your home
+                  screen. If it's already on your home screen, remove it and add it again to change the name there.
+                </p>
+              </div>
+              <input
+                type="checkbox"
+                checked={discreet.disguise_app}
+                onChange={() => updateDiscreet({ disguise_app: !discreet.disguise_app })}
+                disabled={savingDiscreet}
+                className="mt-1 w-5 h-5 accent-slate-600"
+              />
+            </label>
+          )}
+        </div>
+
+        {usage.length > 0 && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <h3 className="text-lg font-bold text-slate-900 mb-4 flex items-center space-x-2">
+              <Gauge className="w-6 h-6 text-blue-500" />
+              <span>This Month's Usage</span>
+            </h3>
+            <div className="space-y-4">
+              {usage.map((item) => {
+                const percent = item.limit ? Math.min(100, Math.round((item.used / item.limit) * 100)) : 0;
+                return (
+                  <div key={item.metric}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium text-slate-700">{USAGE_LABELS[item.metric]}</span>
+                      <span className="text-slate-600">
+                        {item.limit ? `${item.used} / ${item.limit}` : `${item.used} used • Unlimited`}
+                      </span>
+                    </div>
+                    {item.limit !== null && (
+                      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full rounded-full ${
+                            percent >= 100 ? 'bg-rose-500' : percent >= 80 ? 'bg-amber-500' : 'bg-blue-500'
+                          }`}
+                          style={{ width: `${percent}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-slate-500 mt-4">
+              Resets on {new Date(usage[0].resets_at).toLocaleDateString()}.
+              {usage.some((item) => item.limit !== null && item.used >= item.limit) &&
+                ' Message tone checks keep working offline with basic analysis until then.'}
+            </p>
+          </div>
+        )}
+
         <div className="bg-white rounded-xl border border-slate-200 p-6">
           <h3 className="text-lg font-bold text-slate-900 mb-4 flex items-center space-x-2">
             <Award className="w-6 h-6 text-amber-500" />
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowLeft, Heart, Sparkles, Calendar, Award, Loader2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { ritualsService, Ritual, RitualStreak } from '../lib/rituals';
@@ -8,6 +8,7 @@ import { messagingService } from '../lib/messaging';
 export default function Rituals() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [rituals, setRituals] = useState<Ritual[]>([]);
   const [streaks, setStreaks] = useState<RitualStreak[]>([]);
@@ -38,6 +39,12 @@ export default function Rituals() {
         ]);
         setRituals(ritualsData);
         setStreaks(streaksData);
+
+        // Deep link from the AI coach
+        const linkedRitual = ritualsData.find((r) => r.id === searchParams.get('ritual'));
+        if (linkedRitual) {
+          setSelectedRitual(linkedRitual);
+        }
       }
     } catch (error) {
       console.error('Error initializing rituals:', error);
@@ -0,0 +1,394 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Edit3, Loader2, Lock, Phone, Plus, Save, Trash2, WifiOff } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { discreetService } from '../lib/discreet';
+import {
+  safetyPlanService,
+  SafetyPlan as SafetyPlanData,
+  SafetyContact,
+  ProfessionalContact,
+  emptySafetyPlan,
+  isSafetyPlanEmpty,
+} from '../lib/safetyPlan';
+
+type ListField = 'warning_signs' | 'coping_strategies' | 'safe_places' | 'environment_steps';
+
+const SECTIONS: Record<ListField, { title: string; prompt: string; placeholder: string }> = {
+  warning_signs: {
+    title: 'Warning signs',
+    prompt: 'Thoughts, moods or situations that tell me a crisis may be building.',
+    placeholder: 'e.g. Not sleeping, replaying the same argument',
+  },
+  coping_strategies: {
+    title: 'Things I can do on my own',
+    prompt: 'Ways to take my mind off things or calm my body without contacting anyone.',
+    placeholder: 'e.g. Box breathing, a walk around the block',
+  },
+  safe_places: {
+    title: 'Safe places',
+    prompt: 'Places I can go that feel safe or help me settle.',
+    placeholder: "e.g. The library, my sister's flat",
+  },
+  environment_steps: {
+    title: 'Making my environment safe',
+    prompt: 'Steps to put distance between me and anything I could use to hurt myself, or to get somewhere safe.',
+    placeholder: 'e.g. Give my medication to a friend to hold',
+  },
+};
+
+export default function SafetyPlan() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [plan, setPlan] = useState<SafetyPlanData | null>(null);
+  const [draft, setDraft] = useState<SafetyPlanData | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pendingSync, setPendingSync] = useState(false);
+  const [online, setOnline] = useState(navigator.onLine);
+  const discreet = discreetService.getDeviceSettings().enabled;
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    loadPlan();
+  }, [user]);
+
+  useEffect(() => {
+    const handleOnline = async () => {
+      setOnline(true);
+      if (!user) return;
+      const synced = await safetyPlanService.syncPendingPlan(user.id);
+      if (synced) setPendingSync(false);
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [user]);
+
+  const loadPlan = async () => {
+    if (!user) return;
+
+    // Show the device copy straight away; it's all there is offline
+    const cached = safetyPlanService.getCachedPlan(user.id);
+    if (cached) {
+      setPlan(cached.plan);
+      setPendingSync(cached.pendingSync);
+      setLoading(false);
+    }
+
+    const fetched = await safetyPlanService.getPlan(user.id);
+    const current = fetched ?? emptySafetyPlan(user.id);
+    setPlan(current);
+    setPendingSync(safetyPlanService.getCachedPlan(user.id)?.pendingSync ?? false);
+    if (isSafetyPlanEmpty(current)) {
+      setDraft(current);
+    }
+    setLoading(false);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setSaving(true);
+    const cleaned: SafetyPlanData = {
+      ...draft,
+      warning_signs: draft.warning_signs.map((s) => s.trim()).filter(Boolean),
+      coping_strategies: draft.coping_strategies.map((s) => s.trim()).filter(Boolean),
+      safe_places: draft.safe_places.map((s) => s.trim()).filter(Boolean),
+      environment_steps: draft.environment_steps.map((s) => s.trim()).filter(Boolean),
+      safe_people: draft.safe_people.filter((c) => c.name.trim() || c.phone.trim()),
+      professional_contacts: draft.professional_contacts.filter((c) => c.name.trim() || c.phone.trim()),
+    };
+    const { plan: saved, synced } = await safetyPlanService.savePlan(cleaned);
+    setPlan(saved);
+    setPendingSync(!synced);
+    setDraft(null);
+    setSaving(false);
+  };
+
+  const updateList = (field: ListField, items: string[]) => {
+    setDraft((prev) => (prev ? { ...prev, [field]: items } : prev));
+  };
+
+  if (loading || !plan) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  const editing = draft !== null;
+  const shown = draft ?? plan;
+
+  const renderList = (field: ListField) => (
+    <ListSection
+      {...SECTIONS[field]}
+      items={shown[field]}
+      editing={editing}
+      onChange={(items) => updateList(field, items)}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <nav className="border-b border-slate-200 bg-white/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <button
+              onClick={() => (editing && !isSafetyPlanEmpty(plan) ? setDraft(null) : navigate('/crisis'))}
+              className="flex items-center space-x-2 text-slate-600 hover:text-slate-900"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>{editing && !isSafetyPlanEmpty(plan) ? 'Cancel' : 'Back'}</span>
+            </button>
+            <h1 className="text-lg font-semibold text-slate-900">My Safety Plan</h1>
+            {editing ? (
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Save</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => setDraft(plan)}
+                className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <Edit3 className="w-4 h-4" />
+                <span>Edit</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-start space-x-2 text-sm text-slate-600">
+          <Lock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>
+            Only you can see this plan - it is never shared with your partner.{' '}
+            {discreet
+              ? 'Discreet mode is on, so no copy is kept on this device.'
+              : 'A copy is kept on this device so it opens even without a connection.'}
+          </p>
+        </div>
+
+        {(!online || pendingSync) && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-900 flex items-center space-x-2">
+            <WifiOff className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {pendingSync
+                ? discreet
+                  ? 'Your latest changes will sync when you are back online. Keep this page open until then.'
+                  : 'Your latest changes are saved on this device and will sync when you are back online.'
+                : discreet
+                  ? "You're offline. Showing the copy from this visit."
+                  : "You're offline. Showing the copy saved on this device."}
+            </span>
+          </div>
+        )}
+
+        {editing && isSafetyPlanEmpty(plan) && (
+          <p className="text-sm text-slate-600">
+            Fill this in while you feel calm, so it's ready when things get hard. Add as much or as little as helps -
+            you can change it at any time.
+          </p>
+        )}
+
+        {renderList('warning_signs')}
+        {renderList('coping_strategies')}
+
+        <ContactSection
+          title="People I can reach out to"
+          prompt="Friends or family I can contact for support or distraction."
+          contacts={shown.safe_people}
+          editing={editing}
+          onChange={(contacts) => setDraft((prev) => (prev ? { ...prev, safe_people: contacts } : prev))}
+        />
+
+        {renderList('safe_places')}
+
+        <ContactSection
+          title="Professionals I can contact"
+          prompt="Therapist, doctor, or services I can call when I need more help."
+          contacts={shown.professional_contacts}
+          withRole
+          editing={editing}
+          onChange={(contacts) =>
+            setDraft((prev) => (prev ? { ...prev, professional_contacts: contacts as ProfessionalContact[] } : prev))
+          }
+        />
+
+        {renderList('environment_steps')}
+
+        <div className="bg-rose-50 border border-rose-200 rounded-xl p-6">
+          <h3 className="font-semibold text-rose-900 mb-2">If I am in immediate danger</h3>
+          <p className="text-sm text-rose-900 mb-4">
+            Call your local emergency number, or reach a crisis line from the Crisis Support page.
+          </p>
+          <button
+            onClick={() => navigate('/crisis')}
+            className="bg-rose-600 hover:bg-rose-700 text-white font-medium px-4 py-2 rounded-lg"
+          >
+            Crisis hotlines
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+interface ListSectionProps {
+  title: string;
+  prompt: string;
+  placeholder: string;
+  items: string[];
+  editing: boolean;
+  onChange: (items: string[]) => void;
+}
+
+function ListSection({ title, prompt, placeholder, items, editing, onChange }: ListSectionProps) {
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6">
+      <h3 className="text-lg font-semibold text-slate-900">{title}</h3>
+      <p className="text-sm text-slate-500 mb-4">{prompt}</p>
+      {editing ? (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={item}
+                placeholder={placeholder}
+                onChange={(e) => onChange(items.map((value, i) => (i === index ? e.target.value : value)))}
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+                aria-label="Remove"
+                className="p-2 text-slate-400 hover:text-rose-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange([...items, ''])}
+            className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add</span>
+          </button>
+        </div>
+      ) : items.length > 0 ? (
+        <ul className="list-disc list-inside space-y-1 text-slate-700">
+          {items.map((item, index) => (
+            <li key={index}>{item}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-400">Nothing added yet.</p>
+      )}
+    </div>
+  );
+}
+
+interface ContactSectionProps {
+  title: string;
+  prompt: string;
+  contacts: (SafetyContact | ProfessionalContact)[];
+  withRole?: boolean;
+  editing: boolean;
+  onChange: (contacts: (SafetyContact | ProfessionalContact)[]) => void;
+}
+
+function ContactSection({ title, prompt, contacts, withRole = false, editing, onChange }: ContactSectionProps) {
+  const update = (index: number, changes: Partial<ProfessionalContact>) => {
+    onChange(contacts.map((contact, i) => (i === index ? { ...contact, ...changes } : contact)));
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6">
+      <h3 className="text-lg font-semibold text-slate-900">{title}</h3>
+      <p className="text-sm text-slate-500 mb-4">{prompt}</p>
+      {editing ? (
+        <div className="space-y-3">
+          {contacts.map((contact, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={contact.name}
+                placeholder="Name"
+                onChange={(e) => update(index, { name: e.target.value })}
+                className="flex-1 min-w-[8rem] px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {withRole && (
+                <input
+                  type="text"
+                  value={'role' in contact ? contact.role : ''}
+                  placeholder="Role (e.g. Therapist)"
+                  onChange={(e) => update(index, { role: e.target.value })}
+                  className="flex-1 min-w-[8rem] px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+              <input
+                type="tel"
+                value={contact.phone}
+                placeholder="Phone"
+                onChange={(e) => update(index, { phone: e.target.value })}
+                className="flex-1 min-w-[8rem] px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => onChange(contacts.filter((_, i) => i !== index))}
+                aria-label="Remove"
+                className="p-2 text-slate-400 hover:text-rose-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange([...contacts, withRole ? { name: '', role: '', phone: '' } : { name: '', phone: '' }])}
+            className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add contact</span>
+          </button>
+        </div>
+      ) : contacts.length > 0 ? (
+        <div className="space-y-2">
+          {contacts.map((contact, index) => (
+            <div key={index} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+              <div>
+                <div className="font-medium text-slate-900">{contact.name}</div>
+                {'role' in contact && contact.role && <div className="text-xs text-slate-500">{contact.role}</div>}
+              </div>
+              {contact.phone && (
+                <a
+                  href={`tel:${contact.phone.replace(/[^\d+]/g, '')}`}
+                  className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 font-medium text-sm"
+                >
+                  <Phone className="w-4 h-4" />
+                  <span>{contact.phone}</span>
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">Nothing added yet.</p>
+      )}
+    </div>
+  );
+}
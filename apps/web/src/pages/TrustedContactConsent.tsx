@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Heart, CheckCircle2, Loader2 } from 'lucide-react';
+import { trustedContactsService, TrustedContactRequest } from '../lib/trustedContacts';
+
+// Opened by the contact from the link they were sent; they don't need an
+// account
+export default function TrustedContactConsent() {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+  const [request, setRequest] = useState<TrustedContactRequest | null>(null);
+  const [answer, setAnswer] = useState<'accepted' | 'declined' | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRequest();
+  }, [code]);
+
+  const loadRequest = async () => {
+    if (!code) return;
+
+    const data = await trustedContactsService.getContactRequest(code);
+    if (!data.valid) {
+      setError('This link is invalid, has expired or has already been used');
+    } else {
+      setRequest(data);
+    }
+    setLoading(false);
+  };
+
+  const handleRespond = async (accept: boolean) => {
+    if (!code) return;
+
+    setResponding(true);
+    const success = await trustedContactsService.respondToContactRequest(code, accept);
+    setResponding(false);
+
+    if (!success) {
+      setError('Something went wrong. Please try the link again.');
+      return;
+    }
+
+    setAnswer(accept ? 'accepted' : 'declined');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center items-center space-x-2 mb-6">
+          <Heart className="w-10 h-10 text-rose-500" />
+          <span className="text-3xl font-bold text-slate-900">PairCalm</span>
+        </div>
+
+        <div className="bg-white py-8 px-6 shadow-lg rounded-2xl sm:px-10 border border-slate-200">
+          {error ? (
+            <>
+              <h2 className="text-2xl font-bold text-slate-900 mb-4 text-center">Link Not Valid</h2>
+              <p className="text-slate-600 mb-6 text-center">{error}</p>
+              <button
+                onClick={() => navigate('/')}
+                className="w-full py-3 px-4 bg-rose-500 hover:bg-rose-600 text-white font-medium rounded-lg transition-colors"
+              >
+                Go to Home
+              </button>
+            </>
+          ) : answer ? (
+            <div className="text-center">
+              <CheckCircle2 className="w-12 h-12 text-emerald-500 mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-slate-900 mb-2">Thank you</h2>
+              <p className="text-slate-600">
+                {answer === 'accepted'
+                  ? `You're now one of ${request?.requester_name}'s trusted contacts. If they ever need support, we'll send you a short message asking you to reach out.`
+                  : "You won't be contacted. You can close this page."}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="text-center mb-6">
+                <h2 className="text-2xl font-bold text-slate-900 mb-2">Be a trusted contact?</h2>
+                <p className="text-slate-600">
+                  <strong>{request?.requester_name}</strong> would like you as a trusted contact.
+                </p>
+              </div>
+
+              <div className="bg-blue-50 rounded-lg p-4 mb-6 text-sm text-blue-900 space-y-2">
+                <p>
+                  If they ask for help, or don't answer a wellbeing check-in, we'll send you a short{' '}
+                  {request?.channel === 'email' ? 'email' : 'text message'} asking you to reach out to them.
+                </p>
+                <p>We won't share anything else about them, and you can ask them to remove you at any time.</p>
+              </div>
+
+              <div className="space-y-3">
+                <button
+                  onClick={() => handleRespond(true)}
+                  disabled={responding}
+                  className="w-full py-3 px-4 bg-rose-500 hover:bg-rose-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+                >
+                  {responding ? <Loader2 className="w-5 h-5 animate-spin" /> : <CheckCircle2 className="w-5 h-5" />}
+                  <span>I agree</span>
+                </button>
+                <button
+                  onClick={() => handleRespond(false)}
+                  disabled={responding}
+                  className="w-full py-3 px-4 bg-slate-200 hover:bg-slate-300 text-slate-900 font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  No thanks
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
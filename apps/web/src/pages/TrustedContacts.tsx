@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, Lock, Mail, MessageSquare, Plus, Send, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  trustedContactsService,
+  TrustedContact,
+  NewTrustedContact,
+  ContactRelationship,
+  SafetyCheckEscalation,
+  EscalationAuditEvent,
+  EscalationAuditEventType,
+} from '../lib/trustedContacts';
+
+const RELATIONSHIPS: Record<ContactRelationship, string> = {
+  friend: 'Friend',
+  family: 'Family member',
+  therapist: 'Therapist',
+  other: 'Other',
+};
+
+const CONSENT_LABELS: Record<TrustedContact['consent_status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting for them to agree', className: 'bg-amber-100 text-amber-800' },
+  confirmed: { label: 'Agreed', className: 'bg-emerald-100 text-emerald-800' },
+  declined: { label: 'Declined', className: 'bg-slate-200 text-slate-700' },
+};
+
+const ESCALATION_LABELS: Record<SafetyCheckEscalation['status'], string> = {
+  in_progress: 'Sending...',
+  notified: 'All contacts messaged',
+  partially_notified: 'Some contacts could not be reached',
+  failed: 'No contacts could be reached',
+  no_contacts: 'No confirmed contacts to message',
+};
+
+const AUDIT_LABELS: Record<EscalationAuditEventType, string> = {
+  contact_added: 'Contact added',
+  contact_removed: 'Contact removed',
+  consent_requested: 'Consent request sent',
+  consent_confirmed: 'Contact agreed',
+  consent_declined: 'Contact declined',
+  escalation_started: 'Escalation started',
+  contact_notified: 'Contact messaged',
+  delivery_failed: 'Message failed to send',
+  no_contacts: 'No confirmed contacts',
+  escalation_completed: 'Escalation finished',
+};
+
+const EMPTY_CONTACT: NewTrustedContact = { name: '', relationship: 'friend', channel: 'sms', destination: '' };
+
+export default function TrustedContacts() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [contacts, setContacts] = useState<TrustedContact[]>([]);
+  const [escalations, setEscalations] = useState<SafetyCheckEscalation[]>([]);
+  const [auditLog, setAuditLog] = useState<EscalationAuditEvent[]>([]);
+  const [draft, setDraft] = useState<NewTrustedContact>(EMPTY_CONTACT);
+  const [adding, setAdding] = useState(false);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    loadData();
+  }, [user]);
+
+  const loadData = async () => {
+    if (!user) return;
+
+    const [contactsData, escalationsData, auditData] = await Promise.all([
+      trustedContactsService.getContacts(user.id),
+      trustedContactsService.getEscalations(user.id),
+      trustedContactsService.getAuditLog(user.id),
+    ]);
+    setContacts(contactsData);
+    setEscalations(escalationsData);
+    setAuditLog(auditData);
+    setLoading(false);
+  };
+
+  const handleAdd = async () => {
+    if (!user || !draft.name.trim() || !draft.destination.trim()) return;
+
+    setAdding(true);
+    const contact = await trustedContactsService.addContact(user.id, {
+      ...draft,
+      name: draft.name.trim(),
+      destination: draft.destination.trim(),
+    });
+    setAdding(false);
+
+    if (contact) {
+      setDraft(EMPTY_CONTACT);
+      await loadData();
+    }
+  };
+
+  const handleResend = async (contactId: string) => {
+    setResendingId(contactId);
+    await trustedContactsService.requestConsent(contactId);
+    setResendingId(null);
+    await loadData();
+  };
+
+  const handleRemove = async (contactId: string) => {
+    if (!confirm('Remove this trusted contact? They will no longer be messaged.')) return;
+
+    const success = await trustedContactsService.removeContact(contactId);
+    if (success) {
+      await loadData();
+    }
+  };
+
+  const contactName = (contactId?: string) => contacts.find((c) => c.id === contactId)?.name;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      <nav className="border-b border-slate-200 bg-white/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <button
+              onClick={() => navigate('/crisis')}
+              className="flex items-center space-x-2 text-slate-600 hover:text-slate-900"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back</span>
+            </button>
+            <h1 className="text-lg font-semibold text-slate-900">Trusted Contacts</h1>
+            <div className="w-20"></div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-start space-x-2 text-sm text-slate-600">
+          <Lock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>
+            Your partner can't see your trusted contacts. If you tell us you don't feel safe, or don't answer a
+            check-in that needs a reply within 24 hours, we'll send them a short message asking them to reach out to
+            you. We never share what the check-in was about.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">My contacts</h3>
+          {contacts.length > 0 ? (
+            <div className="space-y-3">
+              {contacts.map((contact) => (
+                <div
+                  key={contact.id}
+                  className="bg-slate-50 rounded-lg p-4 border border-slate-200 flex items-start justify-between"
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-semibold text-slate-900">{contact.name}</h4>
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded-full ${CONSENT_LABELS[contact.consent_status].className}`}
+                      >
+                        {CONSENT_LABELS[contact.consent_status].label}
+                      </span>
+                    </div>
+                    <p className="text-sm text-slate-600 flex items-center space-x-1 mt-1">
+                      {contact.channel === 'sms' ? (
+                        <MessageSquare className="w-3 h-3" />
+                      ) : (
+                        <Mail className="w-3 h-3" />
+                      )}
+                      <span>
+                        {RELATIONSHIPS[contact.relationship]} · {contact.destination}
+                      </span>
+                    </p>
+                    {contact.consent_status === 'pending' && contact.consent_requested_at && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        Request sent {new Date(contact.consent_requested_at).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    {contact.consent_status === 'pending' && (
+                      <button
+                        onClick={() => handleResend(contact.id)}
+                        disabled={resendingId === contact.id}
+                        aria-label="Send the request again"
+                        className="p-2 text-slate-400 hover:text-blue-600 disabled:opacity-50"
+                      >
+                        {resendingId === contact.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Send className="w-4 h-4" />
+                        )}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemove(contact.id)}
+                      aria-label="Remove"
+                      className="p-2 text-slate-400 hover:text-rose-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400">No trusted contacts yet.</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 p-6">
+          <h3 className="text-lg font-semibold text-slate-900">Add a contact</h3>
+          <p className="text-sm text-slate-500 mb-4">
+            We'll send them a message asking if they agree. They won't hear from us again unless they say yes.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={draft.name}
+              placeholder="Name"
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={draft.relationship}
+              onChange={(e) => setDraft({ ...draft, relationship: e.target.value as ContactRelationship })}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(RELATIONSHIPS) as ContactRelationship[]).map((relationship) => (
+                <option key={relationship} value={relationship}>
+                  {RELATIONSHIPS[relationship]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={draft.channel}
+              onChange={(e) => setDraft({ ...draft, channel: e.target.value as NewTrustedContact['channel'] })}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="sms">Text message</option>
+              <option value="email">Email</option>
+            </select>
+            <input
+              type={draft.channel === 'sms' ? 'tel' : 'email'}
+              value={draft.destination}
+              placeholder={draft.channel === 'sms' ? 'Phone number, e.g. +15555550123' : 'Email address'}
+              onChange={(e) => setDraft({ ...draft, destination: e.target.value })}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={adding || !draft.name.trim() || !draft.destination.trim()}
+            className="mt-4 flex items-center space-x-2 bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            <span>Add and send request</span>
+          </button>
+        </div>
+
+        {escalations.length > 0 && (
+          <div className="bg-white rounded-xl border border-slate-200 p-6">
+            <h3 className="text-lg font-semibold text-slate-900 mb-4">Escalations</h3>
+            <div className="space-y-2">
+              {escalations.map((escalation) => (
+                <div key={escalation.id} className="flex items-center justify-between text-sm">
+                  <span className="text-slate-700">
+                    {escalation.reason === 'requested' ? 'You asked for help' : 'A check-in went unanswered'}
+                    <span className="text-slate-400"> · {new Date(escalation.created_at).toLocaleString()}</span>
+                  </span>
+                  <span className="text-slate-600">{ESCALATION_LABELS[escalation.status]}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {auditLog.length > 0 && (
+          <details className="bg-white rounded-xl border border-slate-200 p-6">
+            <summary className="text-lg font-semibold text-slate-900 cursor-pointer">Activity log</summary>
+            <ul className="mt-4 space-y-2 text-sm">
+              {auditLog.map((entry) => {
+                // Removed contacts are only named in the entry itself
+                const who = contactName(entry.contact_id) ?? (entry.detail.name as string | undefined);
+                return (
+                  <li key={entry.id} className="flex items-center justify-between">
+                    <span className="text-slate-700">
+                      {AUDIT_LABELS[entry.event]}
+                      {who && <span className="text-slate-500"> · {who}</span>}
+                    </span>
+                    <span className="text-slate-400">{new Date(entry.created_at).toLocaleString()}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </details>
+        )}
+      </main>
+    </div>
+  );
+}
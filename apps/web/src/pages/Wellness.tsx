@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowLeft, Play, Heart, Clock, Star, Lock, Loader2, Search, Filter } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { wellnessService, WellnessCategory, WellnessContent } from '../lib/wellness';
@@ -8,6 +8,7 @@ import { subscriptionService } from '../lib/subscription';
 export default function Wellness() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [categories, setCategories] = useState<WellnessCategory[]>([]);
   const [content, setContent] = useState<WellnessContent[]>([]);
@@ -43,6 +44,20 @@ export default function Wellness() {
     setCategories(categoriesData);
     setSubscription(sub);
     setLoading(false);
+
+    // Deep link from the AI coach; goes through the same tier check as Play
+    const linkedContentId = searchParams.get('content');
+    if (linkedContentId) {
+      const linkedContent = await wellnessService.getContentById(linkedContentId);
+      if (linkedContent) {
+        if (linkedContent.required_tier !== 'free' && !sub) {
+          navigate('/profile');
+          return;
+        }
+        setSelectedContent(linkedContent);
+        await wellnessService.trackView(user.id, linkedContent.id);
+      }
+    }
   };
 
   const loadContent = async () => {
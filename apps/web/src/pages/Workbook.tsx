@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowLeft, BookOpen, Loader2, Play, CheckCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { workbookService, WorkbookExercise, ExerciseCompletion } from '../lib/analytics';
@@ -8,6 +8,7 @@ import { messagingService } from '../lib/messaging';
 export default function Workbook() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [exercises, setExercises] = useState<WorkbookExercise[]>([]);
   const [completions, setCompletions] = useState<ExerciseCompletion[]>([]);
@@ -36,6 +37,12 @@ export default function Workbook() {
         ]);
         setExercises(exercisesData);
         setCompletions(completionsData);
+
+        // Deep link from the AI coach
+        const linkedExercise = exercisesData.find((e) => e.id === searchParams.get('exercise'));
+        if (linkedExercise) {
+          setSelectedExercise(linkedExercise);
+        }
       }
     } catch (error) {
       console.error('Error initializing workbook:', error);
@@ -0,0 +1,170 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import {
+  compareCrisisScores,
+  CRISIS_FACTORS,
+  describeDrivers,
+  factorPoints,
+  MAX_CRISIS_SCORE,
+  scoreCrisisFactors,
+  SEVERITY_THRESHOLDS,
+  severityForScore,
+  weekOverWeek,
+} from '../../../supabase/functions/_shared/crisisScore.ts';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../../../supabase/migrations', import.meta.url));
+
+// Body of the newest migration that (re)defines calculate_crisis_score
+function loadCrisisScoreRpc(): string {
+  const definitions = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith('.sql'))
+    .sort()
+    .map((file) => readFileSync(join(MIGRATIONS_DIR, file), 'utf8'))
+    .map((sql) => sql.match(/FUNCTION calculate_crisis_score[\s\S]*?LANGUAGE plpgsql/)?.[0])
+    .filter((body): body is string => !!body);
+
+  return definitions[definitions.length - 1];
+}
+
+const factor = (name: string) => CRISIS_FACTORS.find((definition) => definition.factor === name)!;
+
+describe('parity with calculate_crisis_score', () => {
+  const rpc = loadCrisisScoreRpc();
+
+  it('finds the RPC', () => {
+    expect(rpc).toBeDefined();
+  });
+
+  it('uses the same weights, in the same order', () => {
+    const weights = [...rpc.matchAll(/v_score := v_score \+ (?:LEAST\()?\(v_(\w+)(?: \/ 24\))? \* (\d+)/g)].map(
+      ([, name, weight]) => ({ factor: name, weight: Number(weight) })
+    );
+
+    expect(weights).toEqual(CRISIS_FACTORS.map(({ factor: name, weight }) => ({ factor: name, weight })));
+  });
+
+  it('scores disengagement per full day and caps it the same way', () => {
+    const [, weight, cap] = rpc.match(/LEAST\(\(v_disengagement_hours \/ 24\) \* (\d+), (\d+)\)/) || [];
+
+    expect(Number(weight)).toBe(factor('disengagement_hours').weight);
+    expect(Number(cap)).toBe(factor('disengagement_hours').maxPoints);
+  });
+
+  it('caps the total at the same maximum', () => {
+    const [, cap] = rpc.match(/v_score := LEAST\(v_score, (\d+)\)/) || [];
+
+    expect(Number(cap)).toBe(MAX_CRISIS_SCORE);
+  });
+
+  it('uses the same severity thresholds', () => {
+    const thresholds = [...rpc.matchAll(/WHEN v_score >= (\d+) THEN '(\w+)'/g)].map(([, min, severity]) => ({
+      severity,
+      min: Number(min),
+    }));
+
+    expect([...thresholds, { severity: 'low', min: 0 }]).toEqual(SEVERITY_THRESHOLDS);
+  });
+});
+
+describe('factorPoints', () => {
+  it.each([
+    [0, 0],
+    [23, 0],
+    [24, 15],
+    [47, 15],
+    [48, 30],
+    [200, 30],
+  ])('gives %d hours without a check-in %d points', (hours, points) => {
+    expect(factorPoints(factor('disengagement_hours'), hours)).toBe(points);
+  });
+
+  it('never gives negative points', () => {
+    expect(factorPoints(factor('red_zone_days'), -2)).toBe(0);
+  });
+});
+
+describe('severityForScore', () => {
+  it.each([
+    [0, 'low'],
+    [24, 'low'],
+    [25, 'moderate'],
+    [49, 'moderate'],
+    [50, 'high'],
+    [74, 'high'],
+    [75, 'critical'],
+    [100, 'critical'],
+  ])('rates %d as %s', (score, severity) => {
+    expect(severityForScore(score)).toBe(severity);
+  });
+});
+
+describe('scoreCrisisFactors', () => {
+  it('adds up each factor like the RPC', () => {
+    const breakdown = scoreCrisisFactors({
+      red_zone_days: 3,
+      high_risk_messages: 2,
+      gottman_violations: 1,
+      disengagement_hours: 30,
+      conflict_frequency: 2,
+    });
+
+    expect(breakdown.contributions.map((c) => c.points)).toEqual([30, 10, 3, 15, 8]);
+    expect(breakdown.score).toBe(66);
+    expect(breakdown.severity).toBe('high');
+  });
+
+  it('caps the score but keeps the uncapped total', () => {
+    const breakdown = scoreCrisisFactors({ red_zone_days: 7, high_risk_messages: 10 });
+
+    expect(breakdown.uncappedScore).toBe(120);
+    expect(breakdown.score).toBe(100);
+    expect(breakdown.severity).toBe('critical');
+  });
+
+  it('counts missing values as zero', () => {
+    const breakdown = scoreCrisisFactors({ red_zone_days: 1 });
+
+    expect(breakdown.score).toBe(10);
+    expect(breakdown.contributions.find((c) => c.factor === 'disengagement_hours')?.value).toBe(0);
+  });
+});
+
+describe('trajectory', () => {
+  it('lists what changed, biggest change first', () => {
+    const trajectory = compareCrisisScores(
+      { red_zone_days: 3, conflict_frequency: 1, disengagement_hours: 50 },
+      { red_zone_days: 1, conflict_frequency: 2, disengagement_hours: 50 }
+    );
+
+    expect(trajectory.scoreDelta).toBe(16);
+    expect(describeDrivers(trajectory)).toEqual([
+      'Red zone days went from 1 to 3 (+20 points)',
+      'Conflicts went from 2 to 1 (-4 points)',
+    ]);
+  });
+
+  it('compares with the newest score from at least a week earlier', () => {
+    const history = [
+      { calculated_at: '2025-10-15T08:00:00Z', red_zone_days: 4 },
+      { calculated_at: '2025-10-10T08:00:00Z', red_zone_days: 3 },
+      { calculated_at: '2025-10-08T08:00:00Z', red_zone_days: 1 },
+      { calculated_at: '2025-10-01T08:00:00Z', red_zone_days: 0 },
+    ];
+
+    const result = weekOverWeek(history);
+
+    expect(result?.previous.calculated_at).toBe('2025-10-08T08:00:00Z');
+    expect(result?.trajectory.scoreDelta).toBe(30);
+  });
+
+  it('needs a week of history', () => {
+    expect(
+      weekOverWeek([
+        { calculated_at: '2025-10-15T08:00:00Z', red_zone_days: 4 },
+        { calculated_at: '2025-10-12T08:00:00Z', red_zone_days: 1 },
+      ])
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HOTLINE_TYPES,
+  parseCsv,
+  parseHotlineJson,
+  validateHotlines,
+} from '../../../supabase/functions/_shared/hotlineDirectory.ts';
+
+const TODAY = '2025-10-15';
+
+const hotline = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  country: 'GB',
+  name: 'Samaritans',
+  type: 'suicide_prevention',
+  phone: '116 123',
+  website: 'https://www.samaritans.org',
+  description: 'Listening support, any time',
+  available_24_7: 'true',
+  languages: 'en',
+  verified_on: '2025-10-01',
+  ...overrides,
+});
+
+const fieldsWithErrors = (rows: Record<string, unknown>[]) =>
+  validateHotlines(rows, TODAY).errors.map((error) => error.field);
+
+describe('validateHotlines', () => {
+  it('accepts a complete entry', () => {
+    const { records, errors } = validateHotlines([hotline()], TODAY);
+
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      expect.objectContaining({
+        country: 'GB',
+        name: 'Samaritans',
+        phone: '116 123',
+        sms_number: null,
+        available_24_7: true,
+        languages: ['en'],
+        is_active: true,
+      }),
+    ]);
+  });
+
+  it.each(['988', '116 123', '+44 808 808 4994', '1-800-799-7233', '13 11 14'])(
+    'accepts the phone number %s',
+    (phone) => {
+      expect(fieldsWithErrors([hotline({ phone })])).toEqual([]);
+    }
+  );
+
+  it.each(['call 988', '+', '08OO 1111', '+44 808 808 4994 ext', '#988'])('rejects the phone number %s', (phone) => {
+    expect(fieldsWithErrors([hotline({ phone })])).toEqual(['phone']);
+  });
+
+  it('rejects a malformed sms number', () => {
+    expect(fieldsWithErrors([hotline({ sms_number: 'text HOME', sms_keyword: 'HOME' })])).toEqual(['sms_number']);
+  });
+
+  it.each(['USA', 'U', '1A', ''])('rejects the malformed country code "%s"', (country) => {
+    expect(fieldsWithErrors([hotline({ country })])).toEqual(['country']);
+  });
+
+  it.each(['XX', 'AA', 'ZZ', 'EU', 'UN'])('rejects the unknown country %s', (country) => {
+    const { records, errors } = validateHotlines([hotline({ country })], TODAY);
+
+    expect(records).toEqual([]);
+    expect(errors).toEqual([{ row: 1, field: 'country', message: `Unknown country code ${country}` }]);
+  });
+
+  it('accepts lower-case country codes', () => {
+    expect(validateHotlines([hotline({ country: 'gb' })], TODAY).records[0].country).toBe('GB');
+  });
+
+  it.each(HOTLINE_TYPES)('accepts the category %s', (type) => {
+    expect(fieldsWithErrors([hotline({ type })])).toEqual([]);
+  });
+
+  it.each(['crisis', 'mental-health', 'other', ''])('rejects the unknown category "%s"', (type) => {
+    expect(fieldsWithErrors([hotline({ type })])).toEqual(['type']);
+  });
+
+  it('rejects a second entry with the same country and name', () => {
+    const { records, errors } = validateHotlines(
+      [hotline(), hotline({ name: 'samaritans', phone: '08457 90 90 90' })],
+      TODAY
+    );
+
+    expect(records).toHaveLength(1);
+    expect(errors).toEqual([{ row: 2, field: 'name', message: 'Duplicate of row 1 for GB' }]);
+  });
+
+  it('allows the same name in different countries', () => {
+    const { records, errors } = validateHotlines([hotline(), hotline({ country: 'IE' })], TODAY);
+
+    expect(errors).toEqual([]);
+    expect(records).toHaveLength(2);
+  });
+
+  it('needs a way to reach the hotline', () => {
+    expect(fieldsWithErrors([hotline({ phone: '' })])).toEqual(['phone']);
+  });
+
+  it('rejects a verification date in the future', () => {
+    expect(fieldsWithErrors([hotline({ verified_on: '2025-10-16' })])).toEqual(['verified_on']);
+  });
+
+  it('reports errors by row and leaves out only the invalid rows', () => {
+    const { records, errors } = validateHotlines(
+      [hotline(), hotline({ name: 'Shout', type: 'crisis' }), hotline({ name: 'Mind', phone: 'n/a' })],
+      TODAY
+    );
+
+    expect(records.map((r) => r.name)).toEqual(['Samaritans']);
+    expect(errors.map(({ row, field }) => [row, field])).toEqual([
+      [2, 'type'],
+      [3, 'phone'],
+    ]);
+  });
+});
+
+describe('parsing datasets', () => {
+  it('validates a CSV dataset', () => {
+    const csv = [
+      'country,name,type,phone,website,available_24_7,languages,verified_on',
+      'US,988 Suicide & Crisis Lifeline,suicide_prevention,988,https://988lifeline.org,true,en;es,2025-10-01',
+      'US,"Lifeline, again",suicide_prevention,not a number,https://988lifeline.org,true,en,2025-10-01',
+    ].join('\n');
+
+    const { records, errors } = validateHotlines(parseCsv(csv), TODAY);
+
+    expect(records).toEqual([expect.objectContaining({ name: '988 Suicide & Crisis Lifeline', languages: ['en', 'es'] })]);
+    expect(errors).toEqual([{ row: 2, field: 'phone', message: 'Must be a phone number' }]);
+  });
+
+  it('accepts a JSON object with a hotlines array', () => {
+    expect(parseHotlineJson(JSON.stringify({ hotlines: [hotline()] }))).toHaveLength(1);
+  });
+
+  it('rejects JSON that is not a list of hotlines', () => {
+    expect(() => parseHotlineJson('{"country": "GB"}')).toThrow(/JSON array of hotlines/);
+  });
+});
@@ -0,0 +1,220 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_INTERVENTION_RULES,
+  evaluateInterventionRules,
+  type InterventionRule,
+  interventionDedupKey,
+  isInterventionRule,
+  matchesRule,
+  OCCURRENCE_INTERVAL_HOURS,
+  type OpenIntervention,
+  repeatIntervention,
+  type ScoreSnapshot,
+  toInterventionRules,
+  toRecordInterventionParams,
+} from '../../../supabase/functions/_shared/interventionRules.ts';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../../../supabase/migrations', import.meta.url));
+
+// Body of the newest migration that (re)defines record_crisis_intervention
+function loadRecordInterventionRpc(): string {
+  const definitions = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith('.sql'))
+    .sort()
+    .map((file) => readFileSync(join(MIGRATIONS_DIR, file), 'utf8'))
+    .map((sql) => sql.match(/FUNCTION record_crisis_intervention[\s\S]*?LANGUAGE plpgsql/)?.[0])
+    .filter((body): body is string => !!body);
+
+  return definitions[definitions.length - 1];
+}
+
+const score = (overrides: Partial<ScoreSnapshot>): ScoreSnapshot => ({
+  severity: 'low',
+  red_zone_days: 0,
+  high_risk_messages: 0,
+  gottman_violations: 0,
+  disengagement_hours: 0,
+  conflict_frequency: 0,
+  ...overrides,
+});
+
+const firedKeys = (snapshot: ScoreSnapshot) =>
+  evaluateInterventionRules(DEFAULT_INTERVENTION_RULES, snapshot).map((rule) => rule.rule_key);
+
+const rule = (overrides: Partial<InterventionRule>): InterventionRule => ({
+  ...DEFAULT_INTERVENTION_RULES[0],
+  ...overrides,
+});
+
+describe('evaluateInterventionRules', () => {
+  it.each([
+    ['a low score', score({ severity: 'low', conflict_frequency: 10, high_risk_messages: 10 }), []],
+    ['a moderate score below the conflict threshold', score({ severity: 'moderate', conflict_frequency: 4 }), []],
+    [
+      'a moderate score at the conflict threshold',
+      score({ severity: 'moderate', conflict_frequency: 5 }),
+      ['moderate_conflict_frequency'],
+    ],
+    ['a high score with no factor over its threshold', score({ severity: 'high', high_risk_messages: 4 }), []],
+    [
+      'a high score with risky messages and horsemen',
+      score({ severity: 'high', high_risk_messages: 5, gottman_violations: 7 }),
+      ['high_risk_messages', 'high_gottman_violations'],
+    ],
+    [
+      'a high score with a disengaged partner',
+      score({ severity: 'high', disengagement_hours: 48 }),
+      ['high_disengagement'],
+    ],
+    ['a critical score', score({ severity: 'critical', red_zone_days: 2 }), ['critical_hotline']],
+    [
+      'a critical score with sustained red zone',
+      score({ severity: 'critical', red_zone_days: 3 }),
+      ['critical_hotline', 'critical_sustained_red_zone'],
+    ],
+    [
+      'a critical score with high-severity factors',
+      score({ severity: 'critical', high_risk_messages: 9, conflict_frequency: 9 }),
+      ['critical_hotline'],
+    ],
+  ])('fires the right rules for %s', (_label, snapshot, expected) => {
+    expect(firedKeys(snapshot)).toEqual(expected);
+  });
+
+  it('returns matches in priority order regardless of row order', () => {
+    const reversed = [...DEFAULT_INTERVENTION_RULES].reverse();
+    const matched = evaluateInterventionRules(reversed, score({ severity: 'critical', red_zone_days: 5 }));
+
+    expect(matched.map((r) => r.priority)).toEqual([10, 20]);
+  });
+});
+
+describe('matchesRule', () => {
+  it.each([
+    ['>=', 5, true],
+    ['>=', 4, false],
+    ['>', 5, false],
+    ['>', 6, true],
+    ['<=', 5, true],
+    ['<', 5, false],
+    ['=', 5, true],
+    ['=', 6, false],
+  ] as const)('compares with %s (value %d)', (operator, actual, expected) => {
+    const candidate = rule({
+      score_severities: ['high'],
+      conditions: [{ metric: 'gottman_violations', operator, value: 5 }],
+    });
+
+    expect(matchesRule(candidate, score({ severity: 'high', gottman_violations: actual }))).toBe(expected);
+  });
+
+  it('requires every condition to hold', () => {
+    const candidate = rule({
+      score_severities: ['high'],
+      conditions: [
+        { metric: 'gottman_violations', operator: '>=', value: 5 },
+        { metric: 'red_zone_days', operator: '>=', value: 2 },
+      ],
+    });
+
+    expect(matchesRule(candidate, score({ severity: 'high', gottman_violations: 5 }))).toBe(false);
+    expect(matchesRule(candidate, score({ severity: 'high', gottman_violations: 5, red_zone_days: 2 }))).toBe(true);
+  });
+
+  it('treats a missing metric as zero', () => {
+    const candidate = rule({
+      score_severities: ['high'],
+      conditions: [{ metric: 'conflict_frequency', operator: '<', value: 1 }],
+    });
+    const partial = { severity: 'high' } as ScoreSnapshot;
+
+    expect(matchesRule(candidate, partial)).toBe(true);
+  });
+});
+
+describe('toInterventionRules', () => {
+  it('accepts the default rules', () => {
+    expect(toInterventionRules(DEFAULT_INTERVENTION_RULES)).toHaveLength(DEFAULT_INTERVENTION_RULES.length);
+  });
+
+  it.each([
+    ['an unknown metric', { conditions: [{ metric: 'mood', operator: '>=', value: 1 }] }],
+    ['an unknown operator', { conditions: [{ metric: 'red_zone_days', operator: '!=', value: 1 }] }],
+    ['a non-numeric threshold', { conditions: [{ metric: 'red_zone_days', operator: '>=', value: '3' }] }],
+    ['an unknown intervention type', { intervention_type: 'sms_blast' }],
+    ['an unknown score severity', { score_severities: ['severe'] }],
+    ['no score severities', { score_severities: [] }],
+    ['a zero expiry', { expires_after_hours: 0 }],
+  ])('skips a row with %s', (_label, overrides) => {
+    const row = { ...DEFAULT_INTERVENTION_RULES[1], ...overrides };
+
+    expect(isInterventionRule(row)).toBe(false);
+    expect(toInterventionRules([row, DEFAULT_INTERVENTION_RULES[0]])).toEqual([DEFAULT_INTERVENTION_RULES[0]]);
+  });
+});
+
+describe('record_crisis_intervention arguments', () => {
+  it('only sends the rule key, never its wording or severity', () => {
+    const [critical] = DEFAULT_INTERVENTION_RULES;
+
+    expect(toRecordInterventionParams('couple-1', 'score-1', critical)).toEqual({
+      p_couple_id: 'couple-1',
+      p_crisis_score_id: 'score-1',
+      p_rule_key: 'critical_hotline',
+    });
+  });
+
+  it('builds the dedup key the database uses', () => {
+    expect(interventionDedupKey(DEFAULT_INTERVENTION_RULES[1])).toBe('cooling_off:critical_sustained_red_zone');
+  });
+});
+
+describe('repeatIntervention', () => {
+  const highRisk = DEFAULT_INTERVENTION_RULES.find((r) => r.rule_key === 'high_risk_messages')!;
+  const open = (overrides: Partial<OpenIntervention>): OpenIntervention => ({
+    severity: 'high',
+    occurrence_count: 2,
+    last_triggered_at: '2025-10-15T08:00:00Z',
+    ...overrides,
+  });
+
+  it.each(['2025-10-15T08:00:05Z', '2025-10-15T08:00:10Z', '2025-10-15T20:00:00Z'])(
+    'does not count or escalate a repeat evaluation on the same day (%s)',
+    (evaluatedAt) => {
+      const repeat = repeatIntervention(open({}), highRisk, new Date(evaluatedAt));
+
+      expect(repeat).toEqual({ occurrenceCount: 2, severity: 'high', escalated: false });
+    }
+  );
+
+  it('escalates once the condition persists into a new scoring period', () => {
+    const repeat = repeatIntervention(open({}), highRisk, new Date('2025-10-16T08:00:00Z'));
+
+    expect(repeat).toEqual({ occurrenceCount: 3, severity: 'critical', escalated: true });
+  });
+
+  it('counts without escalating between escalation points', () => {
+    const repeat = repeatIntervention(open({ occurrence_count: 3 }), highRisk, new Date('2025-10-16T08:00:00Z'));
+
+    expect(repeat).toEqual({ occurrenceCount: 4, severity: 'high', escalated: false });
+  });
+
+  it('never escalates past critical or for rules without escalate_after', () => {
+    const [hotline] = DEFAULT_INTERVENTION_RULES;
+    const later = new Date('2025-10-16T08:00:00Z');
+
+    expect(repeatIntervention(open({ severity: 'critical' }), highRisk, later).escalated).toBe(false);
+    expect(repeatIntervention(open({ severity: 'critical', occurrence_count: 5 }), hotline, later).escalated).toBe(
+      false
+    );
+  });
+
+  it('uses the same scoring period as record_crisis_intervention', () => {
+    const [, hours] = loadRecordInterventionRpc().match(/last_triggered_at > now\(\) - interval '(\d+) hours'/) || [];
+
+    expect(Number(hours)).toBe(OCCURRENCE_INTERVAL_HOURS);
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  completeJSON,
+  createOpenAICompatibleProvider,
+  parseJSONContent,
+} from '../../../supabase/functions/_shared/llm.ts';
+
+const MESSAGES = [{ role: 'user' as const, content: 'hello' }];
+const OPTIONS = { model: 'test-model', temperature: 0.2 };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const completion = (message: Record<string, unknown>) =>
+  jsonResponse({ model: 'served-model', choices: [{ message }] });
+
+const sseResponse = (events: unknown[]) =>
+  new Response(events.map((event) => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join(''));
+
+function stubFetch(...responses: (Response | Error)[]) {
+  const fetchMock = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) {
+      fetchMock.mockRejectedValueOnce(response);
+    } else {
+      fetchMock.mockResolvedValueOnce(response);
+    }
+  }
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createOpenAICompatibleProvider', () => {
+  it('posts the chat completion and returns the content', async () => {
+    const fetchMock = stubFetch(completion({ content: 'Hi there' }));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://mock/v1/', apiKey: 'key' });
+
+    const result = await provider.complete(MESSAGES, { ...OPTIONS, json: true });
+
+    expect(result).toEqual({ content: 'Hi there', model: 'served-model', toolCalls: [] });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://mock/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer key');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'test-model',
+      temperature: 0.2,
+      messages: MESSAGES,
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('retries server errors and gives up on client errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const retried = stubFetch(jsonResponse({}, 503), completion({ content: 'ok' }));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://mock/v1', maxRetries: 1 });
+
+    expect((await provider.complete(MESSAGES, OPTIONS)).content).toBe('ok');
+    expect(retried).toHaveBeenCalledTimes(2);
+
+    const rejected = stubFetch(jsonResponse({}, 400));
+    await expect(provider.complete(MESSAGES, OPTIONS)).rejects.toThrow('LLM API error: 400');
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the last error once retries run out', async () => {
+    stubFetch(new TypeError('network down'));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://mock/v1', maxRetries: 0 });
+
+    await expect(provider.complete(MESSAGES, OPTIONS)).rejects.toThrow('network down');
+  });
+
+  it('returns tool calls and drops malformed ones', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubFetch(
+      completion({
+        content: null,
+        tool_calls: [
+          { function: { name: 'start_cooling_off', arguments: '{"duration_hours":2}' } },
+          { function: { name: 'log_conflict', arguments: '{not json' } },
+        ],
+      })
+    );
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://mock/v1' });
+
+    const result = await provider.complete(MESSAGES, OPTIONS);
+
+    expect(result.content).toBe('');
+    expect(result.toolCalls).toEqual([{ name: 'start_cooling_off', arguments: { duration_hours: 2 } }]);
+  });
+
+  it('rejects a reply without content or tool calls', async () => {
+    stubFetch(completion({ content: null }));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://mock/v1' });
+
+    await expect(provider.complete(MESSAGES, OPTIONS)).rejects.toThrow('no message content');
+  });
+
+  it('streams content deltas, then tool calls assembled from fragments', async () => {
+    stubFetch(
+      sseResponse([
+        { choices: [{ delta: { content: 'Take ' } }] },
+        { choices: [{ delta: { content: 'a breath.' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'open_breathing', arguments: '{"min' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: '_exercise', arguments: 'utes":3}' } }] } }] },
+        '[DONE]',
+      ])
+    );
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://mock/v1' });
+
+    const chunks = [];
+    for await (const chunk of provider.stream(MESSAGES, OPTIONS)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Take ', 'a breath.', { name: 'open_breathing_exercise', arguments: { minutes: 3 } }]);
+  });
+});
+
+describe('completeJSON', () => {
+  const isGreeting = (value: unknown): value is { greeting: string } =>
+    !!value && typeof (value as { greeting?: unknown }).greeting === 'string';
+
+  it('parses JSON wrapped in markdown fences', async () => {
+    stubFetch(completion({ content: '```json\n{"greeting":"hi"}\n```' }));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://mock/v1' });
+
+    await expect(completeJSON(provider, MESSAGES, OPTIONS, isGreeting)).resolves.toEqual({ greeting: 'hi' });
+  });
+
+  it('rejects a reply that fails validation', async () => {
+    stubFetch(completion({ content: '{"farewell":"bye"}' }));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://mock/v1', name: 'mock' });
+
+    await expect(completeJSON(provider, MESSAGES, OPTIONS, isGreeting)).rejects.toThrow(
+      'LLM response from mock did not match the expected shape'
+    );
+  });
+
+  it('leaves plain JSON untouched', () => {
+    expect(parseJSONContent(' {"a":1} ')).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeToneOffline,
+  applyContextOverrides,
+  detectHorsemen,
+  type Horseman,
+  isToneAnalysis,
+  mergeToneAnalyses,
+  type ToneAnalysis,
+} from '../../../supabase/functions/_shared/toneAnalyzer.ts';
+
+// Messages partners actually send, with the horsemen a reviewer would flag
+const CORPUS: { message: string; horsemen: Horseman[]; riskLevel: ToneAnalysis['riskLevel'] }[] = [
+  // Everyday messages that must stay quiet
+  { message: 'ok', horsemen: [], riskLevel: 'low' },
+  { message: 'Ok!', horsemen: [], riskLevel: 'low' },
+  { message: 'fine', horsemen: [], riskLevel: 'low' },
+  { message: 'k', horsemen: [], riskLevel: 'low' },
+  { message: 'Sounds fine to me, see you at 7', horsemen: [], riskLevel: 'low' },
+  { message: 'Can you pick up milk on the way home?', horsemen: [], riskLevel: 'low' },
+  { message: 'I feel hurt when plans change last minute. Can we talk tonight?', horsemen: [], riskLevel: 'low' },
+  { message: 'I need 20 minutes to calm down, then I want to come back to this.', horsemen: [], riskLevel: 'low' },
+  { message: "You're always so thoughtful with the kids, thank you", horsemen: [], riskLevel: 'low' },
+  { message: 'I never realised how much that meant to you', horsemen: [], riskLevel: 'low' },
+
+  // Criticism
+  { message: 'You always forget to call when you are late', horsemen: ['criticism'], riskLevel: 'medium' },
+  { message: "What's wrong with you?", horsemen: ['criticism'], riskLevel: 'medium' },
+  { message: "You're so selfish", horsemen: ['criticism'], riskLevel: 'medium' },
+
+  // Contempt
+  { message: 'That was pathetic', horsemen: ['contempt'], riskLevel: 'high' },
+  { message: 'Grow up', horsemen: ['contempt'], riskLevel: 'high' },
+  { message: 'Who do you think you are?', horsemen: ['contempt'], riskLevel: 'high' },
+
+  // Defensiveness
+  { message: "It's not my fault the bill was late", horsemen: ['defensiveness'], riskLevel: 'medium' },
+  { message: 'What about when you forgot my birthday?', horsemen: ['defensiveness'], riskLevel: 'medium' },
+
+  // Stonewalling
+  { message: 'whatever', horsemen: ['stonewalling'], riskLevel: 'medium' },
+  { message: 'Fine, whatever.', horsemen: ['stonewalling'], riskLevel: 'medium' },
+  { message: 'fine, do what you want', horsemen: ['stonewalling'], riskLevel: 'medium' },
+  { message: "I'm done talking", horsemen: ['stonewalling'], riskLevel: 'medium' },
+  { message: 'Leave me alone', horsemen: ['stonewalling'], riskLevel: 'medium' },
+  { message: 'Forget it', horsemen: ['stonewalling'], riskLevel: 'medium' },
+
+  // Several at once
+  {
+    message: "You never listen and it's not my fault",
+    horsemen: ['criticism', 'defensiveness'],
+    riskLevel: 'high',
+  },
+];
+
+describe('detectHorsemen', () => {
+  it.each(CORPUS)('flags "$message" as $horsemen', ({ message, horsemen }) => {
+    expect(detectHorsemen(message)).toEqual(horsemen);
+  });
+});
+
+describe('analyzeToneOffline', () => {
+  it.each(CORPUS)('rates "$message" as $riskLevel risk', ({ message, riskLevel }) => {
+    expect(analyzeToneOffline(message).riskLevel).toBe(riskLevel);
+  });
+
+  it('treats escalation markers without a horseman as heated', () => {
+    const analysis = analyzeToneOffline('Where are you??');
+
+    expect(analysis.riskLevel).toBe('medium');
+    expect(analysis.tone).toBe('Heated');
+    expect(analysis.gottmanWarnings).toEqual([]);
+  });
+
+  it('raises one horseman with two escalation markers to high', () => {
+    expect(analyzeToneOffline('YOU ALWAYS DO THIS!!').riskLevel).toBe('high');
+  });
+
+  it('suggests the antidote for each horseman found', () => {
+    const analysis = analyzeToneOffline('You always forget');
+
+    expect(analysis.suggestions).toHaveLength(1);
+    expect(analysis.suggestions[0]).toMatch(/gentle startup/);
+    expect(analysis.rewriteSuggestion).toBeDefined();
+  });
+
+  it('delays high-risk messages only', () => {
+    expect(analyzeToneOffline('That was pathetic').shouldDelay).toBe(true);
+    expect(analyzeToneOffline('You always forget').shouldDelay).toBe(false);
+  });
+
+  it('returns a valid analysis', () => {
+    expect(isToneAnalysis(analyzeToneOffline('ok'))).toBe(true);
+  });
+});
+
+describe('applyContextOverrides', () => {
+  it('delays any message while a partner is in the red zone', () => {
+    const analysis = analyzeToneOffline('ok', { receiverZone: 'red' });
+
+    expect(analysis.riskLevel).toBe('high');
+    expect(analysis.shouldDelay).toBe(true);
+    expect(analysis.delayReason).toMatch(/red zone/);
+  });
+
+  it('suggests calming down once when the heart rate is elevated', () => {
+    const base = analyzeToneOffline('ok');
+    const analysis = applyContextOverrides(applyContextOverrides(base, { senderHeartRate: 120 }), {
+      senderHeartRate: 120,
+    });
+
+    expect(analysis.suggestions.filter((s) => s.includes('heart rate'))).toHaveLength(1);
+  });
+});
+
+describe('mergeToneAnalyses', () => {
+  it('keeps the higher risk level and every warning', () => {
+    const llm: ToneAnalysis = {
+      riskLevel: 'low',
+      escalationRisk: false,
+      gottmanWarnings: [],
+      tone: 'Calm',
+      suggestions: [],
+      shouldDelay: false,
+    };
+    const merged = mergeToneAnalyses(llm, analyzeToneOffline('That was pathetic'));
+
+    expect(merged.riskLevel).toBe('high');
+    expect(merged.gottmanWarnings).toEqual(['contempt']);
+    expect(merged.shouldDelay).toBe(true);
+    expect(merged.tone).toBe('Calm');
+  });
+});
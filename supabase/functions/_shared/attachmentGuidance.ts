@@ -0,0 +1,167 @@
+// Attachment-style aware guidance for the AI coach and tone analysis. Styles
+// come from user_profiles.attachment_style via get_attachment_context(), which
+// leaves them out for anyone who turned personalization off. Like
+// toneAnalyzer.ts this module is imported by both the edge functions and the
+// web app, so keep it free of runtime specific APIs.
+
+export type AttachmentStyle = "secure" | "anxious" | "avoidant" | "fearful-avoidant";
+
+const ATTACHMENT_STYLES: AttachmentStyle[] = ["secure", "anxious", "avoidant", "fearful-avoidant"];
+
+export function isAttachmentStyle(value: unknown): value is AttachmentStyle {
+  return typeof value === "string" && ATTACHMENT_STYLES.includes(value as AttachmentStyle);
+}
+
+const STYLE_GUIDANCE: Record<AttachmentStyle, string> = {
+  secure:
+    "Generally comfortable with closeness and independence. Build on that steadiness and invite them to model calm repair.",
+  anxious:
+    "Under stress they tend to pursue: seeking reassurance, pressing for an answer now, reading distance as rejection. Validate the need for connection, help them self-soothe before reaching out, and coach clear requests over protest behaviour.",
+  avoidant:
+    "Under stress they tend to withdraw: minimizing feelings, needing space, going quiet. Respect the need for space while encouraging them to say when they'll come back, and keep emotional asks small and concrete.",
+  "fearful-avoidant":
+    "They can swing between pursuing and withdrawing, wanting closeness while fearing it. Prioritize safety and regulation, name the push-pull gently, and keep steps small and predictable.",
+};
+
+function describeDynamic(own: AttachmentStyle, partner: AttachmentStyle): string | null {
+  const pair = new Set([own, partner]);
+
+  if (pair.has("anxious") && pair.has("avoidant")) {
+    return own === "anxious"
+      ? "Likely pursue-withdraw cycle: the user pursues and their partner withdraws, and each reaction feeds the other. Help the user slow the pursuit, ask for connection without pressure, and accept a timed break as care rather than rejection."
+      : "Likely pursue-withdraw cycle: the partner pursues and the user withdraws, and each reaction feeds the other. Help the user stay present a little longer, reassure before stepping away, and name when they'll return.";
+  }
+
+  if (own === "anxious" && partner === "anxious") {
+    return "Both partners are prone to pursuing, so conflicts can escalate quickly as each seeks reassurance at once. Encourage turn-taking and mutual reassurance before problem solving.";
+  }
+
+  if (own === "avoidant" && partner === "avoidant") {
+    return "Both partners tend to withdraw, so issues may go unspoken and distance can build quietly. Encourage small, scheduled check-ins and naming feelings early.";
+  }
+
+  if (pair.has("fearful-avoidant") && own !== partner) {
+    return "One partner's push-pull can be confusing for the other. Encourage predictable routines, explicit reassurance and agreed break signals.";
+  }
+
+  if (pair.has("secure") && own !== partner) {
+    return own === "secure"
+      ? "The user's steadiness can help co-regulate their partner. Coach them to offer reassurance and structure without taking over."
+      : "The partner's steadiness is a resource. Encourage the user to lean on it and ask directly for what they need.";
+  }
+
+  return null;
+}
+
+// System prompt section for the coach. Styles are context, not labels: the
+// coach shouldn't tell users what their style is unless they bring it up.
+export function buildAttachmentGuidance(own?: AttachmentStyle, partner?: AttachmentStyle): string {
+  if (!own && !partner) {
+    return "";
+  }
+
+  let guidance = "\nATTACHMENT STYLES (use to shape your tone and suggestions; don't label anyone unless they bring it up):\n";
+
+  if (own) {
+    guidance += `- User: ${own}. ${STYLE_GUIDANCE[own]}\n`;
+  }
+
+  if (partner) {
+    guidance += `- Partner: ${partner}.\n`;
+  }
+
+  const dynamic = own && partner ? describeDynamic(own, partner) : null;
+  if (dynamic) {
+    guidance += `- Dynamic: ${dynamic}\n`;
+  }
+
+  return guidance;
+}
+
+const SENDER_SUGGESTIONS: Partial<Record<AttachmentStyle, string>> = {
+  anxious:
+    'Lead with the need behind the worry rather than the protest, e.g. "I miss you and would love some time together tonight."',
+  avoidant:
+    'If you need space, say so and say when you\'ll be back, e.g. "I need an hour to think, then I want to talk about this."',
+  "fearful-avoidant":
+    "Before sending, check whether this message pulls your partner closer or pushes them away, and whether that's what you want.",
+};
+
+const RECEIVER_SUGGESTIONS: Partial<Record<AttachmentStyle, string>> = {
+  anxious:
+    "Your partner is sensitive to distance. A line of reassurance (\"We're okay, I just need...\") helps them hear the rest.",
+  avoidant:
+    "Your partner tends to pull back under pressure. Keep it short, make one specific request and give them time to respond.",
+  "fearful-avoidant":
+    "Your partner can feel overwhelmed by intensity. A calm, predictable message with a clear next step lands best.",
+};
+
+// Tone suggestions tailored to the sender's and receiver's styles. Only
+// offered when a message is already at risk, so low-risk messages stay quiet.
+export function attachmentToneSuggestions(
+  riskLevel: "low" | "medium" | "high",
+  senderStyle?: AttachmentStyle,
+  receiverStyle?: AttachmentStyle
+): string[] {
+  if (riskLevel === "low") {
+    return [];
+  }
+
+  const suggestions: string[] = [];
+  if (senderStyle && SENDER_SUGGESTIONS[senderStyle]) {
+    suggestions.push(SENDER_SUGGESTIONS[senderStyle]!);
+  }
+  if (receiverStyle && RECEIVER_SUGGESTIONS[receiverStyle]) {
+    suggestions.push(RECEIVER_SUGGESTIONS[receiverStyle]!);
+  }
+  return suggestions;
+}
+
+// System prompt section for the mediator in joint sessions, where both
+// partners read every reply. Partners without a style (or who turned
+// personalization off) are left out.
+export function buildJointAttachmentGuidance(partners: { name: string; style?: AttachmentStyle }[]): string {
+  const known = partners.filter((p): p is { name: string; style: AttachmentStyle } => !!p.style);
+  if (known.length === 0) {
+    return "";
+  }
+
+  let guidance =
+    "\nATTACHMENT STYLES (use to shape your tone and suggestions; never label either partner in front of the other):\n";
+  known.forEach((partner) => {
+    guidance += `- ${partner.name}: ${partner.style}. ${STYLE_GUIDANCE[partner.style]}\n`;
+  });
+
+  const [first, second] = known;
+  const dynamic = second ? describeDynamic(first.style, second.style) : null;
+  if (dynamic) {
+    const named = dynamic
+      .replace(/their partner|the partner/g, second.name)
+      .replace(/The partner/g, second.name)
+      .replace(/the user|The user/g, first.name);
+    guidance += `- Dynamic: ${named}\n`;
+  }
+
+  return guidance;
+}
+
+// One-line description for the tone-analysis LLM prompt
+export function describeAttachmentForToneAnalysis(
+  senderStyle?: AttachmentStyle,
+  receiverStyle?: AttachmentStyle
+): string {
+  if (!senderStyle && !receiverStyle) {
+    return "";
+  }
+
+  const parts: string[] = [];
+  if (senderStyle) parts.push(`sender ${senderStyle}`);
+  if (receiverStyle) parts.push(`receiver ${receiverStyle}`);
+
+  let description = `Attachment styles: ${parts.join(", ")}.`;
+  const dynamic = senderStyle && receiverStyle ? describeDynamic(senderStyle, receiverStyle) : null;
+  if (dynamic) {
+    description += ` ${dynamic.replace(/the user/g, "the sender").replace(/The user/g, "The sender")}`;
+  }
+  return `${description} Tailor suggestions to these styles without naming them.`;
+}
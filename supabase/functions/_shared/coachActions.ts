@@ -0,0 +1,147 @@
+// Actions the AI coach can propose through tool calling. The coach never runs
+// them: each call is validated into a CoachAction and sent to the client,
+// which shows it as a card and only acts once the user confirms.
+
+import type { ToolCall, ToolDefinition } from "./llm.ts";
+
+export type CoachActionType =
+  | "start_cooling_off"
+  | "log_conflict"
+  | "schedule_weekly_meeting"
+  | "open_breathing_exercise";
+
+export interface CoachAction {
+  id: string;
+  type: CoachActionType;
+  title: string;
+  description: string;
+  params: Record<string, string | number>;
+}
+
+const BREATHING_EXERCISES: Record<string, string> = {
+  box: "Box Breathing",
+  "4-7-8": "4-7-8 Breathing",
+};
+
+export const COACH_TOOLS: Record<CoachActionType, ToolDefinition> = {
+  start_cooling_off: {
+    name: "start_cooling_off",
+    description:
+      "Propose a cooling-off period for the couple when either partner is flooded and needs space before talking again.",
+    parameters: {
+      type: "object",
+      properties: {
+        reason: { type: "string", description: "Short, neutral reason shown to both partners" },
+        duration_hours: { type: "number", description: "Length of the break in hours (1-48)" },
+      },
+      required: ["reason", "duration_hours"],
+    },
+  },
+  log_conflict: {
+    name: "log_conflict",
+    description: "Propose logging the conflict the user is describing in the conflict tracker.",
+    parameters: {
+      type: "object",
+      properties: {
+        topic: { type: "string", description: "What the conflict is about, in a few words" },
+        intensity: { type: "number", description: "How intense it feels (1-10)" },
+      },
+      required: ["topic", "intensity"],
+    },
+  },
+  schedule_weekly_meeting: {
+    name: "schedule_weekly_meeting",
+    description: "Propose scheduling the couple's weekly relationship meeting.",
+    parameters: {
+      type: "object",
+      properties: {
+        scheduled_for: {
+          type: "string",
+          description: "ISO 8601 date and time for the meeting, in the future",
+        },
+      },
+      required: ["scheduled_for"],
+    },
+  },
+  open_breathing_exercise: {
+    name: "open_breathing_exercise",
+    description: "Propose opening a guided breathing exercise when the user is activated or dysregulated.",
+    parameters: {
+      type: "object",
+      properties: {
+        exercise: { type: "string", enum: Object.keys(BREATHING_EXERCISES) },
+      },
+      required: ["exercise"],
+    },
+  },
+};
+
+// Couple-level actions are only offered when the user has a partner linked.
+export function getCoachTools(hasCouple: boolean): ToolDefinition[] {
+  return Object.values(COACH_TOOLS).filter(
+    (tool) => hasCouple || tool.name === "open_breathing_exercise"
+  );
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+// Turns a model tool call into an action card, or null if the call is unknown
+// or its arguments don't make sense.
+export function toCoachAction(call: ToolCall, now = new Date()): CoachAction | null {
+  const args = call.arguments;
+  const id = crypto.randomUUID();
+
+  switch (call.name) {
+    case "start_cooling_off": {
+      const hours = Number(args.duration_hours);
+      if (!Number.isFinite(hours)) return null;
+      const durationHours = clamp(hours, 1, 48);
+      const reason = String(args.reason || "Taking some space to calm down");
+      return {
+        id,
+        type: "start_cooling_off",
+        title: `Start a ${durationHours}-hour cooling-off period`,
+        description: `${reason}. Your partner will be notified that you're taking a break.`,
+        params: { reason, durationHours },
+      };
+    }
+    case "log_conflict": {
+      const topic = typeof args.topic === "string" ? args.topic.trim() : "";
+      if (!topic) return null;
+      const intensity = clamp(Number(args.intensity) || 5, 1, 10);
+      return {
+        id,
+        type: "log_conflict",
+        title: "Log this conflict",
+        description: `Topic: ${topic} (intensity ${intensity}/10)`,
+        params: { topic, intensity },
+      };
+    }
+    case "schedule_weekly_meeting": {
+      const scheduledFor = new Date(String(args.scheduled_for));
+      if (isNaN(scheduledFor.getTime()) || scheduledFor <= now) return null;
+      return {
+        id,
+        type: "schedule_weekly_meeting",
+        title: "Schedule your weekly meeting",
+        description: "Review the week together: appreciations, conflicts and goals.",
+        params: { scheduledFor: scheduledFor.toISOString() },
+      };
+    }
+    case "open_breathing_exercise": {
+      const exercise = String(args.exercise);
+      if (!BREATHING_EXERCISES[exercise]) return null;
+      return {
+        id,
+        type: "open_breathing_exercise",
+        title: `Open ${BREATHING_EXERCISES[exercise]}`,
+        description: "A guided exercise to help your body settle.",
+        params: { exercise },
+      };
+    }
+    default:
+      return null;
+  }
+}
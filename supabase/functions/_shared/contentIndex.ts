@@ -0,0 +1,158 @@
+// Keyword (BM25) index over PairCalm's own content: meditations, workbook
+// exercises, coaching techniques and rituals. Pure and dependency-free so it
+// works offline and the serialized index can be stored in the database.
+
+export type ContentSource = "wellness_content" | "workbook_exercises" | "coaching_techniques" | "rituals";
+
+export interface ContentDocument {
+  id: string;
+  source: ContentSource;
+  title: string;
+  text: string;
+  tags: string[];
+  link: string;
+}
+
+interface IndexedDocument {
+  id: string;
+  source: ContentSource;
+  title: string;
+  summary: string;
+  link: string;
+  terms: Record<string, number>;
+  length: number;
+}
+
+export interface ContentIndex {
+  version: number;
+  documents: IndexedDocument[];
+  documentFrequency: Record<string, number>;
+  averageLength: number;
+}
+
+export interface ContentMatch {
+  id: string;
+  source: ContentSource;
+  title: string;
+  summary: string;
+  link: string;
+  score: number;
+}
+
+export const CONTENT_INDEX_VERSION = 1;
+
+const K1 = 1.2;
+const B = 0.75;
+// Titles and tags say what an item is about; count them more than body text
+const FIELD_BOOST = 3;
+const SUMMARY_LENGTH = 160;
+
+const STOPWORDS = new Set([
+  "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "because", "been",
+  "but", "by", "can", "could", "do", "does", "for", "from", "get", "had", "has", "have", "he", "her",
+  "him", "his", "how", "i", "if", "in", "into", "is", "it", "its", "just", "me", "more", "my", "no",
+  "not", "of", "on", "one", "or", "our", "out", "she", "so", "some", "than", "that", "the", "their",
+  "them", "then", "there", "they", "this", "to", "up", "us", "was", "we", "were", "what", "when",
+  "which", "who", "will", "with", "would", "you", "your",
+]);
+
+// Light suffix stripping so "breathing", "breathe" and "breaths" meet.
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/(ing|ed|es|ly|ment|ness)$/, "")
+    .replace(/s$/, "")
+    .replace(/e$/, "");
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function summarize(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > SUMMARY_LENGTH ? `${clean.slice(0, SUMMARY_LENGTH - 3).trimEnd()}...` : clean;
+}
+
+export function buildContentIndex(documents: ContentDocument[]): ContentIndex {
+  const documentFrequency: Record<string, number> = {};
+
+  const indexed = documents.map((doc) => {
+    const tokens = [
+      ...Array(FIELD_BOOST).fill(tokenize([doc.title, ...doc.tags].join(" "))).flat(),
+      ...tokenize(doc.text),
+    ];
+
+    const terms: Record<string, number> = {};
+    for (const token of tokens) {
+      terms[token] = (terms[token] || 0) + 1;
+    }
+    for (const term of Object.keys(terms)) {
+      documentFrequency[term] = (documentFrequency[term] || 0) + 1;
+    }
+
+    return {
+      id: doc.id,
+      source: doc.source,
+      title: doc.title,
+      summary: summarize(doc.text),
+      link: doc.link,
+      terms,
+      length: tokens.length,
+    };
+  });
+
+  const totalLength = indexed.reduce((sum, doc) => sum + doc.length, 0);
+
+  return {
+    version: CONTENT_INDEX_VERSION,
+    documents: indexed,
+    documentFrequency,
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0,
+  };
+}
+
+export function searchContentIndex(index: ContentIndex, query: string, limit = 3): ContentMatch[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const total = index.documents.length;
+  if (queryTerms.length === 0 || total === 0) return [];
+
+  return index.documents
+    .map((doc) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = doc.terms[term];
+        if (!frequency) continue;
+
+        const df = index.documentFrequency[term] || 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        const norm = 1 - B + B * (doc.length / (index.averageLength || 1));
+        score += idf * ((frequency * (K1 + 1)) / (frequency + K1 * norm));
+      }
+
+      return {
+        id: doc.id,
+        source: doc.source,
+        title: doc.title,
+        summary: doc.summary,
+        link: doc.link,
+        score: Math.round(score * 100) / 100,
+      };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export function isContentIndex(value: unknown): value is ContentIndex {
+  const index = value as ContentIndex;
+  return !!index &&
+    index.version === CONTENT_INDEX_VERSION &&
+    Array.isArray(index.documents) &&
+    typeof index.documentFrequency === "object";
+}
@@ -0,0 +1,124 @@
+// Loads the content catalog into the keyword index (see contentIndex.ts) and
+// keeps the serialized index in `content_search_index`. Content triggers mark
+// the index stale; the next load or a call to rebuild-content-index rebuilds it.
+
+import {
+  buildContentIndex,
+  type ContentDocument,
+  type ContentIndex,
+  isContentIndex,
+} from "./contentIndex.ts";
+
+const INDEX_ID = "coach";
+
+let cached: { index: ContentIndex; builtAt: string } | null = null;
+
+async function collectContentDocuments(serviceClient: any): Promise<ContentDocument[]> {
+  const [wellness, exercises, techniques, rituals] = await Promise.all([
+    serviceClient
+      .from("wellness_content")
+      .select("id, title, description, tags, benefits")
+      .eq("is_published", true),
+    serviceClient
+      .from("workbook_exercises")
+      .select("id, title, description, instructions, category")
+      .eq("is_active", true),
+    serviceClient
+      .from("coaching_techniques")
+      .select("id, name, description, instructions, category, recommended_for_zones")
+      .eq("is_active", true),
+    serviceClient
+      .from("rituals")
+      .select("id, title, description, prompt, category")
+      .eq("is_active", true),
+  ]);
+
+  return [
+    ...(wellness.data || []).map((item: any) => ({
+      id: item.id,
+      source: "wellness_content" as const,
+      title: item.title,
+      text: [item.description, ...(item.benefits || [])].join(". "),
+      tags: item.tags || [],
+      link: `/wellness?content=${item.id}`,
+    })),
+    ...(exercises.data || []).map((item: any) => ({
+      id: item.id,
+      source: "workbook_exercises" as const,
+      title: item.title,
+      text: [item.description, item.instructions].join(". "),
+      tags: [item.category.replace(/_/g, " ")],
+      link: `/workbook?exercise=${item.id}`,
+    })),
+    ...(techniques.data || []).map((item: any) => ({
+      id: item.id,
+      source: "coaching_techniques" as const,
+      title: item.name,
+      text: [item.description, item.instructions].join(". "),
+      tags: [item.category.replace(/_/g, " "), ...(item.recommended_for_zones || []).map((z: string) => `${z} zone`)],
+      link: `/ai-coach?technique=${item.id}`,
+    })),
+    ...(rituals.data || []).map((item: any) => ({
+      id: item.id,
+      source: "rituals" as const,
+      title: item.title,
+      text: [item.description, item.prompt].join(". "),
+      tags: [item.category],
+      link: `/rituals?ritual=${item.id}`,
+    })),
+  ];
+}
+
+export async function rebuildContentIndex(serviceClient: any): Promise<{ index: ContentIndex; builtAt: string }> {
+  const documents = await collectContentDocuments(serviceClient);
+  const index = buildContentIndex(documents);
+  const builtAt = new Date().toISOString();
+
+  const { error } = await serviceClient
+    .from("content_search_index")
+    .upsert({
+      id: INDEX_ID,
+      index_data: index,
+      document_count: documents.length,
+      built_at: builtAt,
+    });
+
+  if (error) {
+    console.error("Error saving content index:", error);
+  }
+
+  cached = { index, builtAt };
+  return cached;
+}
+
+// Returns the current index, rebuilding it first if content has changed since
+// it was built. Reuses the copy held by this function instance when possible.
+export async function loadContentIndex(serviceClient: any): Promise<ContentIndex> {
+  const { data: meta } = await serviceClient
+    .from("content_search_index")
+    .select("built_at, content_changed_at")
+    .eq("id", INDEX_ID)
+    .maybeSingle();
+
+  const isStale = !meta?.built_at || new Date(meta.built_at) < new Date(meta.content_changed_at);
+  if (isStale) {
+    return (await rebuildContentIndex(serviceClient)).index;
+  }
+
+  if (cached && cached.builtAt === new Date(meta.built_at).toISOString()) {
+    return cached.index;
+  }
+
+  const { data } = await serviceClient
+    .from("content_search_index")
+    .select("index_data")
+    .eq("id", INDEX_ID)
+    .single();
+
+  if (!isContentIndex(data?.index_data)) {
+    return (await rebuildContentIndex(serviceClient)).index;
+  }
+
+  cached = { index: data.index_data, builtAt: new Date(meta.built_at).toISOString() };
+  return cached.index;
+}
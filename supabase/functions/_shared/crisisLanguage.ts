@@ -0,0 +1,67 @@
+// Screens coaching messages for language that needs a safety response rather
+// than coaching. Deliberately errs on the side of false positives: a hit only
+// surfaces hotlines and switches the session to crisis mode.
+
+export type CrisisCategory = "self_harm" | "violence" | "abuse";
+
+export interface CrisisLanguageResult {
+  category: CrisisCategory;
+  matched: string;
+}
+
+const CRISIS_LEXICON: Record<CrisisCategory, RegExp[]> = {
+  self_harm: [
+    /\b(kill|hurt|harm|cut) (myself|me)\b/i,
+    /\b(end|take) (my|my own) life\b/i,
+    /\bsuicid(e|al)\b/i,
+    /\b(want|wish) (to|i could) (die|disappear forever)\b/i,
+    /\bbetter off (dead|without me)\b/i,
+    /\bno reason to (live|go on)\b/i,
+    /\boverdose\b/i,
+  ],
+  violence: [
+    /\b(kill|hurt|strangle|choke|stab|shoot) (him|her|them|my (partner|wife|husband|boyfriend|girlfriend))\b/i,
+    /\b(going to|gonna|want to) (hit|beat|hurt) (him|her|them)\b/i,
+    /\b(has|have|got) a (gun|knife|weapon)\b/i,
+    /\bthreaten(ed|ing)? to kill\b/i,
+  ],
+  abuse: [
+    /\b(he|she|they) (hit|hits|slapped|slaps|punched|punches|choked|chokes|pushed|shoved|kicked) me\b/i,
+    /\b(afraid|scared) (of|for) (him|her|them|my life|my safety)\b/i,
+    /\bwon'?t let me (leave|see|go|have)\b/i,
+    /\b(forced|forces|made) me (to )?(have sex|do things)\b/i,
+    /\b(controls|takes|took) (all )?(my|our) (money|phone|keys)\b/i,
+    /\bthreaten(s|ed)? to (take the kids|hurt me|leave me with nothing)\b/i,
+  ],
+};
+
+// Categories are checked in order of urgency.
+const CATEGORY_ORDER: CrisisCategory[] = ["self_harm", "violence", "abuse"];
+
+export function detectCrisisLanguage(message: string): CrisisLanguageResult | null {
+  for (const category of CATEGORY_ORDER) {
+    for (const pattern of CRISIS_LEXICON[category]) {
+      const match = message.match(pattern);
+      if (match) {
+        return { category, matched: match[0] };
+      }
+    }
+  }
+
+  return null;
+}
+
+export const HOTLINE_TYPES_FOR_CATEGORY: Record<CrisisCategory, string[]> = {
+  self_harm: ["suicide_prevention", "mental_health"],
+  violence: ["domestic_violence", "mental_health"],
+  abuse: ["domestic_violence", "relationship"],
+};
+
+export const CRISIS_RESPONSES: Record<CrisisCategory, string> = {
+  self_harm:
+    "I'm really glad you told me. What you're describing sounds serious, and you deserve support from a real person right now. Please reach out to one of the crisis lines below - they're free and confidential. If you're in immediate danger, call your local emergency number.",
+  violence:
+    "It sounds like things feel dangerous right now. Please step away from the situation and put some distance between you and anything that could hurt someone. The lines below can help you think through what to do next. If anyone is in immediate danger, call your local emergency number.",
+  abuse:
+    "Thank you for trusting me with this. What you're describing isn't something coaching can fix, and it isn't your fault. The people at the lines below are trained to help you stay safe. If you're in immediate danger, call your local emergency number.",
+};
@@ -0,0 +1,192 @@
+// Explainable crisis score. Mirrors the calculate_crisis_score RPC so the web
+// app can show how much each factor contributed to a stored score and what
+// changed between two scores. If the weights in the RPC change, change them
+// here too. Keep this module free of Deno/browser specific APIs so both
+// runtimes can import it.
+
+import type { RuleMetric, ScoreSeverity } from "./interventionRules.ts";
+
+export type CrisisFactor = RuleMetric;
+
+export type CrisisFactorValues = Record<CrisisFactor, number>;
+
+export interface CrisisFactorDefinition {
+  factor: CrisisFactor;
+  label: string;
+  // How the raw value is measured, as counted by the RPC
+  measure: string;
+  // Points per unit of the raw value
+  weight: number;
+  // Most points the factor can add on its own, if limited
+  maxPoints?: number;
+}
+
+// Weights from calculate_crisis_score, in the order the RPC adds them
+export const CRISIS_FACTORS: CrisisFactorDefinition[] = [
+  {
+    factor: "red_zone_days",
+    label: "Red zone days",
+    measure: "Days in the last week either partner checked in red",
+    weight: 10,
+  },
+  {
+    factor: "high_risk_messages",
+    label: "High-risk messages",
+    measure: "Messages in the last week with medium or high risk tone",
+    weight: 5,
+  },
+  {
+    factor: "gottman_violations",
+    label: "Four Horsemen",
+    measure: "Messages in the last week with a criticism, contempt, defensiveness or stonewalling warning",
+    weight: 3,
+  },
+  {
+    // Scored per full day without a check-in, not per hour
+    factor: "disengagement_hours",
+    label: "Disengagement",
+    measure: "Hours since either partner last checked in, scored per full day",
+    weight: 15,
+    maxPoints: 30,
+  },
+  {
+    factor: "conflict_frequency",
+    label: "Conflicts",
+    measure: "Conflicts logged in the last week",
+    weight: 4,
+  },
+];
+
+export const MAX_CRISIS_SCORE = 100;
+
+// Lower bound of each severity, matching the RPC
+export const SEVERITY_THRESHOLDS: { severity: ScoreSeverity; min: number }[] = [
+  { severity: "critical", min: 75 },
+  { severity: "high", min: 50 },
+  { severity: "moderate", min: 25 },
+  { severity: "low", min: 0 },
+];
+
+export interface FactorContribution {
+  factor: CrisisFactor;
+  label: string;
+  value: number;
+  points: number;
+}
+
+export interface CrisisScoreBreakdown {
+  score: number;
+  // Sum of contributions before the score is capped at MAX_CRISIS_SCORE
+  uncappedScore: number;
+  severity: ScoreSeverity;
+  contributions: FactorContribution[];
+}
+
+export interface FactorDelta {
+  factor: CrisisFactor;
+  label: string;
+  previousValue: number;
+  currentValue: number;
+  pointsDelta: number;
+}
+
+export interface CrisisTrajectory {
+  current: CrisisScoreBreakdown;
+  previous: CrisisScoreBreakdown;
+  scoreDelta: number;
+  // Factors whose points changed, biggest change first
+  drivers: FactorDelta[];
+}
+
+export function factorPoints(definition: CrisisFactorDefinition, value: number): number {
+  // The RPC counts disengagement in whole days (integer division)
+  const units = definition.factor === "disengagement_hours" ? Math.floor(value / 24) : value;
+  const points = Math.max(0, units) * definition.weight;
+  return definition.maxPoints === undefined ? points : Math.min(points, definition.maxPoints);
+}
+
+export function severityForScore(score: number): ScoreSeverity {
+  return SEVERITY_THRESHOLDS.find((threshold) => score >= threshold.min)?.severity ?? "low";
+}
+
+// Missing values count as zero: the RPC stores a null disengagement when
+// nobody has checked in yet.
+export function scoreCrisisFactors(values: Partial<CrisisFactorValues>): CrisisScoreBreakdown {
+  const contributions = CRISIS_FACTORS.map((definition) => {
+    const value = Number(values[definition.factor]) || 0;
+    return {
+      factor: definition.factor,
+      label: definition.label,
+      value,
+      points: factorPoints(definition, value),
+    };
+  });
+
+  const uncappedScore = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+  const score = Math.min(uncappedScore, MAX_CRISIS_SCORE);
+
+  return {
+    score,
+    uncappedScore,
+    severity: severityForScore(score),
+    contributions,
+  };
+}
+
+export function compareCrisisScores(
+  current: Partial<CrisisFactorValues>,
+  previous: Partial<CrisisFactorValues>
+): CrisisTrajectory {
+  const currentBreakdown = scoreCrisisFactors(current);
+  const previousBreakdown = scoreCrisisFactors(previous);
+
+  const drivers = currentBreakdown.contributions
+    .map((contribution, index) => {
+      const before = previousBreakdown.contributions[index];
+      return {
+        factor: contribution.factor,
+        label: contribution.label,
+        previousValue: before.value,
+        currentValue: contribution.value,
+        pointsDelta: contribution.points - before.points,
+      };
+    })
+    .filter((delta) => delta.pointsDelta !== 0)
+    .sort((a, b) => Math.abs(b.pointsDelta) - Math.abs(a.pointsDelta));
+
+  return {
+    current: currentBreakdown,
+    previous: previousBreakdown,
+    scoreDelta: currentBreakdown.score - previousBreakdown.score,
+    drivers,
+  };
+}
+
+// Compares the newest score with the newest one calculated at least a week
+// before it. Returns null when the history doesn't go back that far.
+export function weekOverWeek<T extends Partial<CrisisFactorValues> & { calculated_at: string }>(
+  history: T[]
+): { current: T; previous: T; trajectory: CrisisTrajectory } | null {
+  if (history.length < 2) return null;
+
+  const sorted = [...history].sort(
+    (a, b) => new Date(b.calculated_at).getTime() - new Date(a.calculated_at).getTime()
+  );
+  const current = sorted[0];
+  const weekBefore = new Date(current.calculated_at).getTime() - 7 * 24 * 60 * 60 * 1000;
+  const previous = sorted.find((entry) => new Date(entry.calculated_at).getTime() <= weekBefore);
+
+  if (!previous) return null;
+
+  return { current, previous, trajectory: compareCrisisScores(current, previous) };
+}
+
+// One sentence per driver, e.g. "Red zone days went from 1 to 3 (+20 points)"
+export function describeDrivers(trajectory: CrisisTrajectory): string[] {
+  return trajectory.drivers.map((driver) => {
+    const sign = driver.pointsDelta > 0 ? "+" : "";
+    const from = driver.factor === "disengagement_hours" ? `${driver.previousValue}h` : driver.previousValue;
+    const to = driver.factor === "disengagement_hours" ? `${driver.currentValue}h` : driver.currentValue;
+    return `${driver.label} went from ${from} to ${to} (${sign}${driver.pointsDelta} points)`;
+  });
+}
@@ -0,0 +1,174 @@
+// Channels for messaging trusted contacts. Each contact method (SMS, email)
+// has its own provider, chosen by env so a deployment can swap Twilio or
+// Resend for another service, or use the log channel in development.
+
+export type ContactChannel = "sms" | "email";
+
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface DeliveryResult {
+  provider: string;
+  messageId?: string;
+}
+
+export interface EscalationChannel {
+  name: string;
+  send(message: OutgoingMessage): Promise<DeliveryResult>;
+}
+
+export function createTwilioSmsChannel(options: {
+  accountSid: string;
+  authToken: string;
+  from: string;
+}): EscalationChannel {
+  return {
+    name: "twilio",
+    async send(message: OutgoingMessage): Promise<DeliveryResult> {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${options.accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            "Authorization": `Basic ${btoa(`${options.accountSid}:${options.authToken}`)}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({
+            To: message.to,
+            From: options.from,
+            Body: message.body,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        console.error("Twilio error:", errorData);
+        throw new Error(`Twilio error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return { provider: "twilio", messageId: data.sid };
+    },
+  };
+}
+
+export function createResendEmailChannel(options: { apiKey: string; from: string }): EscalationChannel {
+  return {
+    name: "resend",
+    async send(message: OutgoingMessage): Promise<DeliveryResult> {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${options.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: options.from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.body,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        console.error("Resend error:", errorData);
+        throw new Error(`Resend error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return { provider: "resend", messageId: data.id };
+    },
+  };
+}
+
+// Development channel: logs the message instead of sending it
+export function createLogChannel(): EscalationChannel {
+  return {
+    name: "log",
+    async send(message: OutgoingMessage): Promise<DeliveryResult> {
+      console.log(`[escalation] to ${message.to}: ${message.subject}\n${message.body}`);
+      return { provider: "log" };
+    },
+  };
+}
+
+// ESCALATION_SMS_PROVIDER ("twilio" or "log") and ESCALATION_EMAIL_PROVIDER
+// ("resend" or "log") select the providers; each defaults to the real
+// service when its credentials are configured and to the log channel
+// otherwise.
+export function getEscalationChannel(channel: ContactChannel): EscalationChannel {
+  if (channel === "sms") {
+    const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+    const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+    const from = Deno.env.get("TWILIO_FROM_NUMBER");
+    const provider = Deno.env.get("ESCALATION_SMS_PROVIDER") || (accountSid ? "twilio" : "log");
+
+    switch (provider) {
+      case "twilio":
+        if (!accountSid || !authToken || !from) {
+          throw new Error("TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER are required for the twilio provider");
+        }
+        return createTwilioSmsChannel({ accountSid, authToken, from });
+      case "log":
+        return createLogChannel();
+      default:
+        throw new Error(`Unknown SMS provider: ${provider}`);
+    }
+  }
+
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  const from = Deno.env.get("ESCALATION_EMAIL_FROM");
+  const provider = Deno.env.get("ESCALATION_EMAIL_PROVIDER") || (apiKey ? "resend" : "log");
+
+  switch (provider) {
+    case "resend":
+      if (!apiKey || !from) {
+        throw new Error("RESEND_API_KEY and ESCALATION_EMAIL_FROM are required for the resend provider");
+      }
+      return createResendEmailChannel({ apiKey, from });
+    case "log":
+      return createLogChannel();
+    default:
+      throw new Error(`Unknown email provider: ${provider}`);
+  }
+}
+
+// The contact learns who needs them and what to do, nothing about why: the
+// details of the check stay with the user.
+export function escalationMessage(
+  to: string,
+  contactName: string,
+  requesterName: string,
+  reason: "requested" | "unanswered"
+): OutgoingMessage {
+  const situation = reason === "requested"
+    ? `${requesterName} has asked for support right now.`
+    : `${requesterName} hasn't answered a wellbeing check-in and may need support.`;
+
+  return {
+    to,
+    subject: `${requesterName} may need you`,
+    body: `Hi ${contactName}, ${situation} You're one of their trusted contacts. ` +
+      "Please reach out to them when you can. If you believe they are in immediate danger, call your local emergency number.",
+  };
+}
+
+export function consentRequestMessage(
+  to: string,
+  contactName: string,
+  requesterName: string,
+  consentUrl: string
+): OutgoingMessage {
+  return {
+    to,
+    subject: `${requesterName} would like you as a trusted contact`,
+    body: `Hi ${contactName}, ${requesterName} would like to add you as a trusted contact in PairCalm. ` +
+      "If they ever ask for help, or don't answer a wellbeing check-in, we'll send you a short message asking you to reach out. " +
+      `You won't be contacted unless you agree: ${consentUrl}`,
+  };
+}
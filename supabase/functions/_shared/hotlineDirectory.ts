@@ -0,0 +1,350 @@
+// Crisis hotline directory: working out which country's hotlines to show,
+// and parsing and validating hotline datasets for import. Used by the web
+// app (crisisService) and the importHotlines.ts tool. Keep it free of
+// Deno/browser specific APIs so both runtimes can import it.
+
+export type HotlineType = "mental_health" | "domestic_violence" | "suicide_prevention" | "relationship";
+
+export const HOTLINE_TYPES: HotlineType[] = ["mental_health", "domestic_violence", "suicide_prevention", "relationship"];
+
+export const DEFAULT_HOTLINE_COUNTRY = "US";
+
+// A hotline as stored in crisis_hotlines. Every entry can be reached by at
+// least one of phone, text or chat.
+export interface HotlineRecord {
+  country: string;
+  name: string;
+  type: HotlineType;
+  phone: string | null;
+  sms_number: string | null;
+  sms_keyword: string | null;
+  chat_url: string | null;
+  website: string;
+  description: string;
+  available_24_7: boolean;
+  languages: string[];
+  verified_on: string;
+  is_active: boolean;
+}
+
+export interface HotlineValidationError {
+  // 1-based position in the dataset (the CSV header isn't counted)
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface HotlineValidationResult {
+  records: HotlineRecord[];
+  errors: HotlineValidationError[];
+}
+
+// The country a time zone is in, for zones that identify one. Zones shared
+// by several countries (e.g. Etc/UTC) are left out on purpose.
+const TIME_ZONE_COUNTRIES: Record<string, string> = {
+  "America/New_York": "US",
+  "America/Chicago": "US",
+  "America/Denver": "US",
+  "America/Phoenix": "US",
+  "America/Los_Angeles": "US",
+  "America/Anchorage": "US",
+  "America/Detroit": "US",
+  "America/Boise": "US",
+  "America/Indiana/Indianapolis": "US",
+  "America/Kentucky/Louisville": "US",
+  "Pacific/Honolulu": "US",
+  "America/Toronto": "CA",
+  "America/Vancouver": "CA",
+  "America/Edmonton": "CA",
+  "America/Winnipeg": "CA",
+  "America/Halifax": "CA",
+  "America/St_Johns": "CA",
+  "America/Regina": "CA",
+  "America/Mexico_City": "MX",
+  "America/Monterrey": "MX",
+  "America/Tijuana": "MX",
+  "America/Cancun": "MX",
+  "America/Sao_Paulo": "BR",
+  "America/Manaus": "BR",
+  "America/Fortaleza": "BR",
+  "America/Recife": "BR",
+  "America/Argentina/Buenos_Aires": "AR",
+  "America/Santiago": "CL",
+  "America/Bogota": "CO",
+  "America/Lima": "PE",
+  "America/Caracas": "VE",
+  "America/Montevideo": "UY",
+  "America/Guatemala": "GT",
+  "America/Costa_Rica": "CR",
+  "America/Panama": "PA",
+  "America/Puerto_Rico": "PR",
+  "America/Jamaica": "JM",
+  "Europe/London": "GB",
+  "Europe/Dublin": "IE",
+  "Europe/Paris": "FR",
+  "Europe/Berlin": "DE",
+  "Europe/Madrid": "ES",
+  "Atlantic/Canary": "ES",
+  "Europe/Lisbon": "PT",
+  "Europe/Rome": "IT",
+  "Europe/Amsterdam": "NL",
+  "Europe/Brussels": "BE",
+  "Europe/Luxembourg": "LU",
+  "Europe/Zurich": "CH",
+  "Europe/Vienna": "AT",
+  "Europe/Copenhagen": "DK",
+  "Europe/Oslo": "NO",
+  "Europe/Stockholm": "SE",
+  "Europe/Helsinki": "FI",
+  "Atlantic/Reykjavik": "IS",
+  "Europe/Warsaw": "PL",
+  "Europe/Prague": "CZ",
+  "Europe/Bratislava": "SK",
+  "Europe/Budapest": "HU",
+  "Europe/Bucharest": "RO",
+  "Europe/Sofia": "BG",
+  "Europe/Athens": "GR",
+  "Europe/Istanbul": "TR",
+  "Europe/Kiev": "UA",
+  "Europe/Kyiv": "UA",
+  "Europe/Vilnius": "LT",
+  "Europe/Riga": "LV",
+  "Europe/Tallinn": "EE",
+  "Europe/Zagreb": "HR",
+  "Europe/Belgrade": "RS",
+  "Europe/Ljubljana": "SI",
+  "Europe/Malta": "MT",
+  "Asia/Nicosia": "CY",
+  "Europe/Moscow": "RU",
+  "Asia/Jerusalem": "IL",
+  "Asia/Dubai": "AE",
+  "Asia/Riyadh": "SA",
+  "Asia/Qatar": "QA",
+  "Asia/Kolkata": "IN",
+  "Asia/Calcutta": "IN",
+  "Asia/Karachi": "PK",
+  "Asia/Dhaka": "BD",
+  "Asia/Colombo": "LK",
+  "Asia/Kathmandu": "NP",
+  "Asia/Bangkok": "TH",
+  "Asia/Ho_Chi_Minh": "VN",
+  "Asia/Jakarta": "ID",
+  "Asia/Kuala_Lumpur": "MY",
+  "Asia/Singapore": "SG",
+  "Asia/Manila": "PH",
+  "Asia/Hong_Kong": "HK",
+  "Asia/Taipei": "TW",
+  "Asia/Shanghai": "CN",
+  "Asia/Seoul": "KR",
+  "Asia/Tokyo": "JP",
+  "Australia/Sydney": "AU",
+  "Australia/Melbourne": "AU",
+  "Australia/Brisbane": "AU",
+  "Australia/Adelaide": "AU",
+  "Australia/Perth": "AU",
+  "Australia/Hobart": "AU",
+  "Australia/Darwin": "AU",
+  "Pacific/Auckland": "NZ",
+  "Africa/Johannesburg": "ZA",
+  "Africa/Lagos": "NG",
+  "Africa/Nairobi": "KE",
+  "Africa/Cairo": "EG",
+  "Africa/Casablanca": "MA",
+  "Africa/Accra": "GH",
+};
+
+export function countryForTimeZone(timeZone: string | null | undefined): string | null {
+  return (timeZone && TIME_ZONE_COUNTRIES[timeZone]) || null;
+}
+
+// Region from a locale tag, e.g. en-GB -> GB
+export function countryForLocale(locale: string | null | undefined): string | null {
+  const region = locale?.split(/[-_]/).find((part, i) => i > 0 && /^[A-Za-z]{2}$/.test(part));
+  return region ? region.toUpperCase() : null;
+}
+
+// Most specific source first: the user's own choice, then the time zone on
+// their profile, then the browser's locale
+export function resolveHotlineCountry(sources: {
+  override?: string | null;
+  timeZone?: string | null;
+  locale?: string | null;
+}): string {
+  return (
+    sources.override?.toUpperCase() ||
+    countryForTimeZone(sources.timeZone) ||
+    countryForLocale(sources.locale) ||
+    DEFAULT_HOTLINE_COUNTRY
+  );
+}
+
+// Minimal RFC 4180 CSV: quoted fields may contain commas, newlines and
+// doubled quotes. Returns one object per data row keyed by the header.
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...data] = rows.filter((r) => r.some((value) => value.trim() !== ""));
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim().toLowerCase());
+  return data.map((values) => Object.fromEntries(keys.map((key, i) => [key, (values[i] ?? "").trim()])));
+}
+
+// Accepts a JSON array of hotlines, or an object with a `hotlines` array
+export function parseHotlineJson(text: string): Record<string, unknown>[] {
+  const parsed = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : parsed?.hotlines;
+  if (!Array.isArray(list)) {
+    throw new Error("Expected a JSON array of hotlines or an object with a `hotlines` array");
+  }
+  return list;
+}
+
+const asText = (value: unknown): string => (value === undefined || value === null ? "" : String(value).trim());
+
+const parseBoolean = (value: unknown): boolean | null => {
+  if (typeof value === "boolean") return value;
+  const text = asText(value).toLowerCase();
+  if (text === "") return false;
+  if (["true", "yes", "y", "1"].includes(text)) return true;
+  if (["false", "no", "n", "0"].includes(text)) return false;
+  return null;
+};
+
+const isUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+// Region codes Intl knows but that aren't countries (EU, UN, pseudo-locales,
+// "Unknown Region"). Codes Intl doesn't know at all come back unchanged.
+const REGION_NAMES = new Intl.DisplayNames(["en"], { type: "region" });
+const NOT_COUNTRIES = new Set(["EU", "EZ", "QO", "UN", "XA", "XB", "ZZ"]);
+
+const isKnownCountry = (code: string) => !NOT_COUNTRIES.has(code) && REGION_NAMES.of(code) !== code;
+
+// Digits with the usual separators, e.g. 988, 116 123, +44 808 808 4994
+const PHONE_PATTERN = /^\+?[0-9][0-9 ().-]*$/;
+
+// Validates rows parsed from CSV or JSON. Rows with errors are left out of
+// `records`; a dataset should only be applied when `errors` is empty.
+export function validateHotlines(
+  rows: Record<string, unknown>[],
+  today: string = new Date().toISOString().slice(0, 10)
+): HotlineValidationResult {
+  const records: HotlineRecord[] = [];
+  const errors: HotlineValidationError[] = [];
+  const seen = new Map<string, number>();
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const rowErrors: HotlineValidationError[] = [];
+    const fail = (field: string, message: string) => rowErrors.push({ row, field, message });
+
+    const country = asText(raw.country).toUpperCase();
+    const name = asText(raw.name);
+    const type = asText(raw.type).toLowerCase() as HotlineType;
+    const phone = asText(raw.phone);
+    const smsNumber = asText(raw.sms_number);
+    const smsKeyword = asText(raw.sms_keyword);
+    const chatUrl = asText(raw.chat_url);
+    const website = asText(raw.website);
+    const verifiedOn = asText(raw.verified_on);
+    const available = parseBoolean(raw.available_24_7);
+    const active = raw.is_active === undefined || asText(raw.is_active) === "" ? true : parseBoolean(raw.is_active);
+    const languages = Array.isArray(raw.languages)
+      ? raw.languages.map(asText).filter(Boolean)
+      : asText(raw.languages).split(/[;|]/).map((l) => l.trim()).filter(Boolean);
+
+    if (!/^[A-Z]{2}$/.test(country)) fail("country", "Must be a two-letter ISO country code");
+    else if (!isKnownCountry(country)) fail("country", `Unknown country code ${country}`);
+    if (!name) fail("name", "Required");
+    if (name.length > 200) fail("name", "Must be 200 characters or fewer");
+    if (!HOTLINE_TYPES.includes(type)) fail("type", `Must be one of ${HOTLINE_TYPES.join(", ")}`);
+    if (!phone && !smsNumber && !chatUrl) fail("phone", "Needs at least one of phone, sms_number or chat_url");
+    if (phone && !PHONE_PATTERN.test(phone)) fail("phone", "Must be a phone number");
+    if (smsNumber && !PHONE_PATTERN.test(smsNumber)) fail("sms_number", "Must be a phone number or short code");
+    if (smsKeyword && !smsNumber) fail("sms_keyword", "Needs an sms_number");
+    if (chatUrl && !isUrl(chatUrl)) fail("chat_url", "Must be an http(s) URL");
+    if (website && !isUrl(website)) fail("website", "Must be an http(s) URL");
+    if (available === null) fail("available_24_7", "Must be true or false");
+    if (active === null) fail("is_active", "Must be true or false");
+    if (languages.some((l) => !/^[a-z]{2,3}$/i.test(l))) fail("languages", "Must be ISO language codes, e.g. en;es");
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(verifiedOn) || Number.isNaN(Date.parse(verifiedOn))) {
+      fail("verified_on", "Must be the date the entry was checked, as YYYY-MM-DD");
+    } else if (verifiedOn > today) {
+      fail("verified_on", "Can't be in the future");
+    }
+
+    const key = `${country}:${name.toLowerCase()}`;
+    if (name && seen.has(key)) {
+      fail("name", `Duplicate of row ${seen.get(key)} for ${country}`);
+    } else {
+      seen.set(key, row);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    records.push({
+      country,
+      name,
+      type,
+      phone: phone || null,
+      sms_number: smsNumber || null,
+      sms_keyword: smsKeyword || null,
+      chat_url: chatUrl || null,
+      website,
+      description: asText(raw.description),
+      available_24_7: available as boolean,
+      languages: languages.map((l) => l.toLowerCase()),
+      verified_on: verifiedOn,
+      is_active: active as boolean,
+    });
+  });
+
+  return { records, errors };
+}
@@ -0,0 +1,104 @@
+// Validates a crisis hotline dataset and, with --apply, loads it into
+// crisis_hotlines.
+//
+//   deno run --allow-read --allow-env --allow-net supabase/functions/_shared/importHotlines.ts hotlines.csv [--apply] [--deactivate-missing]
+//
+// The file can be CSV (with a header row) or JSON (an array, or an object
+// with a `hotlines` array). Columns: country, name, type, phone, sms_number,
+// sms_keyword, chat_url, website, description, available_24_7, languages
+// (separated by ";"), verified_on (YYYY-MM-DD) and optionally is_active.
+//
+// Without --apply the dataset is only validated. Nothing is written if any
+// row is invalid. Entries are matched on country and name, so re-importing
+// an updated dataset updates them in place. --deactivate-missing also
+// retires active hotlines in the imported countries that the dataset no
+// longer lists. --apply needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+
+import { createClient } from "npm:@supabase/supabase-js@2.39.3";
+import { parseCsv, parseHotlineJson, validateHotlines } from "./hotlineDirectory.ts";
+
+const args = Deno.args.filter((arg) => !arg.startsWith("--"));
+const apply = Deno.args.includes("--apply");
+const deactivateMissing = Deno.args.includes("--deactivate-missing");
+const [path] = args;
+
+if (!path) {
+  console.error("Usage: importHotlines.ts <file.csv|file.json> [--apply] [--deactivate-missing]");
+  Deno.exit(2);
+}
+
+const text = await Deno.readTextFile(path);
+const rows = path.toLowerCase().endsWith(".json") ? parseHotlineJson(text) : parseCsv(text);
+const { records, errors } = validateHotlines(rows);
+
+const countries = [...new Set(records.map((r) => r.country))].sort();
+console.log(`${rows.length} rows, ${records.length} valid, ${errors.length} errors`);
+console.log(`Countries: ${countries.join(", ") || "none"}`);
+
+if (errors.length > 0) {
+  for (const error of errors) {
+    console.error(`  row ${error.row} ${error.field}: ${error.message}`);
+  }
+  Deno.exit(1);
+}
+
+if (!apply) {
+  console.log("Dataset is valid. Run again with --apply to import it.");
+  Deno.exit(0);
+}
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL");
+const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+if (!supabaseUrl || !supabaseKey) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required with --apply");
+  Deno.exit(2);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const { error: upsertError } = await supabase
+  .from("crisis_hotlines")
+  .upsert(
+    records.map((record) => ({ ...record, updated_at: new Date().toISOString() })),
+    { onConflict: "country,name" }
+  );
+
+if (upsertError) {
+  console.error("Import failed:", upsertError.message);
+  Deno.exit(1);
+}
+
+console.log(`Imported ${records.length} hotlines`);
+
+if (deactivateMissing) {
+  const { data: existing, error: existingError } = await supabase
+    .from("crisis_hotlines")
+    .select("id, country, name")
+    .in("country", countries)
+    .eq("is_active", true);
+
+  if (existingError) {
+    console.error("Couldn't load existing hotlines:", existingError.message);
+    Deno.exit(1);
+  }
+
+  const listed = new Set(records.map((r) => `${r.country}:${r.name}`));
+  const missing = (existing || []).filter((h) => !listed.has(`${h.country}:${h.name}`));
+
+  if (missing.length > 0) {
+    const { error: deactivateError } = await supabase
+      .from("crisis_hotlines")
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .in("id", missing.map((h) => h.id));
+
+    if (deactivateError) {
+      console.error("Couldn't deactivate missing hotlines:", deactivateError.message);
+      Deno.exit(1);
+    }
+  }
+
+  for (const hotline of missing) {
+    console.log(`  deactivated ${hotline.country} ${hotline.name}`);
+  }
+  console.log(`Deactivated ${missing.length} hotlines no longer in the dataset`);
+}
@@ -0,0 +1,285 @@
+// Crisis intervention rules: which interventions a crisis score triggers. The
+// rules live in the crisis_intervention_rules table so admins can tune them
+// without a deploy; this module is the single evaluator used by both
+// daily-crisis-scoring and the web app (crisisService). Keep it free of
+// Deno/browser specific APIs so both runtimes can import it.
+
+export type ScoreSeverity = "low" | "moderate" | "high" | "critical";
+
+export type InterventionType =
+  | "cooling_off"
+  | "emergency_therapy"
+  | "crisis_hotline"
+  | "ai_session"
+  | "safety_check";
+
+export type InterventionSeverity = "moderate" | "high" | "critical";
+
+export type RuleMetric =
+  | "red_zone_days"
+  | "high_risk_messages"
+  | "gottman_violations"
+  | "disengagement_hours"
+  | "conflict_frequency";
+
+export type RuleOperator = ">=" | ">" | "<=" | "<" | "=";
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  operator: RuleOperator;
+  value: number;
+}
+
+// Mirrors a crisis_intervention_rules row
+export interface InterventionRule {
+  rule_key: string;
+  score_severities: ScoreSeverity[];
+  conditions: RuleCondition[];
+  intervention_type: InterventionType;
+  intervention_severity: InterventionSeverity;
+  title: string;
+  message: string;
+  action_required: boolean;
+  priority: number;
+  expires_after_hours: number;
+  escalate_after: number | null;
+}
+
+export type ScoreSnapshot = { severity: ScoreSeverity } & Record<RuleMetric, number>;
+
+const SCORE_SEVERITIES: ScoreSeverity[] = ["low", "moderate", "high", "critical"];
+const INTERVENTION_TYPES: InterventionType[] = [
+  "cooling_off",
+  "emergency_therapy",
+  "crisis_hotline",
+  "ai_session",
+  "safety_check",
+];
+const INTERVENTION_SEVERITIES: InterventionSeverity[] = ["moderate", "high", "critical"];
+const RULE_METRICS: RuleMetric[] = [
+  "red_zone_days",
+  "high_risk_messages",
+  "gottman_violations",
+  "disengagement_hours",
+  "conflict_frequency",
+];
+const RULE_OPERATORS: RuleOperator[] = [">=", ">", "<=", "<", "="];
+
+// Same rules as the seed rows in the crisis intervention rules migrations.
+// Only used when the table can't be read, so a database hiccup never stops
+// critical alerts.
+export const DEFAULT_INTERVENTION_RULES: InterventionRule[] = [
+  {
+    rule_key: "critical_hotline",
+    score_severities: ["critical"],
+    conditions: [],
+    intervention_type: "crisis_hotline",
+    intervention_severity: "critical",
+    title: "⚠️ Critical Alert: Immediate Support Needed",
+    message:
+      "Your relationship health indicators suggest you may be in crisis. Please consider reaching out to a crisis hotline or emergency therapist immediately. Your safety and well-being are the top priority.",
+    action_required: true,
+    priority: 10,
+    expires_after_hours: 36,
+    escalate_after: null,
+  },
+  {
+    rule_key: "critical_sustained_red_zone",
+    score_severities: ["critical"],
+    conditions: [{ metric: "red_zone_days", operator: ">=", value: 3 }],
+    intervention_type: "cooling_off",
+    intervention_severity: "critical",
+    title: "Mandatory 24-Hour Break",
+    message:
+      "Both partners have been in red zone for 3+ days. A mandatory 24-hour cooling-off period is strongly recommended to prevent further escalation.",
+    action_required: true,
+    priority: 20,
+    expires_after_hours: 36,
+    escalate_after: null,
+  },
+  {
+    rule_key: "high_risk_messages",
+    score_severities: ["high"],
+    conditions: [{ metric: "high_risk_messages", operator: ">=", value: 5 }],
+    intervention_type: "ai_session",
+    intervention_severity: "high",
+    title: "⚠️ Communication Pattern Alert",
+    message:
+      "We've detected 5+ high-risk messages in the past week. Consider taking a break from messaging and scheduling an AI coaching session to improve communication patterns.",
+    action_required: false,
+    priority: 30,
+    expires_after_hours: 72,
+    escalate_after: 3,
+  },
+  {
+    rule_key: "high_gottman_violations",
+    score_severities: ["high"],
+    conditions: [{ metric: "gottman_violations", operator: ">=", value: 5 }],
+    intervention_type: "emergency_therapy",
+    intervention_severity: "high",
+    title: "Four Horsemen Alert",
+    message:
+      "Multiple instances of criticism, contempt, defensiveness, or stonewalling detected. These patterns can predict relationship distress. Consider booking an emergency therapy session.",
+    action_required: false,
+    priority: 40,
+    expires_after_hours: 72,
+    escalate_after: 3,
+  },
+  {
+    rule_key: "high_disengagement",
+    score_severities: ["high"],
+    conditions: [{ metric: "disengagement_hours", operator: ">=", value: 48 }],
+    intervention_type: "safety_check",
+    intervention_severity: "high",
+    title: "Partner Disengagement Detected",
+    message:
+      "Your partner hasn't checked in for over 48 hours. We're sending them a safety check to make sure they're okay.",
+    action_required: false,
+    priority: 50,
+    expires_after_hours: 72,
+    escalate_after: 3,
+  },
+  {
+    rule_key: "moderate_conflict_frequency",
+    score_severities: ["moderate"],
+    conditions: [{ metric: "conflict_frequency", operator: ">=", value: 5 }],
+    intervention_type: "ai_session",
+    intervention_severity: "moderate",
+    title: "Conflict Frequency Increasing",
+    message:
+      "You've logged 5+ conflicts this week. Consider using repair tools or scheduling an AI coaching session to work through these patterns.",
+    action_required: false,
+    priority: 60,
+    expires_after_hours: 72,
+    escalate_after: 3,
+  },
+];
+
+function isRuleCondition(value: unknown): value is RuleCondition {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return RULE_METRICS.includes(candidate.metric as RuleMetric)
+    && RULE_OPERATORS.includes(candidate.operator as RuleOperator)
+    && typeof candidate.value === "number"
+    && Number.isFinite(candidate.value);
+}
+
+// Guards against hand-edited rows: a rule with an unknown metric, operator or
+// intervention type is skipped rather than matching unexpectedly.
+export function isInterventionRule(value: unknown): value is InterventionRule {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.rule_key === "string"
+    && Array.isArray(candidate.score_severities)
+    && candidate.score_severities.length > 0
+    && candidate.score_severities.every((s) => SCORE_SEVERITIES.includes(s as ScoreSeverity))
+    && Array.isArray(candidate.conditions)
+    && candidate.conditions.every(isRuleCondition)
+    && INTERVENTION_TYPES.includes(candidate.intervention_type as InterventionType)
+    && INTERVENTION_SEVERITIES.includes(candidate.intervention_severity as InterventionSeverity)
+    && typeof candidate.title === "string"
+    && typeof candidate.message === "string"
+    && typeof candidate.action_required === "boolean"
+    && typeof candidate.priority === "number"
+    && typeof candidate.expires_after_hours === "number"
+    && candidate.expires_after_hours > 0
+    && (candidate.escalate_after === null || typeof candidate.escalate_after === "number");
+}
+
+export function toInterventionRules(rows: unknown[]): InterventionRule[] {
+  return rows.filter(isInterventionRule);
+}
+
+function compare(actual: number, operator: RuleOperator, expected: number): boolean {
+  switch (operator) {
+    case ">=":
+      return actual >= expected;
+    case ">":
+      return actual > expected;
+    case "<=":
+      return actual <= expected;
+    case "<":
+      return actual < expected;
+    case "=":
+      return actual === expected;
+  }
+}
+
+// A rule matches when the score's severity is one it applies to and every
+// condition holds. A rule with no conditions matches on severity alone.
+export function matchesRule(rule: InterventionRule, score: ScoreSnapshot): boolean {
+  return rule.score_severities.includes(score.severity)
+    && rule.conditions.every((condition) =>
+      compare(Number(score[condition.metric]) || 0, condition.operator, condition.value)
+    );
+}
+
+// Matching rules in priority order (lowest first)
+export function evaluateInterventionRules(rules: InterventionRule[], score: ScoreSnapshot): InterventionRule[] {
+  return rules
+    .filter((rule) => matchesRule(rule, score))
+    .sort((a, b) => a.priority - b.priority);
+}
+
+// One open intervention per couple and dedup key: the same rule firing again
+// refreshes (and eventually escalates) that row instead of adding another.
+export function interventionDedupKey(rule: InterventionRule): string {
+  return `${rule.intervention_type}:${rule.rule_key}`;
+}
+
+// Arguments for the record_crisis_intervention RPC. The wording, severity and
+// expiry are looked up from the rule server-side, so only its key is sent.
+export function toRecordInterventionParams(coupleId: string, crisisScoreId: string, rule: InterventionRule) {
+  return {
+    p_couple_id: coupleId,
+    p_crisis_score_id: crisisScoreId,
+    p_rule_key: rule.rule_key,
+  };
+}
+
+// An open intervention only counts another occurrence once per scoring
+// period, however often the score is recalculated in between. Same interval
+// as record_crisis_intervention.
+export const OCCURRENCE_INTERVAL_HOURS = 20;
+
+export interface OpenIntervention {
+  severity: InterventionSeverity;
+  occurrence_count: number;
+  last_triggered_at: string;
+}
+
+export interface InterventionRepeat {
+  occurrenceCount: number;
+  severity: InterventionSeverity;
+  escalated: boolean;
+}
+
+// What record_crisis_intervention does when a rule fires again for an open
+// intervention: within the period nothing changes; otherwise the occurrence
+// is counted, the severity never drops below the rule's, and every
+// `escalate_after` occurrences it steps up one level.
+export function repeatIntervention(
+  existing: OpenIntervention,
+  rule: InterventionRule,
+  now: Date = new Date()
+): InterventionRepeat {
+  const hoursSince = (now.getTime() - new Date(existing.last_triggered_at).getTime()) / (60 * 60 * 1000);
+  if (hoursSince < OCCURRENCE_INTERVAL_HOURS) {
+    return { occurrenceCount: existing.occurrence_count, severity: existing.severity, escalated: false };
+  }
+
+  const occurrenceCount = existing.occurrence_count + 1;
+  let level = Math.max(
+    INTERVENTION_SEVERITIES.indexOf(existing.severity),
+    INTERVENTION_SEVERITIES.indexOf(rule.intervention_severity)
+  );
+
+  const escalated = rule.escalate_after !== null
+    && occurrenceCount % rule.escalate_after === 0
+    && INTERVENTION_SEVERITIES[level] !== "critical";
+  if (escalated) {
+    level += 1;
+  }
+
+  return { occurrenceCount, severity: INTERVENTION_SEVERITIES[level], escalated };
+}
@@ -0,0 +1,309 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// JSON Schema function definition in the OpenAI "tools" format
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface CompletionOptions {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  tools?: ToolDefinition[];
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  toolCalls: ToolCall[];
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(messages: ChatMessage[], options: CompletionOptions): Promise<CompletionResult>;
+  stream(
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    signal?: AbortSignal
+  ): AsyncGenerator<string | ToolCall, void, unknown>;
+}
+
+export interface LLMFunctionConfig {
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+}
+
+interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_RETRIES = 2;
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toOpenAITools(tools?: ToolDefinition[]) {
+  if (!tools || tools.length === 0) return {};
+  return {
+    tools: tools.map((tool) => ({ type: "function", function: tool })),
+  };
+}
+
+// Tool arguments arrive as a JSON string; a malformed call is dropped rather
+// than failing the whole reply.
+function parseToolCall(name: string, rawArguments: string): ToolCall | null {
+  try {
+    const args = rawArguments ? JSON.parse(rawArguments) : {};
+    return typeof args === "object" && args !== null ? { name, arguments: args } : null;
+  } catch {
+    console.error(`Dropping tool call ${name} with malformed arguments`);
+    return null;
+  }
+}
+
+// Any endpoint speaking the OpenAI chat completions API: OpenAI itself,
+// Azure/OpenRouter-style gateways, or the local mock server.
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const baseUrl = options.baseUrl.replace(/\/$/, "");
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const name = options.name || "openai";
+
+  return {
+    name,
+    async complete(messages: ChatMessage[], completion: CompletionOptions): Promise<CompletionResult> {
+      let lastError: Error | null = null;
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (attempt > 0) {
+          await sleep(500 * 2 ** (attempt - 1));
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+        let response: Response;
+        try {
+          response = await fetch(`${baseUrl}/chat/completions`, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(options.apiKey ? { "Authorization": `Bearer ${options.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+              model: completion.model,
+              messages,
+              temperature: completion.temperature,
+              max_tokens: completion.maxTokens,
+              ...(completion.json ? { response_format: { type: "json_object" } } : {}),
+              ...toOpenAITools(completion.tools),
+            }),
+            signal: controller.signal,
+          });
+        } catch (error) {
+          lastError = error.name === "AbortError"
+            ? new Error(`LLM request timed out after ${timeoutMs}ms`)
+            : error;
+          continue;
+        } finally {
+          clearTimeout(timer);
+        }
+
+        if (!response.ok) {
+          const errorData = await response.text();
+          console.error(`LLM API error (${name}):`, errorData);
+          lastError = new Error(`LLM API error: ${response.status}`);
+          if (isRetryableStatus(response.status)) continue;
+          throw lastError;
+        }
+
+        const data = await response.json();
+        const message = data.choices?.[0]?.message;
+        const toolCalls = (message?.tool_calls || [])
+          .map((call: any) => parseToolCall(call.function?.name, call.function?.arguments))
+          .filter((call: ToolCall | null): call is ToolCall => call !== null);
+
+        // Content is null when the model only calls tools
+        const content = message?.content ?? (toolCalls.length > 0 ? "" : undefined);
+        if (typeof content !== "string") {
+          throw new Error("LLM API returned no message content");
+        }
+
+        return { content, model: data.model || completion.model, toolCalls };
+      }
+
+      throw lastError || new Error("LLM request failed");
+    },
+
+    // Yields content deltas, then any tool calls once the model has finished.
+    // Not retried: a partial answer can't be replayed.
+    async *stream(
+      messages: ChatMessage[],
+      completion: CompletionOptions,
+      signal?: AbortSignal
+    ): AsyncGenerator<string | ToolCall, void, unknown> {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      signal?.addEventListener("abort", () => controller.abort());
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(options.apiKey ? { "Authorization": `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: completion.model,
+            messages,
+            temperature: completion.temperature,
+            max_tokens: completion.maxTokens,
+            stream: true,
+            ...toOpenAITools(completion.tools),
+          }),
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.text();
+        console.error(`LLM API error (${name}):`, errorData);
+        throw new Error(`LLM API error: ${response.status}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      // Tool call names and arguments are streamed in fragments keyed by index
+      const pendingCalls: { name: string; arguments: string }[] = [];
+
+      try {
+        reading: while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += value;
+          const lines = buffer.split("\n");
+          buffer = lines.pop() || "";
+
+          for (const line of lines) {
+            const payload = line.replace(/^data:\s*/, "").trim();
+            if (!line.startsWith("data:") || !payload) continue;
+            if (payload === "[DONE]") break reading;
+
+            const delta = JSON.parse(payload).choices?.[0]?.delta;
+            if (delta?.content) yield delta.content;
+
+            for (const fragment of delta?.tool_calls || []) {
+              const pending = pendingCalls[fragment.index] ||= { name: "", arguments: "" };
+              pending.name += fragment.function?.name || "";
+              pending.arguments += fragment.function?.arguments || "";
+            }
+          }
+        }
+
+        for (const pending of pendingCalls) {
+          const call = pending && parseToolCall(pending.name, pending.arguments);
+          if (call) yield call;
+        }
+      } finally {
+        reader.releaseLock();
+        controller.abort();
+      }
+    },
+  };
+}
+
+// LLM_PROVIDER selects the adapter ("openai" or "mock"). The mock provider
+// talks to the local mock server (see mockLLMServer.ts) at LLM_BASE_URL.
+export function getLLMProvider(): LLMProvider {
+  const provider = Deno.env.get("LLM_PROVIDER") || "openai";
+  const timeoutMs = Number(Deno.env.get("LLM_TIMEOUT_MS")) || undefined;
+  const maxRetries = Deno.env.get("LLM_MAX_RETRIES") !== undefined
+    ? Number(Deno.env.get("LLM_MAX_RETRIES"))
+    : undefined;
+
+  switch (provider) {
+    case "openai": {
+      const apiKey = Deno.env.get("LLM_API_KEY") || Deno.env.get("OPENAI_API_KEY");
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY is required for the openai LLM provider");
+      }
+      return createOpenAICompatibleProvider({
+        name: "openai",
+        baseUrl: Deno.env.get("LLM_BASE_URL") || "https://api.openai.com/v1",
+        apiKey,
+        timeoutMs,
+        maxRetries,
+      });
+    }
+    case "mock":
+      return createOpenAICompatibleProvider({
+        name: "mock",
+        baseUrl: Deno.env.get("LLM_BASE_URL") || "http://host.docker.internal:8787/v1",
+        timeoutMs,
+        maxRetries: 0,
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
+
+// Per-function overrides, e.g. AI_COACH_MODEL or MESSAGE_TONE_ANALYSIS_TEMPERATURE.
+export function getLLMConfig(functionName: string, defaults: LLMFunctionConfig): LLMFunctionConfig {
+  const prefix = functionName.toUpperCase().replace(/-/g, "_");
+  const temperature = Deno.env.get(`${prefix}_TEMPERATURE`);
+  const maxTokens = Deno.env.get(`${prefix}_MAX_TOKENS`);
+
+  return {
+    model: Deno.env.get(`${prefix}_MODEL`) || defaults.model,
+    temperature: temperature ? Number(temperature) : defaults.temperature,
+    maxTokens: maxTokens ? Number(maxTokens) : defaults.maxTokens,
+  };
+}
+
+// Models sometimes wrap JSON in markdown fences even in JSON mode.
+export function parseJSONContent(content: string): unknown {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  return JSON.parse(trimmed);
+}
+
+export async function completeJSON<T>(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  config: LLMFunctionConfig,
+  validate: (value: unknown) => value is T
+): Promise<T> {
+  const result = await provider.complete(messages, { ...config, json: true });
+  const parsed = parseJSONContent(result.content);
+
+  if (!validate(parsed)) {
+    throw new Error(`LLM response from ${provider.name} did not match the expected shape`);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,148 @@
+// Local OpenAI-compatible mock for running the AI functions offline.
+//
+//   deno run --allow-net --allow-read --allow-env supabase/functions/_shared/mockLLMServer.ts
+//
+// then serve functions with LLM_PROVIDER=mock (and LLM_BASE_URL if the server
+// isn't reachable at http://host.docker.internal:8787/v1). Responses are
+// deterministic: the first fixture whose `match` appears in any message wins.
+// Extra fixtures can be loaded from the JSON file at LLM_MOCK_FIXTURES. A
+// fixture's `toolCalls` are only returned when the request offers tools.
+
+interface MockFixture {
+  match: string;
+  response: string | Record<string, unknown>;
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+const DEFAULT_FIXTURES: MockFixture[] = [
+  {
+    match: "Four Horsemen",
+    response: {
+      riskLevel: "low",
+      escalationRisk: false,
+      gottmanWarnings: [],
+      tone: "Neutral (mock)",
+      suggestions: [],
+      shouldDelay: false,
+    },
+  },
+  {
+    match: "I need a break",
+    response: "Taking space can be a kind thing to do for both of you. Want me to start a cooling-off period? (mock)",
+    toolCalls: [
+      {
+        name: "start_cooling_off",
+        arguments: { reason: "Taking space to calm down", duration_hours: 2 },
+      },
+    ],
+  },
+  {
+    match: "relationship coach",
+    response: "That sounds really hard. Let's take one slow breath together before we figure out the next step. (mock)",
+  },
+];
+
+async function loadFixtures(): Promise<MockFixture[]> {
+  const path = Deno.env.get("LLM_MOCK_FIXTURES");
+  if (!path) return DEFAULT_FIXTURES;
+
+  const custom: MockFixture[] = JSON.parse(await Deno.readTextFile(path));
+  return [...custom, ...DEFAULT_FIXTURES];
+}
+
+export function findMockFixture(
+  fixtures: MockFixture[],
+  messages: { role: string; content: string }[]
+): MockFixture | undefined {
+  return fixtures.find((f) => messages.some((m) => m.content.includes(f.match)));
+}
+
+export function findMockResponse(
+  fixtures: MockFixture[],
+  messages: { role: string; content: string }[],
+  json: boolean
+): string {
+  const fixture = findMockFixture(fixtures, messages);
+
+  if (!fixture) {
+    return json ? "{}" : "Mock response.";
+  }
+
+  return typeof fixture.response === "string"
+    ? fixture.response
+    : JSON.stringify(fixture.response);
+}
+
+if (import.meta.main) {
+  const port = Number(Deno.env.get("LLM_MOCK_PORT")) || 8787;
+  const fixtures = await loadFixtures();
+
+  Deno.serve({ port }, async (req: Request) => {
+    const url = new URL(req.url);
+    if (req.method !== "POST" || !url.pathname.endsWith("/chat/completions")) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const body = await req.json();
+    const content = findMockResponse(
+      fixtures,
+      body.messages || [],
+      body.response_format?.type === "json_object"
+    );
+    const offeredTools = new Set((body.tools || []).map((t: any) => t.function?.name));
+    const toolCalls = (findMockFixture(fixtures, body.messages || [])?.toolCalls || [])
+      .filter((call) => offeredTools.has(call.name))
+      .map((call, index) => ({
+        index,
+        id: `mock-call-${index}`,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      }));
+
+    if (body.stream) {
+      const encoder = new TextEncoder();
+      const words = content.split(/(?<= )/);
+      const stream = new ReadableStream({
+        async start(controller) {
+          for (const word of words) {
+            const chunk = { model: body.model, choices: [{ index: 0, delta: { content: word } }] };
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+            await new Promise((resolve) => setTimeout(resolve, 30));
+          }
+          if (toolCalls.length > 0) {
+            const chunk = { model: body.model, choices: [{ index: 0, delta: { tool_calls: toolCalls } }] };
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+          }
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        },
+      });
+
+      return new Response(stream, {
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        id: `mock-${Date.now()}`,
+        object: "chat.completion",
+        model: body.model,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content,
+              ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+            },
+            finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+          },
+        ],
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  });
+}
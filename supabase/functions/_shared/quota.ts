@@ -0,0 +1,65 @@
+// Per-user monthly quotas for the LLM-backed functions, enforced with the
+// consume_usage_quota RPC (see the usage metering migration).
+
+export type QuotaMetric = "ai_coach_messages" | "tone_analyses";
+
+export interface QuotaResult {
+  allowed: boolean;
+  used: number;
+  limit: number | null;
+  tier: string;
+  resets_at: string;
+}
+
+const METRIC_LABELS: Record<QuotaMetric, string> = {
+  ai_coach_messages: "AI coach messages",
+  tone_analyses: "message tone checks",
+};
+
+// Counts one call against the user's quota. Must be called with a client
+// carrying the user's JWT. Metering problems fail open: a broken counter
+// shouldn't take the coach down.
+export async function consumeQuota(supabaseClient: any, metric: QuotaMetric): Promise<QuotaResult | null> {
+  const { data, error } = await supabaseClient.rpc("consume_usage_quota", { p_metric: metric });
+
+  if (error) {
+    console.error(`Error metering ${metric}:`, error);
+    return null;
+  }
+
+  return data as QuotaResult;
+}
+
+export function isQuotaExceeded(result: QuotaResult | null): result is QuotaResult {
+  return !!result && !result.allowed;
+}
+
+export function quotaExceededResponse(
+  metric: QuotaMetric,
+  result: QuotaResult,
+  corsHeaders: Record<string, string>
+): Response {
+  const resetsAt = new Date(result.resets_at);
+  const retryAfterSeconds = Math.max(0, Math.ceil((resetsAt.getTime() - Date.now()) / 1000));
+
+  return new Response(
+    JSON.stringify({
+      error: "quota_exceeded",
+      message: `You've used all ${result.limit} ${METRIC_LABELS[metric]} included in your plan this month. ` +
+        `They reset on ${resetsAt.toDateString()}, or you can upgrade for more.`,
+      metric,
+      used: result.used,
+      limit: result.limit,
+      tier: result.tier,
+      resets_at: result.resets_at,
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Retry-After": String(retryAfterSeconds),
+      },
+    }
+  );
+}
@@ -0,0 +1,140 @@
+// Ranks coaching techniques for a user from past feedback. Pure so the
+// scoring can be reasoned about (and replayed) without a database.
+
+export interface RankableTechnique {
+  id: string;
+  name: string;
+  recommended_for_zones: string[];
+}
+
+export interface TechniqueFeedback {
+  technique_id: string;
+  was_helpful: boolean | null;
+  created_at: string;
+  is_own: boolean;
+  session_type?: string;
+}
+
+export interface RankingContext {
+  zone: string;
+  sessionType?: string;
+  timezoneOffsetMinutes?: number;
+  now?: Date;
+  explorationRate?: number;
+  random?: () => number;
+}
+
+export interface RankedTechnique<T extends RankableTechnique> {
+  technique: T;
+  score: number;
+  reasons: string[];
+}
+
+type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
+
+const OWN_WEIGHT = 1;
+const COUPLE_WEIGHT = 0.5;
+const CONTEXT_MATCH_BONUS = 0.5;
+const ZONE_MATCH_SCORE = 2;
+const DEFAULT_EXPLORATION_RATE = 0.2;
+
+function timeOfDay(date: Date, timezoneOffsetMinutes = 0): TimeOfDay {
+  const local = new Date(date.getTime() - timezoneOffsetMinutes * 60000);
+  const hour = local.getUTCHours();
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 22) return "evening";
+  return "night";
+}
+
+export function rankTechniques<T extends RankableTechnique>(
+  techniques: T[],
+  feedback: TechniqueFeedback[],
+  context: RankingContext,
+  limit = 3
+): RankedTechnique<T>[] {
+  const now = context.now || new Date();
+  const currentTimeOfDay = timeOfDay(now, context.timezoneOffsetMinutes);
+  const random = context.random || Math.random;
+
+  const ranked = techniques.map((technique) => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (technique.recommended_for_zones.includes(context.zone)) {
+      score += ZONE_MATCH_SCORE;
+      reasons.push(`Recommended for the ${context.zone} zone`);
+    }
+
+    const rated = feedback.filter(
+      (f) => f.technique_id === technique.id && f.was_helpful !== null
+    );
+    const own = rated.filter((f) => f.is_own);
+    const couple = rated.filter((f) => !f.is_own);
+
+    // Smoothed helpfulness (+1/+2 prior) so one rating doesn't dominate
+    const helpfulness = (entries: TechniqueFeedback[]) => {
+      let helpful = 1;
+      let total = 2;
+      for (const entry of entries) {
+        let weight = 1;
+        if (context.sessionType && entry.session_type === context.sessionType) {
+          weight += CONTEXT_MATCH_BONUS;
+        }
+        if (timeOfDay(new Date(entry.created_at), context.timezoneOffsetMinutes) === currentTimeOfDay) {
+          weight += CONTEXT_MATCH_BONUS;
+        }
+        total += weight;
+        if (entry.was_helpful) helpful += weight;
+      }
+      return helpful / total;
+    };
+
+    if (own.length > 0) {
+      score += (helpfulness(own) - 0.5) * 4 * OWN_WEIGHT;
+      const helpedCount = own.filter((f) => f.was_helpful).length;
+      reasons.push(`Helped you ${helpedCount} of ${own.length} times`);
+
+      const sameTime = own.filter(
+        (f) => f.was_helpful && timeOfDay(new Date(f.created_at), context.timezoneOffsetMinutes) === currentTimeOfDay
+      );
+      if (sameTime.length > 0) {
+        reasons.push(`Has worked for you in the ${currentTimeOfDay}`);
+      }
+    }
+
+    if (couple.length > 0) {
+      score += (helpfulness(couple) - 0.5) * 4 * COUPLE_WEIGHT;
+      const helpedCount = couple.filter((f) => f.was_helpful).length;
+      if (helpedCount > 0) {
+        reasons.push(`Helped your partner ${helpedCount} ${helpedCount === 1 ? "time" : "times"}`);
+      }
+    }
+
+    return { technique, score, reasons, tried: own.length > 0 };
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+  const selected = ranked.slice(0, limit);
+
+  // Now and then swap the last slot for a zone-appropriate technique the user
+  // hasn't tried, so new techniques get a chance to earn feedback.
+  const explorationRate = context.explorationRate ?? DEFAULT_EXPLORATION_RATE;
+  const untried = ranked
+    .slice(limit)
+    .filter((r) => !r.tried && r.technique.recommended_for_zones.includes(context.zone));
+
+  if (selected.length === limit && untried.length > 0 && random() < explorationRate) {
+    const pick = untried[Math.floor(random() * untried.length)];
+    selected[limit - 1] = {
+      ...pick,
+      reasons: [...pick.reasons, "Something new to try"],
+    };
+  }
+
+  return selected.map(({ technique, score, reasons }) => ({
+    technique,
+    score: Math.round(score * 100) / 100,
+    reasons,
+  }));
+}
@@ -0,0 +1,208 @@
+// Deterministic, rule-based tone analysis. Used by message-tone-analysis as a
+// pre-filter and fallback, and by the web app when the edge function is
+// unreachable. Keep this module free of Deno/browser specific APIs so both
+// runtimes can import it.
+
+import { type AttachmentStyle, attachmentToneSuggestions } from "./attachmentGuidance.ts";
+
+export type Horseman = "criticism" | "contempt" | "defensiveness" | "stonewalling";
+
+export interface ToneAnalysis {
+  riskLevel: "low" | "medium" | "high";
+  escalationRisk: boolean;
+  gottmanWarnings: string[];
+  tone: string;
+  suggestions: string[];
+  shouldDelay: boolean;
+  delayReason?: string;
+  rewriteSuggestion?: string;
+}
+
+export interface ToneAnalysisContext {
+  senderZone?: string;
+  receiverZone?: string;
+  senderHeartRate?: number;
+  recentConflicts?: number;
+  senderAttachmentStyle?: AttachmentStyle;
+  receiverAttachmentStyle?: AttachmentStyle;
+}
+
+export const HORSEMEN_LEXICON: Record<Horseman, RegExp[]> = {
+  criticism: [
+    /\byou (always|never)\b/i,
+    /\bwhy (do|don't|can't|won't) you (always|ever|never)\b/i,
+    /\bwhat(')?s wrong with you\b/i,
+    /\byou('re| are) (so|such a|too) (selfish|lazy|careless|inconsiderate|irresponsible|useless)\b/i,
+    /\byou (only|just) (ever )?care about yourself\b/i,
+  ],
+  contempt: [
+    /\b(pathetic|disgusting|worthless|idiot|moron|stupid|loser)\b/i,
+    /\byou('re| are) (a |an )?(joke|child|baby|embarrassment)\b/i,
+    /\bgrow up\b/i,
+    /\b(oh )?(great|nice|wow),? (job|work|thanks)\b.*\b(not|never)\b/i,
+    /\bwho do you think you are\b/i,
+    /🙄|\beye ?roll\b/i,
+  ],
+  defensiveness: [
+    /\b(it('s| is)|that('s| is)) not my fault\b/i,
+    /\bi (didn't|did not|never) do anything\b/i,
+    /\bwhat about (you|when you|the time you)\b/i,
+    /\byou('re| are) the one who\b/i,
+    /\bi was (only|just) trying to\b/i,
+    /\bwell,? you (started|did it first)\b/i,
+  ],
+  stonewalling: [
+    /\bi('m| am) done( talking)?\b/i,
+    /\bleave me alone\b/i,
+    /\bi don('t|t) care( anymore)?\b/i,
+    // A bare "ok" or "fine" is usually just agreement; "whatever" is not
+    /^\s*((fine|ok|k),?\s*)?whatever\s*[.!]*\s*$/i,
+    /\b(fine|whatever),? do (what|whatever) you want\b/i,
+    /\bforget (it|this)\b/i,
+    /\b(not|won't be) talking about (this|it)\b/i,
+    /\bi have nothing (more )?to say\b/i,
+  ],
+};
+
+const ESCALATION_MARKERS: RegExp[] = [
+  /!{2,}/,
+  /\?{2,}/,
+  /\b(fuck|fucking|shit|damn|hell)\b/i,
+];
+
+const ANTIDOTES: Record<Horseman, string> = {
+  criticism: 'Use a gentle startup: describe the situation and how you feel ("I feel ... when ... I need ...") instead of "you always/never".',
+  contempt: "Describe your own feelings and needs without insults or mockery. Contempt is the strongest predictor of relationship breakdown.",
+  defensiveness: "Try taking responsibility for even a small part of the problem before explaining your side.",
+  stonewalling: 'If you feel flooded, ask for a break instead of shutting down: "I need 20 minutes to calm down, then I want to come back to this."',
+};
+
+const RED_ZONE_DELAY_REASON =
+  "One or both partners are in red zone (fight/flight/freeze). Wait until both are regulated.";
+const HEART_RATE_SUGGESTION =
+  "Your heart rate is elevated. Consider taking a few deep breaths before sending.";
+
+export function detectHorsemen(message: string): Horseman[] {
+  return (Object.keys(HORSEMEN_LEXICON) as Horseman[]).filter((horseman) =>
+    HORSEMEN_LEXICON[horseman].some((pattern) => pattern.test(message))
+  );
+}
+
+function isShouting(message: string): boolean {
+  const letters = message.replace(/[^a-zA-Z]/g, "");
+  if (letters.length < 8) return false;
+  const upper = letters.replace(/[^A-Z]/g, "").length;
+  return upper / letters.length > 0.7;
+}
+
+// Zone, heart-rate and attachment-style overrides, shared with the LLM path so
+// both produce the same safety behaviour regardless of which analyzer ran.
+export function applyContextOverrides(
+  analysis: ToneAnalysis,
+  context: ToneAnalysisContext = {}
+): ToneAnalysis {
+  const result = { ...analysis, suggestions: [...analysis.suggestions] };
+
+  if (context.senderZone === "red" || context.receiverZone === "red") {
+    result.shouldDelay = true;
+    result.delayReason = result.delayReason || RED_ZONE_DELAY_REASON;
+    result.riskLevel = "high";
+  }
+
+  if (context.senderHeartRate && context.senderHeartRate > 100) {
+    if (!result.suggestions.some((s) => s.includes("heart rate") || s.includes("calm"))) {
+      result.suggestions.push(HEART_RATE_SUGGESTION);
+    }
+  }
+
+  const attachmentSuggestions = attachmentToneSuggestions(
+    result.riskLevel,
+    context.senderAttachmentStyle,
+    context.receiverAttachmentStyle
+  );
+  for (const suggestion of attachmentSuggestions) {
+    if (!result.suggestions.includes(suggestion)) {
+      result.suggestions.push(suggestion);
+    }
+  }
+
+  return result;
+}
+
+export function analyzeToneOffline(
+  message: string,
+  context: ToneAnalysisContext = {}
+): ToneAnalysis {
+  const horsemen = detectHorsemen(message);
+  const shouting = isShouting(message);
+  const escalationMarkers = ESCALATION_MARKERS.filter((pattern) => pattern.test(message)).length
+    + (shouting ? 1 : 0);
+
+  let riskLevel: ToneAnalysis["riskLevel"] = "low";
+  if (horsemen.includes("contempt") || horsemen.length >= 2) {
+    riskLevel = "high";
+  } else if (horsemen.length === 1 || escalationMarkers > 0) {
+    riskLevel = escalationMarkers >= 2 && horsemen.length === 1 ? "high" : "medium";
+  }
+
+  const tone = riskLevel === "high"
+    ? "Hostile"
+    : riskLevel === "medium"
+      ? horsemen.length > 0 ? "Tense" : "Heated"
+      : "Neutral";
+
+  const suggestions = horsemen.map((horseman) => ANTIDOTES[horseman]);
+  if (shouting) {
+    suggestions.push("Writing in all caps reads as shouting. Try sending it in normal case.");
+  }
+
+  const analysis: ToneAnalysis = {
+    riskLevel,
+    escalationRisk: riskLevel !== "low",
+    gottmanWarnings: horsemen,
+    tone,
+    suggestions,
+    shouldDelay: riskLevel === "high",
+    delayReason: riskLevel === "high"
+      ? "This message contains patterns that are likely to escalate the conflict. Consider waiting until you feel calmer."
+      : undefined,
+    rewriteSuggestion: horsemen.includes("criticism") || horsemen.includes("contempt")
+      ? "I'm feeling [emotion] about [situation]. What I need right now is [specific request]."
+      : undefined,
+  };
+
+  return applyContextOverrides(analysis, context);
+}
+
+const RISK_ORDER: ToneAnalysis["riskLevel"][] = ["low", "medium", "high"];
+
+// Combine an LLM analysis with the rule-based one so lexical hits are never
+// dropped and the higher risk level wins.
+export function mergeToneAnalyses(primary: ToneAnalysis, rules: ToneAnalysis): ToneAnalysis {
+  const riskLevel = RISK_ORDER[
+    Math.max(RISK_ORDER.indexOf(primary.riskLevel), RISK_ORDER.indexOf(rules.riskLevel))
+  ];
+
+  return {
+    ...primary,
+    riskLevel,
+    escalationRisk: primary.escalationRisk || rules.escalationRisk,
+    gottmanWarnings: Array.from(new Set([...primary.gottmanWarnings, ...rules.gottmanWarnings])),
+    suggestions: primary.suggestions.length > 0 ? primary.suggestions : rules.suggestions,
+    shouldDelay: primary.shouldDelay || rules.shouldDelay,
+    delayReason: primary.delayReason || rules.delayReason,
+    rewriteSuggestion: primary.rewriteSuggestion || rules.rewriteSuggestion,
+  };
+}
+
+export function isToneAnalysis(value: unknown): value is ToneAnalysis {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+
+  return RISK_ORDER.includes(candidate.riskLevel as ToneAnalysis["riskLevel"])
+    && typeof candidate.escalationRisk === "boolean"
+    && Array.isArray(candidate.gottmanWarnings)
+    && typeof candidate.tone === "string"
+    && Array.isArray(candidate.suggestions)
+    && typeof candidate.shouldDelay === "boolean";
+}
@@ -0,0 +1,84 @@
+export interface TranscriptionResult {
+  text: string;
+  confidence: number;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: Blob, fileName: string): Promise<TranscriptionResult>;
+}
+
+// OpenAI Whisper. Confidence is derived from the mean segment log-probability.
+export function createOpenAITranscriptionProvider(apiKey: string): TranscriptionProvider {
+  return {
+    name: "openai",
+    async transcribe(audio: Blob, fileName: string): Promise<TranscriptionResult> {
+      const form = new FormData();
+      form.append("file", audio, fileName);
+      form.append("model", "whisper-1");
+      form.append("response_format", "verbose_json");
+
+      const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+        },
+        body: form,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        console.error("OpenAI transcription error:", errorData);
+        throw new Error(`OpenAI transcription error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const segments: { avg_logprob: number }[] = data.segments || [];
+      const confidence = segments.length > 0
+        ? Math.exp(segments.reduce((sum, s) => sum + s.avg_logprob, 0) / segments.length)
+        : 0;
+
+      return {
+        text: (data.text || "").trim(),
+        confidence: Math.round(confidence * 100) / 100,
+      };
+    },
+  };
+}
+
+export const STUB_PROVIDER_NAME = "stub";
+
+// Local stub for development and tests: returns STUB_TRANSCRIPT (or a
+// placeholder) without sending audio anywhere. Its text says nothing about
+// the recording, so callers must not treat it as checked.
+export function createStubTranscriptionProvider(transcript?: string): TranscriptionProvider {
+  return {
+    name: STUB_PROVIDER_NAME,
+    async transcribe(audio: Blob): Promise<TranscriptionResult> {
+      return {
+        text: transcript || `[stub transcription of ${audio.size} bytes]`,
+        confidence: 1,
+      };
+    },
+  };
+}
+
+// TRANSCRIPTION_PROVIDER selects the provider ("openai" or "stub"). It
+// defaults to OpenAI, which fails without a key rather than quietly falling
+// back to the stub; the stub has to be asked for explicitly.
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const openaiKey = Deno.env.get("OPENAI_API_KEY");
+  const provider = Deno.env.get("TRANSCRIPTION_PROVIDER") || "openai";
+
+  switch (provider) {
+    case "openai":
+      if (!openaiKey) {
+        throw new Error("OPENAI_API_KEY is required for the openai transcription provider");
+      }
+      return createOpenAITranscriptionProvider(openaiKey);
+    case STUB_PROVIDER_NAME:
+      return createStubTranscriptionProvider(Deno.env.get("STUB_TRANSCRIPT"));
+    default:
+      throw new Error(`Unknown transcription provider: ${provider}`);
+  }
+}
@@ -1,5 +1,29 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  type ChatMessage,
+  type CompletionOptions,
+  getLLMConfig,
+  getLLMProvider,
+  type LLMProvider,
+  type ToolCall,
+} from "../_shared/llm.ts";
+import {
+  CRISIS_RESPONSES,
+  type CrisisLanguageResult,
+  detectCrisisLanguage,
+  HOTLINE_TYPES_FOR_CATEGORY,
+} from "../_shared/crisisLanguage.ts";
+import { rankTechniques, type TechniqueFeedback } from "../_shared/techniqueRanking.ts";
+import { type CoachAction, getCoachTools, toCoachAction } from "../_shared/coachActions.ts";
+import { type ContentMatch, searchContentIndex } from "../_shared/contentIndex.ts";
+import { loadContentIndex } from "../_shared/contentLibrary.ts";
+import {
+  buildAttachmentGuidance,
+  buildJointAttachmentGuidance,
+  isAttachmentStyle,
+} from "../_shared/attachmentGuidance.ts";
+import { consumeQuota, isQuotaExceeded, quotaExceededResponse } from "../_shared/quota.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,7 +31,11 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+const llmConfig = getLLMConfig("ai-coach", {
+  model: "gpt-4o-mini",
+  temperature: 0.7,
+  maxTokens: 500,
+});
 
 interface CoachingContext {
   sessionId?: string;
@@ -17,13 +45,41 @@ interface CoachingContext {
   recentConflicts?: any[];
   conflictPatterns?: any[];
   partnerReadiness?: number;
+  country?: string;
+  timezoneOffsetMinutes?: number;
+  attachmentStyle?: string;
+  partnerAttachmentStyle?: string;
+}
+
+interface CoachingMemory {
+  summary: string;
+  topics: string[];
+  outcome: string;
+  effectiveness_rating: number | null;
+  created_at: string;
 }
 
-interface Message {
-  role: string;
-  content: string;
+interface Citation extends ContentMatch {
+  number: number;
 }
 
+interface JointParticipant {
+  userId: string;
+  name: string;
+  zone?: string;
+  readiness?: number;
+}
+
+interface JointSession {
+  participants: JointParticipant[];
+  transcript: ChatMessage[];
+}
+
+const MEMORY_CANDIDATES = 20;
+const LIBRARY_MATCHES_IN_PROMPT = 3;
+const ACTION_ONLY_MESSAGE = "Here's something that might help right now. Take a look and confirm if it feels right.";
+const MEMORIES_IN_PROMPT = 3;
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -53,66 +109,108 @@ Deno.serve(async (req: Request) => {
       throw new Error("Unauthorized");
     }
 
-    const { messages, context }: { messages: Message[]; context: CoachingContext } = await req.json();
+    const { messages, context, stream }: {
+      messages: ChatMessage[];
+      context: CoachingContext;
+      stream?: boolean;
+    } = await req.json();
+
+    // Safety screen before anything reaches the model
+    const latestUserMessage = [...messages].reverse().find((m) => m.role === "user");
+    const crisis = latestUserMessage ? detectCrisisLanguage(latestUserMessage.content) : null;
+
+    if (crisis && latestUserMessage) {
+      const crisisPayload = await handleCrisisLanguage(
+        supabaseClient,
+        user.id,
+        crisis,
+        latestUserMessage.content,
+        context
+      );
+
+      if (stream) {
+        return new Response(`data: ${JSON.stringify({ type: "done", ...crisisPayload })}\n\n`, {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+          },
+        });
+      }
 
-    const systemPrompt = buildSystemPrompt(context);
+      return new Response(
+        JSON.stringify(crisisPayload),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
 
-    const openaiMessages = [
+    // Crisis responses above are never metered; everything from here calls the model
+    const quota = await consumeQuota(supabaseClient, "ai_coach_messages");
+    if (isQuotaExceeded(quota)) {
+      return quotaExceededResponse("ai_coach_messages", quota, corsHeaders);
+    }
+
+    // Joint sessions use the shared transcript and leave personal memories out
+    const jointSession = context.sessionId ? await getJointSession(supabaseClient, context.sessionId) : null;
+    const conversation = jointSession ? jointSession.transcript : messages;
+    const memories = jointSession ? [] : await getRelevantMemories(supabaseClient, user.id, messages);
+    const libraryMatches = await getLibraryMatches(conversation);
+    const systemPrompt = buildSystemPrompt(context, memories, jointSession?.participants, user.id) +
+      buildLibraryPrompt(libraryMatches) +
+      buildActionsPrompt(context);
+    const llmMessages: ChatMessage[] = [
       { role: "system", content: systemPrompt },
-      ...messages,
+      ...conversation,
     ];
+    const provider = getLLMProvider();
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: openaiMessages,
-        temperature: 0.7,
-        max_tokens: 500,
-      }),
-    });
+    const { data: couple } = await supabaseClient
+      .from("couples")
+      .select("id")
+      .or(`partner_1_id.eq.${user.id},partner_2_id.eq.${user.id}`)
+      .maybeSingle();
+    const completionOptions: CompletionOptions = { ...llmConfig, tools: getCoachTools(!!couple) };
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error("OpenAI API error:", errorData);
-      throw new Error(`OpenAI API error: ${response.status}`);
+    if (stream) {
+      return streamCoachResponse(
+        supabaseClient,
+        user.id,
+        provider,
+        llmMessages,
+        completionOptions,
+        libraryMatches,
+        context,
+        !!jointSession,
+        req.signal
+      );
     }
 
-    const data = await response.json();
-    const assistantMessage = data.choices[0].message.content;
+    const completion = await provider.complete(llmMessages, completionOptions);
+    const actions = toCoachActions(completion.toolCalls);
+    const assistantMessage = completion.content || (actions.length > 0 ? ACTION_ONLY_MESSAGE : "");
+    const citations = pickCitations(assistantMessage, libraryMatches);
 
     if (context.sessionId) {
-      await supabaseClient.from("coaching_messages").insert([
-        {
-          session_id: context.sessionId,
-          role: "assistant",
-          content: assistantMessage,
-          context_data: {
-            model: "gpt-4o-mini",
-            timestamp: new Date().toISOString(),
-          },
-        },
-      ]);
+      await saveAssistantMessage(supabaseClient, context.sessionId, assistantMessage, completion.model, {
+        actions,
+        citations,
+      }, jointSession ? user.id : undefined);
     }
 
-    const suggestedTechniques = await getSuggestedTechniques(
-      supabaseClient,
-      context.nervousSystemZone || "green"
-    );
+    const suggestedTechniques = await getSuggestedTechniques(supabaseClient, user.id, context);
 
     return new Response(
       JSON.stringify({
         message: assistantMessage,
         techniques: suggestedTechniques,
-        context: {
-          zone: context.nervousSystemZone,
-          heartRate: context.heartRate,
-          readiness: context.readinessScore,
-        },
+        actions,
+        citations,
+        context: buildResponseContext(context),
       }),
       {
         headers: {
@@ -138,7 +236,468 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-function buildSystemPrompt(context: CoachingContext): string {
+// Server-sent events: {type: "delta", content} per token batch, then a final
+// {type: "done", message, techniques, actions, citations, context}. The assistant message
+// is only saved once the model has finished, so a cancelled stream leaves no
+// trace.
+function streamCoachResponse(
+  supabaseClient: any,
+  userId: string,
+  provider: LLMProvider,
+  llmMessages: ChatMessage[],
+  completionOptions: CompletionOptions,
+  libraryMatches: ContentMatch[],
+  context: CoachingContext,
+  isJoint: boolean,
+  requestSignal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  requestSignal.addEventListener("abort", () => abortController.abort());
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      let assistantMessage = "";
+      const toolCalls: ToolCall[] = [];
+      try {
+        for await (const chunk of provider.stream(llmMessages, completionOptions, abortController.signal)) {
+          if (typeof chunk !== "string") {
+            toolCalls.push(chunk);
+            continue;
+          }
+          assistantMessage += chunk;
+          send({ type: "delta", content: chunk });
+        }
+
+        if (abortController.signal.aborted) return;
+
+        const actions = toCoachActions(toolCalls);
+        if (!assistantMessage && actions.length > 0) {
+          assistantMessage = ACTION_ONLY_MESSAGE;
+        }
+        const citations = pickCitations(assistantMessage, libraryMatches);
+
+        if (context.sessionId) {
+          await saveAssistantMessage(supabaseClient, context.sessionId, assistantMessage, completionOptions.model, {
+            actions,
+            citations,
+          }, isJoint ? userId : undefined);
+        }
+
+        const suggestedTechniques = await getSuggestedTechniques(supabaseClient, userId, context);
+
+        send({
+          type: "done",
+          message: assistantMessage,
+          techniques: suggestedTechniques,
+          actions,
+          citations,
+          context: buildResponseContext(context),
+        });
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error("Error streaming ai-coach response:", error);
+          send({ type: "error", error: error.message || "An error occurred" });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a client disconnect
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+// Switches the session to crisis mode, answers with a fixed safety message and
+// hotlines instead of the model, and records the event in the crisis tables.
+// Joint sessions are read by the partner, so a disclosure there is moved into
+// a private crisis session of the user's own and the shared one is left as is.
+async function handleCrisisLanguage(
+  supabaseClient: any,
+  userId: string,
+  crisis: CrisisLanguageResult,
+  disclosure: string,
+  context: CoachingContext
+) {
+  const message = CRISIS_RESPONSES[crisis.category];
+
+  let sessionId = context.sessionId;
+  if (sessionId && (await isJointSession(supabaseClient, sessionId))) {
+    sessionId = await startPrivateCrisisSession(supabaseClient, userId, sessionId, disclosure);
+  }
+
+  if (sessionId) {
+    await supabaseClient
+      .from("coaching_sessions")
+      .update({ session_type: "crisis" })
+      .eq("id", sessionId);
+    await supabaseClient
+      .from("coaching_sessions")
+      .update({ crisis_detected_at: new Date().toISOString() })
+      .eq("id", sessionId)
+      .is("crisis_detected_at", null);
+    await saveAssistantMessage(supabaseClient, sessionId, message, "crisis-screen", {
+      crisis_category: crisis.category,
+    });
+  }
+
+  const hotlines = await getHotlines(supabaseClient, context.country || "US", crisis.category);
+
+  const { data: couple } = await supabaseClient
+    .from("couples")
+    .select("id")
+    .or(`partner_1_id.eq.${userId},partner_2_id.eq.${userId}`)
+    .maybeSingle();
+
+  if (couple) {
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: discreet } = await serviceClient
+      .from("discreet_settings")
+      .select("enabled")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    // Interventions are visible to both partners. When the user may be
+    // describing abuse by that partner, or has asked for discreet mode,
+    // don't leave a trace there; the follow-up check goes to them privately.
+    const keepPrivate = crisis.category === "abuse" || Boolean(discreet?.enabled);
+
+    if (!keepPrivate) {
+      await serviceClient.from("crisis_interventions").insert({
+        couple_id: couple.id,
+        intervention_type: "crisis_hotline",
+        severity: crisis.category === "self_harm" ? "critical" : "high",
+        title: "Crisis support shared",
+        message: "Crisis support lines were shared during an AI coaching session. Reaching out for help is a strong step.",
+        action_required: true,
+      });
+    }
+
+    await serviceClient.from("safety_checks").insert({
+      couple_id: couple.id,
+      target_user_id: userId,
+      check_type: "crisis_language",
+      message: "It sounded like things were really hard earlier. How are you doing right now?",
+      requires_escalation: true,
+      is_private: keepPrivate,
+    });
+  }
+
+  return {
+    message,
+    techniques: [],
+    context: buildResponseContext(context),
+    crisis: {
+      category: crisis.category,
+      hotlines,
+      sessionId,
+    },
+  };
+}
+
+async function isJointSession(supabaseClient: any, sessionId: string): Promise<boolean> {
+  const { data: session } = await supabaseClient
+    .from("coaching_sessions")
+    .select("is_joint")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  return !!session?.is_joint;
+}
+
+// Opens a crisis session only the user can see, holding the message that
+// triggered the screen. Clients screen joint-session messages before saving
+// them, but a copy that reached the shared transcript anyway is removed.
+async function startPrivateCrisisSession(
+  supabaseClient: any,
+  userId: string,
+  jointSessionId: string,
+  disclosure: string
+): Promise<string | undefined> {
+  const serviceClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  await serviceClient
+    .from("coaching_messages")
+    .delete()
+    .eq("session_id", jointSessionId)
+    .eq("sender_id", userId)
+    .eq("role", "user")
+    .eq("content", disclosure);
+
+  const { data: session, error } = await supabaseClient
+    .from("coaching_sessions")
+    .insert({
+      user_id: userId,
+      session_type: "crisis",
+      topic: "",
+      status: "active",
+    })
+    .select("id")
+    .single();
+
+  if (error || !session) {
+    console.error("Error starting private crisis session:", error);
+    return undefined;
+  }
+
+  await supabaseClient.from("coaching_messages").insert({
+    session_id: session.id,
+    role: "user",
+    content: disclosure,
+  });
+
+  return session.id;
+}
+
+async function getHotlines(supabaseClient: any, country: string, category: CrisisLanguageResult["category"]) {
+  const { data } = await supabaseClient
+    .from("crisis_hotlines")
+    .select("*")
+    .eq("country", country)
+    .eq("is_active", true)
+    .in("type", HOTLINE_TYPES_FOR_CATEGORY[category]);
+
+  if ((!data || data.length === 0) && country !== "US") {
+    return getHotlines(supabaseClient, "US", category);
+  }
+
+  return data || [];
+}
+
+// Searches the content library for what the user has been talking about. The
+// coach still answers if the index can't be loaded, just without citations.
+async function getLibraryMatches(conversation: ChatMessage[]): Promise<ContentMatch[]> {
+  const query = conversation
+    .filter((m) => m.role === "user")
+    .slice(-2)
+    .map((m) => m.content)
+    .join(" ");
+
+  if (!query) return [];
+
+  try {
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+    const index = await loadContentIndex(serviceClient);
+    return searchContentIndex(index, query, LIBRARY_MATCHES_IN_PROMPT);
+  } catch (error) {
+    console.error("Error searching content library:", error);
+    return [];
+  }
+}
+
+function buildLibraryPrompt(matches: ContentMatch[]): string {
+  if (matches.length === 0) return "";
+
+  const kinds: Record<ContentMatch["source"], string> = {
+    wellness_content: "meditation",
+    workbook_exercises: "workbook exercise",
+    coaching_techniques: "technique",
+    rituals: "ritual",
+  };
+
+  let prompt = "\nFROM THE PAIRCALM LIBRARY (prefer these over general advice; when you recommend one, cite it by its number like [1]):\n";
+  matches.forEach((match, index) => {
+    prompt += `[${index + 1}] ${match.title} (${kinds[match.source]}): ${match.summary}\n`;
+  });
+  return prompt;
+}
+
+// Only the library items the reply actually refers to, by number or title.
+function pickCitations(message: string, matches: ContentMatch[]): Citation[] {
+  const lower = message.toLowerCase();
+  return matches
+    .map((match, index) => ({ ...match, number: index + 1 }))
+    .filter((match) => message.includes(`[${match.number}]`) || lower.includes(match.title.toLowerCase()));
+}
+
+// At most one card per kind of action, so a chatty model can't stack them up.
+function toCoachActions(toolCalls: ToolCall[]): CoachAction[] {
+  const actions: CoachAction[] = [];
+  for (const call of toolCalls) {
+    const action = toCoachAction(call);
+    if (action && !actions.some((a) => a.type === action.type)) {
+      actions.push(action);
+    }
+  }
+  return actions;
+}
+
+function buildActionsPrompt(context: CoachingContext): string {
+  // getTimezoneOffset() is minutes *behind* UTC, hence the sign flip
+  const utcOffset = context.timezoneOffsetMinutes !== undefined
+    ? ` (the user's clock is ${-context.timezoneOffsetMinutes} minutes from UTC)`
+    : "";
+
+  return `
+ACTIONS:
+You can propose app actions with the tools you have (cooling-off period, logging a conflict, scheduling the weekly meeting, a breathing exercise). The user sees each proposal as a card and decides whether to go ahead - nothing happens until they confirm. Only propose an action when it clearly fits the moment, at most one or two at a time, and always say in your reply why you're suggesting it.
+Current time: ${new Date().toISOString()}${utcOffset}
+`;
+}
+
+function buildResponseContext(context: CoachingContext) {
+  return {
+    zone: context.nervousSystemZone,
+    heartRate: context.heartRate,
+    readiness: context.readinessScore,
+  };
+}
+
+// Partners can only add their own user messages to a joint session, so the
+// coach's reply there is written with the service role. It keeps the
+// requesting partner as sender, which their client uses to skip the realtime
+// copy of a reply it already shows.
+async function saveAssistantMessage(
+  supabaseClient: any,
+  sessionId: string,
+  content: string,
+  model: string,
+  extraContext: Record<string, unknown> = {},
+  jointSenderId?: string
+) {
+  const client = jointSenderId
+    ? createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "")
+    : supabaseClient;
+
+  await client.from("coaching_messages").insert([
+    {
+      session_id: sessionId,
+      role: "assistant",
+      content,
+      ...(jointSenderId ? { sender_id: jointSenderId } : {}),
+      context_data: {
+        model,
+        timestamp: new Date().toISOString(),
+        ...extraContext,
+      },
+    },
+  ]);
+}
+
+// Loads both partners' names and latest check-in, plus the shared transcript
+// with each user message labelled by who said it. Returns null for sessions
+// that aren't joint.
+async function getJointSession(supabaseClient: any, sessionId: string): Promise<JointSession | null> {
+  if (!(await isJointSession(supabaseClient, sessionId))) return null;
+
+  // Partner profiles and check-ins aren't readable by the user directly
+  const serviceClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  const { data: rows } = await serviceClient
+    .from("coaching_session_participants")
+    .select("user_id, user_profiles(full_name)")
+    .eq("session_id", sessionId);
+
+  const participants: JointParticipant[] = await Promise.all(
+    (rows || []).map(async (row: any) => {
+      const { data: checkIn } = await serviceClient
+        .from("check_ins")
+        .select("nervous_system_zone, readiness_score")
+        .eq("user_id", row.user_id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      return {
+        userId: row.user_id,
+        name: row.user_profiles?.full_name?.split(" ")[0] || "Partner",
+        zone: checkIn?.nervous_system_zone || undefined,
+        readiness: checkIn?.readiness_score ?? undefined,
+      };
+    })
+  );
+
+  const { data: history } = await supabaseClient
+    .from("coaching_messages")
+    .select("role, content, sender_id")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  const names = new Map(participants.map((p) => [p.userId, p.name]));
+  const transcript: ChatMessage[] = (history || [])
+    .filter((m: any) => m.role !== "system")
+    .map((m: any) => ({
+      role: m.role,
+      content: m.role === "user" ? `${names.get(m.sender_id) || "Partner"}: ${m.content}` : m.content,
+    }));
+
+  return { participants, transcript };
+}
+
+// Ranks the user's past session summaries by keyword overlap with what they
+// are talking about now, with a small bonus for recency.
+async function getRelevantMemories(
+  supabaseClient: any,
+  userId: string,
+  messages: ChatMessage[]
+): Promise<CoachingMemory[]> {
+  const { data } = await supabaseClient
+    .from("coaching_memories")
+    .select("summary, topics, outcome, effectiveness_rating, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(MEMORY_CANDIDATES);
+
+  if (!data || data.length === 0) return [];
+
+  const recentText = messages
+    .filter((m) => m.role === "user")
+    .slice(-3)
+    .map((m) => m.content.toLowerCase())
+    .join(" ");
+  const words = new Set(recentText.split(/\W+/).filter((w) => w.length > 3));
+
+  return (data as CoachingMemory[])
+    .map((memory, index) => {
+      const keywords = [...(memory.topics || []), ...memory.summary.toLowerCase().split(/\W+/)];
+      const overlap = keywords.filter((k) => words.has(k)).length;
+      return { memory, score: overlap * 2 + (MEMORY_CANDIDATES - index) / MEMORY_CANDIDATES };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MEMORIES_IN_PROMPT)
+    .map(({ memory }) => memory);
+}
+
+function buildSystemPrompt(
+  context: CoachingContext,
+  memories: CoachingMemory[] = [],
+  participants?: JointParticipant[],
+  userId?: string
+): string {
+  if (participants) {
+    return buildMediatorPrompt(context, participants, userId);
+  }
+
   let prompt = `You are an expert relationship coach specializing in the Gottman Method and nervous system regulation. You help couples navigate conflicts with empathy, evidence-based techniques, and real-time biometric awareness.
 
 Your role:
@@ -209,16 +768,148 @@ Key principles:
     });
   }
 
+  // Only present when the user (and, for the partner's style, the partner)
+  // hasn't turned attachment personalization off
+  prompt += buildAttachmentGuidance(
+    isAttachmentStyle(context.attachmentStyle) ? context.attachmentStyle : undefined,
+    isAttachmentStyle(context.partnerAttachmentStyle) ? context.partnerAttachmentStyle : undefined
+  );
+
+  if (memories.length > 0) {
+    prompt += "\nFROM PAST SESSIONS (refer to these naturally, don't recite them):\n";
+    memories.forEach((memory) => {
+      prompt += `- ${new Date(memory.created_at).toDateString()}: ${memory.summary}`;
+      if (memory.outcome) {
+        prompt += ` Outcome: ${memory.outcome}.`;
+      }
+      if (memory.effectiveness_rating) {
+        prompt += ` Rated ${memory.effectiveness_rating}/5`;
+        if (memory.effectiveness_rating <= 2) {
+          prompt += " (that approach didn't help much - try something different)";
+        }
+        prompt += ".";
+      }
+      prompt += "\n";
+    });
+  }
+
+  return prompt;
+}
+
+// Neutral-mediator variant for joint sessions: both partners are in the
+// conversation, so the coach speaks to the couple rather than one side.
+// Attachment styles come from the writer's get_attachment_context(), so each
+// partner's is only present if they haven't turned personalization off.
+function buildMediatorPrompt(context: CoachingContext, participants: JointParticipant[], userId?: string): string {
+  const names = participants.map((p) => p.name).join(" and ");
+
+  let prompt = `You are an expert relationship coach specializing in the Gottman Method and nervous system regulation, mediating a live conversation between ${names}. Both partners are reading every message and take turns writing to you. Each of their messages starts with the writer's name.
+
+Your role:
+- Act as a neutral mediator - never take sides or agree with one partner against the other
+- Address partners by name and reflect each person's view back fairly
+- Help each partner hear the feelings and needs behind the other's words
+- Invite the quieter partner in, so both get a roughly equal share of the conversation
+- Gently name Four Horsemen (criticism, contempt, defensiveness, stonewalling) when they show up, and suggest a softer rephrase
+- Be brief and conversational (2-3 sentences max per response), ending with a question for whoever speaks next
+
+Key principles:
+- Prioritize safety and regulation first
+- Focus on patterns, not blame
+- Validate feelings while guiding behavior
+- Recognize when professional help is needed
+`;
+
+  prompt += "\nPARTNERS IN THIS SESSION:\n";
+  participants.forEach((participant) => {
+    prompt += `- ${participant.name}: zone ${participant.zone ? participant.zone.toUpperCase() : "unknown"}`;
+    if (participant.readiness !== undefined) {
+      prompt += `, readiness ${participant.readiness}%`;
+    }
+    prompt += "\n";
+  });
+
+  const dysregulated = participants.filter((p) => p.zone === "red");
+  if (dysregulated.length > 0) {
+    prompt += `\n${dysregulated.map((p) => p.name).join(" and ")} ${dysregulated.length === 1 ? "is" : "are"} in the RED zone. Slow the conversation down, suggest a short break or a regulation exercise together, and do NOT push for problem solving yet.\n`;
+  } else if (participants.some((p) => p.readiness !== undefined && p.readiness < 60)) {
+    prompt += "\nAt least one partner has low capacity right now - keep the pace gentle and the topic small.\n";
+  }
+
+  if (context.conflictPatterns && context.conflictPatterns.length > 0) {
+    prompt += "\nDETECTED PATTERNS:\n";
+    context.conflictPatterns.slice(0, 3).forEach((pattern: any) => {
+      prompt += `- ${pattern.pattern_type}: ${pattern.description} (${pattern.severity} severity, ${pattern.frequency}x)\n`;
+    });
+  }
+
+  prompt += buildJointAttachmentGuidance(
+    participants.map((participant) => {
+      const style = participant.userId === userId ? context.attachmentStyle : context.partnerAttachmentStyle;
+      return { name: participant.name, style: isAttachmentStyle(style) ? style : undefined };
+    })
+  );
+
   return prompt;
 }
 
-async function getSuggestedTechniques(supabaseClient: any, zone: string) {
-  const { data } = await supabaseClient
+// Ranks techniques from this user's (and their partner's) past "was this
+// helpful" feedback; see _shared/techniqueRanking.ts for the scoring.
+async function getSuggestedTechniques(supabaseClient: any, userId: string, context: CoachingContext) {
+  const zone = context.nervousSystemZone || "green";
+
+  const { data: techniques } = await supabaseClient
     .from("coaching_techniques")
     .select("*")
-    .eq("is_active", true)
-    .contains("recommended_for_zones", [zone])
-    .limit(3);
+    .eq("is_active", true);
 
-  return data || [];
+  if (!techniques || techniques.length === 0) return [];
+
+  let sessionType: string | undefined;
+  let coupleId: string | undefined;
+  if (context.sessionId) {
+    const { data: session } = await supabaseClient
+      .from("coaching_sessions")
+      .select("session_type, couple_id")
+      .eq("id", context.sessionId)
+      .maybeSingle();
+    sessionType = session?.session_type;
+    coupleId = session?.couple_id || undefined;
+  }
+
+  // Partner sessions aren't visible to the user, so couple-level feedback is
+  // read with the service role and only used as aggregate signal.
+  const feedbackClient = coupleId
+    ? createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "")
+    : supabaseClient;
+
+  let feedbackQuery = feedbackClient
+    .from("technique_usage")
+    .select("technique_id, was_helpful, created_at, coaching_sessions!inner(user_id, couple_id, session_type)")
+    .not("was_helpful", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(200);
+
+  feedbackQuery = coupleId
+    ? feedbackQuery.eq("coaching_sessions.couple_id", coupleId)
+    : feedbackQuery.eq("coaching_sessions.user_id", userId);
+
+  const { data: usage } = await feedbackQuery;
+
+  const feedback: TechniqueFeedback[] = (usage || []).map((u: any) => ({
+    technique_id: u.technique_id,
+    was_helpful: u.was_helpful,
+    created_at: u.created_at,
+    is_own: u.coaching_sessions.user_id === userId,
+    session_type: u.coaching_sessions.session_type,
+  }));
+
+  return rankTechniques(techniques, feedback, {
+    zone,
+    sessionType,
+    timezoneOffsetMinutes: context.timezoneOffsetMinutes,
+  }).map(({ technique, score, reasons }) => ({
+    ...technique,
+    ranking: { score, reasons },
+  }));
 }
@@ -0,0 +1,167 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { completeJSON, getLLMConfig, getLLMProvider } from "../_shared/llm.ts";
+import { consumeQuota, isQuotaExceeded, quotaExceededResponse } from "../_shared/quota.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const llmConfig = getLLMConfig("coaching-session-summary", {
+  model: "gpt-4o-mini",
+  temperature: 0.2,
+  maxTokens: 300,
+});
+
+interface SessionSummary {
+  summary: string;
+  topics: string[];
+}
+
+function isSessionSummary(value: unknown): value is SessionSummary {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.summary === "string"
+    && Array.isArray(candidate.topics)
+    && candidate.topics.every((t) => typeof t === "string");
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    const { sessionId }: { sessionId: string } = await req.json();
+
+    const { data: session, error: sessionError } = await supabaseClient
+      .from("coaching_sessions")
+      .select("*")
+      .eq("id", sessionId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (sessionError || !session) {
+      throw new Error("Coaching session not found");
+    }
+
+    const { data: messages } = await supabaseClient
+      .from("coaching_messages")
+      .select("role, content")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: true });
+
+    // Nothing worth remembering if the user never said anything. Joint sessions
+    // hold both partners' words, so they don't become personal memories.
+    if (session.is_joint || !messages || !messages.some((m: { role: string }) => m.role === "user")) {
+      return new Response(
+        JSON.stringify({ memory: null }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    // Summaries call the model like the coach does, so they count against
+    // the same quota
+    const quota = await consumeQuota(supabaseClient, "ai_coach_messages");
+    if (isQuotaExceeded(quota)) {
+      return quotaExceededResponse("ai_coach_messages", quota, corsHeaders);
+    }
+
+    const transcript = messages
+      .map((m: { role: string; content: string }) => `${m.role === "user" ? "User" : "Coach"}: ${m.content}`)
+      .join("\n");
+
+    const result = await completeJSON(
+      getLLMProvider(),
+      [
+        {
+          role: "system",
+          content: `You summarize relationship coaching sessions so the coach can remember them next time.
+Write 2-3 sentences in the third person ("The user...") covering what the user was struggling with, what was suggested, and what seemed to help or not.
+Leave out names, addresses and other identifying details.
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "summary": "2-3 sentence summary",
+  "topics": ["short keyword", "another keyword"]
+}`,
+        },
+        { role: "user", content: transcript },
+      ],
+      llmConfig,
+      isSessionSummary
+    );
+
+    const { data: memory, error: memoryError } = await supabaseClient
+      .from("coaching_memories")
+      .upsert(
+        {
+          user_id: user.id,
+          session_id: sessionId,
+          summary: result.summary,
+          topics: result.topics.slice(0, 5).map((t) => t.toLowerCase()),
+          outcome: session.outcome || "",
+          effectiveness_rating: session.effectiveness_rating,
+        },
+        { onConflict: "session_id" }
+      )
+      .select()
+      .single();
+
+    if (memoryError) throw memoryError;
+
+    return new Response(
+      JSON.stringify({ memory }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error in coaching-session-summary function:", error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || "An error occurred",
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,120 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Reminds users to retake an assessment once its retake_interval_days have
+// passed since their last result. Only assessments a user has taken before
+// are reminded, and only once per due cycle.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: assessments, error: assessmentsError } = await supabase
+      .from('assessments')
+      .select('id, name, retake_interval_days')
+      .eq('is_active', true)
+      .not('retake_interval_days', 'is', null);
+
+    if (assessmentsError) throw assessmentsError;
+
+    const now = new Date();
+    const results = [];
+
+    for (const assessment of assessments || []) {
+      const { data: responses, error: responsesError } = await supabase
+        .from('assessment_responses')
+        .select('client_id, completed_at')
+        .eq('assessment_id', assessment.id)
+        .order('completed_at', { ascending: false });
+
+      if (responsesError) throw responsesError;
+
+      // Latest completion per user
+      const lastCompleted = new Map<string, string>();
+      for (const response of responses || []) {
+        if (!lastCompleted.has(response.client_id)) {
+          lastCompleted.set(response.client_id, response.completed_at);
+        }
+      }
+
+      for (const [userId, completedAt] of lastCompleted) {
+        const dueAt = new Date(completedAt);
+        dueAt.setDate(dueAt.getDate() + assessment.retake_interval_days);
+        if (dueAt > now) continue;
+
+        const { data: existingReminder } = await supabase
+          .from('notifications')
+          .select('id')
+          .eq('user_id', userId)
+          .eq('type', 'assessment_reminder')
+          .eq('related_entity_id', assessment.id)
+          .gte('created_at', completedAt)
+          .limit(1)
+          .maybeSingle();
+
+        if (existingReminder) continue;
+
+        const { error: notifyError } = await supabase.rpc('create_notification', {
+          p_user_id: userId,
+          p_type: 'assessment_reminder',
+          p_title: `Time to retake the ${assessment.name}`,
+          p_message: `It's been ${assessment.retake_interval_days} days since your last ${assessment.name}. A few minutes now keeps your trend up to date.`,
+          p_priority: 'low',
+          p_action_url: `/assessments?assessment=${assessment.id}`,
+          p_related_entity_type: 'assessment',
+          p_related_entity_id: assessment.id,
+        });
+
+        if (notifyError) {
+          console.error(`Error sending ${assessment.name} reminder to ${userId}:`, notifyError);
+          continue;
+        }
+
+        results.push({
+          user_id: userId,
+          assessment: assessment.name,
+          last_completed_at: completedAt,
+        });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        reminders_sent: results.length,
+        results,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in daily assessment reminders:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
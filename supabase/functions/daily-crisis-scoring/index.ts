@@ -1,4 +1,10 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import {
+  DEFAULT_INTERVENTION_RULES,
+  evaluateInterventionRules,
+  toInterventionRules,
+  toRecordInterventionParams,
+} from '../_shared/interventionRules.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,6 +32,18 @@ Deno.serve(async (req: Request) => {
 
     if (couplesError) throw couplesError;
 
+    // Same rules the web app evaluates; fall back to the built-in set if the
+    // table can't be read so critical alerts still go out
+    const { data: ruleRows, error: rulesError } = await supabase
+      .from('crisis_intervention_rules')
+      .select('*')
+      .eq('is_active', true);
+
+    if (rulesError) {
+      console.error('Error loading intervention rules, using defaults:', rulesError);
+    }
+    const rules = rulesError ? DEFAULT_INTERVENTION_RULES : toInterventionRules(ruleRows || []);
+
     const results = [];
     for (const couple of couples || []) {
       const { data: score, error: scoreError } = await supabase.rpc('calculate_crisis_score', {
@@ -44,69 +62,21 @@ Deno.serve(async (req: Request) => {
         if (latestScore && latestScore.severity !== 'low') {
           const interventions = [];
 
-          if (latestScore.severity === 'critical') {
-            if (latestScore.red_zone_days >= 3) {
-              await supabase.from('crisis_interventions').insert({
-                couple_id: couple.id,
-                crisis_score_id: latestScore.id,
-                intervention_type: 'cooling_off',
-                severity: 'critical',
-                title: 'Mandatory 24-Hour Break Recommended',
-                message: 'Both partners have been in red zone for 3+ days. A 24-hour cooling-off period is strongly recommended to prevent further escalation.',
-                action_required: true,
-              });
-              interventions.push('cooling_off');
-            }
-
-            await supabase.from('crisis_interventions').insert({
-              couple_id: couple.id,
-              crisis_score_id: latestScore.id,
-              intervention_type: 'crisis_hotline',
-              severity: 'critical',
-              title: 'Critical Alert: Immediate Support Needed',
-              message: 'Your relationship health indicators suggest you may be in crisis. Please consider reaching out to a crisis hotline or emergency therapist immediately.',
-              action_required: true,
-            });
-            interventions.push('crisis_hotline');
-          } else if (latestScore.severity === 'high') {
-            if (latestScore.high_risk_messages >= 5) {
-              await supabase.from('crisis_interventions').insert({
-                couple_id: couple.id,
-                crisis_score_id: latestScore.id,
-                intervention_type: 'ai_session',
-                severity: 'high',
-                title: 'Communication Pattern Alert',
-                message: 'We\'ve detected 5+ high-risk messages in the past week. Consider taking a break from messaging and scheduling an AI coaching session.',
-                action_required: false,
-              });
-              interventions.push('ai_session');
-            }
+          for (const rule of evaluateInterventionRules(rules, latestScore)) {
+            const { data: intervention, error: recordError } = await supabase.rpc(
+              'record_crisis_intervention',
+              toRecordInterventionParams(couple.id, latestScore.id, rule)
+            );
 
-            if (latestScore.gottman_violations >= 5) {
-              await supabase.from('crisis_interventions').insert({
-                couple_id: couple.id,
-                crisis_score_id: latestScore.id,
-                intervention_type: 'emergency_therapy',
-                severity: 'high',
-                title: 'Four Horsemen Alert',
-                message: 'Multiple instances of criticism, contempt, defensiveness, or stonewalling detected. Consider booking an emergency therapy session.',
-                action_required: false,
-              });
-              interventions.push('emergency_therapy');
-            }
-
-            if (latestScore.disengagement_hours >= 48) {
-              await supabase.from('crisis_interventions').insert({
-                couple_id: couple.id,
-                crisis_score_id: latestScore.id,
-                intervention_type: 'safety_check',
-                severity: 'high',
-                title: 'Partner Disengagement Detected',
-                message: 'Your partner hasn\'t checked in for over 48 hours. We\'re sending them a safety check.',
-                action_required: false,
-              });
-              interventions.push('safety_check');
+            if (recordError) {
+              console.error(`Error recording ${rule.rule_key} intervention for ${couple.id}:`, recordError);
+              continue;
             }
+            interventions.push({
+              type: rule.intervention_type,
+              severity: intervention.severity,
+              occurrences: intervention.occurrence_count,
+            });
           }
 
           results.push({
@@ -1,5 +1,16 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { completeJSON, getLLMConfig, getLLMProvider } from "../_shared/llm.ts";
+import { describeAttachmentForToneAnalysis, isAttachmentStyle } from "../_shared/attachmentGuidance.ts";
+import { consumeQuota, isQuotaExceeded, quotaExceededResponse } from "../_shared/quota.ts";
+import {
+  analyzeToneOffline,
+  applyContextOverrides,
+  isToneAnalysis,
+  mergeToneAnalyses,
+  type ToneAnalysis,
+  type ToneAnalysisContext,
+} from "../_shared/toneAnalyzer.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,7 +18,10 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+const llmConfig = getLLMConfig("message-tone-analysis", {
+  model: "gpt-4o-mini",
+  temperature: 0.3,
+});
 
 interface ToneAnalysisRequest {
   message: string;
@@ -15,17 +29,8 @@ interface ToneAnalysisRequest {
   receiverZone?: string;
   senderHeartRate?: number;
   recentConflicts?: number;
-}
-
-interface ToneAnalysisResponse {
-  riskLevel: 'low' | 'medium' | 'high';
-  escalationRisk: boolean;
-  gottmanWarnings: string[];
-  tone: string;
-  suggestions: string[];
-  shouldDelay: boolean;
-  delayReason?: string;
-  rewriteSuggestion?: string;
+  senderAttachmentStyle?: string;
+  receiverAttachmentStyle?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -58,6 +63,41 @@ Deno.serve(async (req: Request) => {
     }
 
     const requestData: ToneAnalysisRequest = await req.json();
+    const analysisContext: ToneAnalysisContext = {
+      senderZone: requestData.senderZone,
+      receiverZone: requestData.receiverZone,
+      senderHeartRate: requestData.senderHeartRate,
+      recentConflicts: requestData.recentConflicts,
+      senderAttachmentStyle: isAttachmentStyle(requestData.senderAttachmentStyle)
+        ? requestData.senderAttachmentStyle
+        : undefined,
+      receiverAttachmentStyle: isAttachmentStyle(requestData.receiverAttachmentStyle)
+        ? requestData.receiverAttachmentStyle
+        : undefined,
+    };
+
+    // Rule-based pre-filter: clear-cut high risk messages don't need the LLM,
+    // and it's the fallback when no provider is available.
+    const rulesAnalysis = analyzeToneOffline(requestData.message, analysisContext);
+
+    if (rulesAnalysis.riskLevel === "high") {
+      return new Response(
+        JSON.stringify(rulesAnalysis),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    // Only LLM calls count against the quota; the rules result above is free.
+    // Clients fall back to the offline analyzer on a 429.
+    const quota = await consumeQuota(supabaseClient, "tone_analyses");
+    if (isQuotaExceeded(quota)) {
+      return quotaExceededResponse("tone_analyses", quota, corsHeaders);
+    }
 
     const systemPrompt = `You are an expert relationship communication analyst specializing in the Gottman Method. Analyze the tone and content of messages between romantic partners.
 
@@ -73,6 +113,9 @@ ${requestData.senderZone ? `- Sender nervous system zone: ${requestData.senderZo
 ${requestData.receiverZone ? `- Receiver nervous system zone: ${requestData.receiverZone}` : ''}
 ${requestData.senderHeartRate ? `- Sender heart rate: ${requestData.senderHeartRate} bpm` : ''}
 ${requestData.recentConflicts ? `- Recent conflicts this week: ${requestData.recentConflicts}` : ''}
+${analysisContext.senderAttachmentStyle || analysisContext.receiverAttachmentStyle
+  ? `- ${describeAttachmentForToneAnalysis(analysisContext.senderAttachmentStyle, analysisContext.receiverAttachmentStyle)}`
+  : ''}
 
 Respond ONLY with valid JSON in this exact format:
 {
@@ -92,43 +135,21 @@ Respond ONLY with valid JSON in this exact format:
 
 Provide your analysis in the specified JSON format.`;
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
+    let analysis: ToneAnalysis;
+    try {
+      const llmAnalysis = await completeJSON(
+        getLLMProvider(),
+        [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt },
         ],
-        temperature: 0.3,
-        response_format: { type: "json_object" },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error("OpenAI API error:", errorData);
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const analysis: ToneAnalysisResponse = JSON.parse(data.choices[0].message.content);
-
-    // Add context-based overrides
-    if (requestData.senderZone === 'red' || requestData.receiverZone === 'red') {
-      analysis.shouldDelay = true;
-      analysis.delayReason = analysis.delayReason || 'One or both partners are in red zone (fight/flight/freeze). Wait until both are regulated.';
-      analysis.riskLevel = 'high';
-    }
-
-    if (requestData.senderHeartRate && requestData.senderHeartRate > 100) {
-      if (!analysis.suggestions.some(s => s.includes('heart rate') || s.includes('calm'))) {
-        analysis.suggestions.push('Your heart rate is elevated. Consider taking a few deep breaths before sending.');
-      }
+        llmConfig,
+        isToneAnalysis
+      );
+      analysis = applyContextOverrides(mergeToneAnalyses(llmAnalysis, rulesAnalysis), analysisContext);
+    } catch (error) {
+      console.error("Falling back to rule-based tone analysis:", error);
+      analysis = rulesAnalysis;
     }
 
     return new Response(
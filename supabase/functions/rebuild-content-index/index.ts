@@ -0,0 +1,59 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { rebuildContentIndex } from '../_shared/contentLibrary.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Rebuilds the coach's content index right away, e.g. after a bulk content
+// import. Without this the index is rebuilt lazily on the next coach request.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { index, builtAt } = await rebuildContentIndex(supabase);
+
+    const bySource: Record<string, number> = {};
+    for (const document of index.documents) {
+      bySource[document.source] = (bySource[document.source] || 0) + 1;
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        built_at: builtAt,
+        documents: index.documents.length,
+        by_source: bySource,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error rebuilding content index:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
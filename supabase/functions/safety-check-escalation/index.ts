@@ -0,0 +1,221 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { escalationMessage, getEscalationChannel } from '../_shared/escalationChannels.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, X-Escalation-Secret',
+};
+
+// Answers asking for help older than this are left alone, so adding a
+// contact doesn't message them about something long past
+const REQUESTED_LOOKBACK_HOURS = 24;
+
+interface DueCheck {
+  id: string;
+  target_user_id: string;
+  reason: 'requested' | 'unanswered';
+}
+
+// Messages the user's confirmed trusted contacts for safety checks that were
+// answered asking for help, or that went unanswered past their escalate_at
+// deadline. The scheduled sweep sends the ESCALATION_CRON_SECRET in the
+// X-Escalation-Secret header and handles every due check. Otherwise the
+// caller must be signed in and pass the safetyCheckId of a check they have
+// just answered asking for help. Each check is escalated at most once and
+// every step is written to escalation_audit_log.
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const safetyCheckId: string | undefined = body.safetyCheckId;
+
+    const cronSecret = Deno.env.get('ESCALATION_CRON_SECRET');
+    const isScheduledRun = !!cronSecret && req.headers.get('X-Escalation-Secret') === cronSecret;
+
+    let requesterId: string | null = null;
+    if (!isScheduledRun) {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader || !safetyCheckId) {
+        return unauthorized();
+      }
+
+      const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user }, error: userError } = await userClient.auth.getUser();
+      if (userError || !user) {
+        return unauthorized();
+      }
+      requesterId = user.id;
+    }
+
+    const now = new Date();
+    const lookback = new Date(now.getTime() - REQUESTED_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+    let requestedQuery = supabase
+      .from('safety_checks')
+      .select('id, target_user_id')
+      .eq('requires_escalation', true)
+      .gte('responded_at', lookback.toISOString());
+
+    let unansweredQuery = supabase
+      .from('safety_checks')
+      .select('id, target_user_id')
+      .is('responded_at', null)
+      .lte('escalate_at', now.toISOString());
+
+    if (safetyCheckId) {
+      requestedQuery = requestedQuery.eq('id', safetyCheckId);
+      unansweredQuery = unansweredQuery.eq('id', safetyCheckId);
+    }
+
+    // Signed-in users can only ask for help for themselves; unanswered checks
+    // are left to the scheduled sweep
+    if (requesterId) {
+      requestedQuery = requestedQuery.eq('target_user_id', requesterId);
+    }
+
+    const [{ data: requested, error: requestedError }, { data: unanswered, error: unansweredError }] =
+      await Promise.all([requestedQuery, requesterId ? { data: [], error: null } : unansweredQuery]);
+
+    if (requestedError) throw requestedError;
+    if (unansweredError) throw unansweredError;
+
+    const candidates: DueCheck[] = [
+      ...(requested || []).map((c) => ({ ...c, reason: 'requested' as const })),
+      ...(unanswered || []).map((c) => ({ ...c, reason: 'unanswered' as const })),
+    ];
+
+    const results = [];
+    for (const check of candidates) {
+      // The unique safety_check_id makes this the claim: a check that was
+      // already escalated, here or by a concurrent run, returns no row
+      const { data: claimed, error: claimError } = await supabase
+        .from('safety_check_escalations')
+        .upsert(
+          { safety_check_id: check.id, user_id: check.target_user_id, reason: check.reason },
+          { onConflict: 'safety_check_id', ignoreDuplicates: true }
+        )
+        .select()
+        .maybeSingle();
+
+      if (claimError) {
+        console.error('Error claiming escalation for safety check:', check.id, claimError);
+        continue;
+      }
+      if (!claimed) continue;
+
+      const audit = (event: string, fields: Record<string, unknown> = {}) =>
+        supabase.from('escalation_audit_log').insert({
+          user_id: check.target_user_id,
+          escalation_id: claimed.id,
+          event,
+          ...fields,
+        });
+
+      await audit('escalation_started', { detail: { safety_check_id: check.id, reason: check.reason } });
+
+      const [{ data: contacts }, { data: profile }] = await Promise.all([
+        supabase
+          .from('trusted_contacts')
+          .select('id, name, channel, destination')
+          .eq('user_id', check.target_user_id)
+          .eq('consent_status', 'confirmed'),
+        supabase
+          .from('user_profiles')
+          .select('full_name')
+          .eq('id', check.target_user_id)
+          .maybeSingle(),
+      ]);
+
+      let status: string;
+      let notified = 0;
+
+      if (!contacts || contacts.length === 0) {
+        status = 'no_contacts';
+        await audit('no_contacts');
+      } else {
+        const requesterName = profile?.full_name || 'Someone who trusts you';
+
+        for (const contact of contacts) {
+          try {
+            const channel = getEscalationChannel(contact.channel);
+            const delivery = await channel.send(
+              escalationMessage(contact.destination, contact.name, requesterName, check.reason)
+            );
+            notified++;
+            await audit('contact_notified', {
+              contact_id: contact.id,
+              channel: contact.channel,
+              detail: { provider: delivery.provider, message_id: delivery.messageId ?? null },
+            });
+          } catch (error) {
+            console.error('Error notifying trusted contact:', contact.id, error);
+            await audit('delivery_failed', {
+              contact_id: contact.id,
+              channel: contact.channel,
+              detail: { error: error instanceof Error ? error.message : String(error) },
+            });
+          }
+        }
+
+        status = notified === contacts.length ? 'notified' : notified > 0 ? 'partially_notified' : 'failed';
+      }
+
+      await supabase
+        .from('safety_check_escalations')
+        .update({ status, completed_at: new Date().toISOString() })
+        .eq('id', claimed.id);
+
+      await audit('escalation_completed', { detail: { status, notified } });
+
+      results.push({
+        safety_check_id: check.id,
+        reason: check.reason,
+        status,
+        notified,
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        escalated: results.length,
+        results,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error escalating safety checks:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
+
+function unauthorized() {
+  return new Response(
+    JSON.stringify({ error: 'Unauthorized' }),
+    {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
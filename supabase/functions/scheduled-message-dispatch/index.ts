@@ -0,0 +1,142 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// How long to hold a due message while either partner is in the red zone
+const RED_ZONE_DEFER_MINUTES = 30;
+
+// Only a check-in this recent says what zone someone is in now; an old red
+// check-in would otherwise hold their messages indefinitely
+const CURRENT_ZONE_HOURS = 4;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const now = new Date();
+
+    // Expire finished cooling-off periods first so held messages are not
+    // kept any longer than necessary; partners are notified by trigger.
+    const { error: coolingOffError } = await supabase.rpc('auto_complete_cooling_off');
+    if (coolingOffError) {
+      console.error('Error completing cooling-off periods:', coolingOffError);
+    }
+
+    const { data: dueMessages, error: dueError } = await supabase
+      .from('couple_messages')
+      .select('id, couple_id, sender_id, receiver_id, scheduled_send_at')
+      .eq('status', 'scheduled')
+      .lte('scheduled_send_at', now.toISOString())
+      .order('scheduled_send_at', { ascending: true });
+
+    if (dueError) throw dueError;
+
+    const zoneSince = new Date(now.getTime() - CURRENT_ZONE_HOURS * 60 * 60 * 1000);
+    const zoneCache = new Map<string, string | undefined>();
+    const getZone = async (userId: string) => {
+      if (!zoneCache.has(userId)) {
+        const { data } = await supabase
+          .from('check_ins')
+          .select('nervous_system_zone')
+          .eq('user_id', userId)
+          .gte('created_at', zoneSince.toISOString())
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        zoneCache.set(userId, data?.nervous_system_zone);
+      }
+      return zoneCache.get(userId);
+    };
+
+    const results = [];
+    for (const message of dueMessages || []) {
+      const [senderZone, receiverZone] = await Promise.all([
+        getZone(message.sender_id),
+        getZone(message.receiver_id),
+      ]);
+
+      if (senderZone === 'red' || receiverZone === 'red') {
+        const deferredUntil = new Date(now.getTime() + RED_ZONE_DEFER_MINUTES * 60 * 1000);
+
+        await supabase
+          .from('couple_messages')
+          .update({ scheduled_send_at: deferredUntil.toISOString() })
+          .eq('id', message.id)
+          .eq('status', 'scheduled');
+
+        results.push({
+          message_id: message.id,
+          delivered: false,
+          deferred_until: deferredUntil.toISOString(),
+        });
+        continue;
+      }
+
+      // The status transition fires trigger_notify_delivered_message, which
+      // notifies the receiver. During an active cooling-off period
+      // trigger_enforce_cooling_off holds the message as a draft instead.
+      const { data: updated, error: updateError } = await supabase
+        .from('couple_messages')
+        .update({
+          status: 'sent',
+          sent_at: now.toISOString(),
+          sender_zone_at_send: senderZone,
+          receiver_zone_at_send: receiverZone,
+        })
+        .eq('id', message.id)
+        .eq('status', 'scheduled')
+        .select('id, status')
+        .maybeSingle();
+
+      if (updateError) {
+        console.error('Error delivering scheduled message:', updateError);
+      }
+
+      results.push({
+        message_id: message.id,
+        delivered: updated?.status === 'sent',
+        held: updated?.status === 'draft',
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        due: results.length,
+        delivered: results.filter((r) => r.delivered).length,
+        results,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in scheduled message dispatch:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
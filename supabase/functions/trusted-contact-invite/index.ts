@@ -0,0 +1,149 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.3";
+import { consentRequestMessage, getEscalationChannel } from "../_shared/escalationChannels.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const CONSENT_LINK_DAYS = 14;
+
+// Sends a pending trusted contact the link to agree (or decline) to be
+// contacted. A new link replaces any earlier one.
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    const { contactId }: { contactId: string } = await req.json();
+
+    // Read through the user's client so RLS limits this to their own contacts
+    const { data: contact, error: contactError } = await supabaseClient
+      .from("trusted_contacts")
+      .select("id, user_id, name, channel, destination, consent_status")
+      .eq("id", contactId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (contactError || !contact) {
+      throw new Error("Trusted contact not found");
+    }
+
+    if (contact.consent_status !== "pending") {
+      return new Response(
+        JSON.stringify({ error: "This contact has already answered" }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: profile } = await serviceClient
+      .from("user_profiles")
+      .select("full_name")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    const code = crypto.randomUUID().replaceAll("-", "");
+    const expiresAt = new Date(Date.now() + CONSENT_LINK_DAYS * 24 * 60 * 60 * 1000);
+
+    await serviceClient
+      .from("trusted_contact_consent_requests")
+      .delete()
+      .eq("contact_id", contact.id)
+      .is("used_at", null);
+
+    const { error: requestError } = await serviceClient
+      .from("trusted_contact_consent_requests")
+      .insert({ code, contact_id: contact.id, expires_at: expiresAt.toISOString() });
+
+    if (requestError) throw requestError;
+
+    const appUrl = Deno.env.get("APP_URL") || req.headers.get("origin") || "";
+    const consentUrl = `${appUrl}/trusted-contact/${code}`;
+
+    try {
+      const channel = getEscalationChannel(contact.channel);
+      const delivery = await channel.send(
+        consentRequestMessage(contact.destination, contact.name, profile?.full_name || "Someone you know", consentUrl)
+      );
+
+      await serviceClient
+        .from("trusted_contacts")
+        .update({ consent_requested_at: new Date().toISOString() })
+        .eq("id", contact.id);
+
+      await serviceClient.from("escalation_audit_log").insert({
+        user_id: user.id,
+        contact_id: contact.id,
+        event: "consent_requested",
+        channel: contact.channel,
+        detail: { provider: delivery.provider, message_id: delivery.messageId ?? null },
+      });
+    } catch (error) {
+      console.error("Error sending consent request:", error);
+
+      await serviceClient.from("escalation_audit_log").insert({
+        user_id: user.id,
+        contact_id: contact.id,
+        event: "delivery_failed",
+        channel: contact.channel,
+        detail: { purpose: "consent_request", error: error instanceof Error ? error.message : String(error) },
+      });
+
+      throw new Error("Couldn't send the request to this contact");
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, expires_at: expiresAt.toISOString() }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in trusted-contact-invite function:", error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || "An error occurred",
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,197 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getTranscriptionProvider, STUB_PROVIDER_NAME } from "../_shared/transcription.ts";
+import { analyzeToneOffline, type ToneAnalysis } from "../_shared/toneAnalyzer.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface VoiceTranscriptionRequest {
+  voiceMessageId: string;
+  senderZone?: string;
+  receiverZone?: string;
+  senderHeartRate?: number;
+  // The sender has reviewed a held message and chose to send it
+  sendAnyway?: boolean;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseClient = createClient(
+      supabaseUrl,
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    const requestData: VoiceTranscriptionRequest = await req.json();
+
+    const { data: voiceMessage, error: voiceError } = await supabaseClient
+      .from("voice_messages")
+      .select("*")
+      .eq("id", requestData.voiceMessageId)
+      .eq("sender_id", user.id)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (voiceError || !voiceMessage) {
+      throw new Error("Voice message not found");
+    }
+
+    // Only the service role can deliver voice messages
+    const serviceClient = createClient(
+      supabaseUrl,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    if (requestData.sendAnyway) {
+      if (!voiceMessage.held_at) {
+        throw new Error("Voice message hasn't been checked yet");
+      }
+
+      // Still rejected by the database during a cooling-off period
+      const { data: delivered, error: deliverError } = await serviceClient
+        .from("voice_messages")
+        .update({ status: "delivered", delivered_at: new Date().toISOString() })
+        .eq("id", voiceMessage.id)
+        .eq("status", "pending")
+        .select()
+        .single();
+
+      if (deliverError) throw deliverError;
+
+      return new Response(
+        JSON.stringify({ voiceMessage: delivered, delivered: true }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const { data: audio, error: downloadError } = await serviceClient.storage
+      .from("voice-messages")
+      .download(voiceMessage.audio_url);
+
+    if (downloadError || !audio) {
+      throw new Error("Could not load recording");
+    }
+
+    const provider = getTranscriptionProvider();
+    const transcription = await provider.transcribe(
+      audio,
+      voiceMessage.audio_url.split("/").pop() || "recording.webm"
+    );
+
+    // Reuse the text pipeline so voice and text get the same safety check
+    let analysis: ToneAnalysis | null = null;
+    if (transcription.text) {
+      const toneResponse = await fetch(`${supabaseUrl}/functions/v1/message-tone-analysis`, {
+        method: "POST",
+        headers: {
+          "Authorization": authHeader,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          message: transcription.text,
+          senderZone: requestData.senderZone,
+          receiverZone: requestData.receiverZone,
+          senderHeartRate: requestData.senderHeartRate,
+        }),
+      });
+
+      if (toneResponse.ok) {
+        analysis = await toneResponse.json();
+      } else {
+        console.error("Tone analysis error for voice message:", toneResponse.status);
+        analysis = analyzeToneOffline(transcription.text, requestData);
+      }
+    }
+
+    // No transcript, a stub transcript or no analysis means the recording
+    // itself wasn't checked, so the sender reviews it like a flagged message
+    const needsReview = provider.name === STUB_PROVIDER_NAME ||
+      !analysis ||
+      analysis.riskLevel !== "low" ||
+      analysis.shouldDelay;
+
+    const { data: inCoolingOff } = await supabaseClient.rpc("is_in_cooling_off", {
+      p_couple_id: voiceMessage.couple_id,
+    });
+
+    const deliver = !needsReview && !inCoolingOff;
+
+    const { data: updated, error: updateError } = await serviceClient
+      .from("voice_messages")
+      .update({
+        transcription: transcription.text,
+        transcription_confidence: transcription.confidence,
+        tone_analysis: analysis || {},
+        sender_zone_at_send: requestData.senderZone,
+        ...(deliver
+          ? { status: "delivered", delivered_at: new Date().toISOString() }
+          : { held_at: new Date().toISOString() }),
+      })
+      .eq("id", voiceMessage.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    return new Response(
+      JSON.stringify({
+        voiceMessage: updated,
+        analysis,
+        delivered: deliver,
+        heldForCoolingOff: !!inCoolingOff,
+        provider: provider.name,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error in voice-message-transcription function:", error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || "An error occurred",
+      }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,84 @@
+/*
+  # Scheduled Message Delivery
+
+  ## Overview
+  Scheduled couple messages are stored with `status = 'scheduled'` and a
+  `scheduled_send_at`, and are delivered by the `scheduled-message-dispatch`
+  edge function. This migration keeps pending messages private to the sender
+  until they are delivered and moves the partner notification to the moment
+  a message actually becomes `sent`.
+
+  ## Changes
+  - Receivers can no longer see `draft` or `scheduled` messages
+  - New message notifications fire on insert only for immediately sent
+    messages, and on update when a pending message transitions to `sent`
+
+  ## Indexes
+  - Partial index on couple_messages for due scheduled sends
+*/
+
+-- Hide pending messages from the receiver
+DROP POLICY IF EXISTS "Users can view messages for their couple" ON couple_messages;
+CREATE POLICY "Users can view messages for their couple"
+  ON couple_messages FOR SELECT
+  TO authenticated
+  USING (
+    (sender_id = auth.uid() OR status NOT IN ('draft', 'scheduled'))
+    AND EXISTS (
+      SELECT 1 FROM couples
+      WHERE couples.id = couple_messages.couple_id
+      AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_couple_messages_due
+  ON couple_messages(scheduled_send_at)
+  WHERE status = 'scheduled';
+
+-- Notify the receiver only once a message is actually delivered
+CREATE OR REPLACE FUNCTION notify_on_new_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_receiver_id uuid;
+  v_sender_name text;
+BEGIN
+  IF NEW.status <> 'sent' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status NOT IN ('draft', 'scheduled') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT CASE
+    WHEN NEW.sender_id = (SELECT partner_1_id FROM couples WHERE id = NEW.couple_id)
+    THEN (SELECT partner_2_id FROM couples WHERE id = NEW.couple_id)
+    ELSE (SELECT partner_1_id FROM couples WHERE id = NEW.couple_id)
+  END INTO v_receiver_id;
+
+  SELECT full_name INTO v_sender_name
+  FROM user_profiles
+  WHERE id = NEW.sender_id;
+
+  IF v_receiver_id IS NOT NULL THEN
+    PERFORM create_notification(
+      v_receiver_id,
+      'partner_message',
+      'New message from ' || COALESCE(v_sender_name, 'your partner'),
+      LEFT(NEW.content, 100),
+      'normal',
+      '/messages',
+      'message',
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_delivered_message ON couple_messages;
+CREATE TRIGGER trigger_notify_delivered_message
+  AFTER UPDATE OF status ON couple_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_new_message();
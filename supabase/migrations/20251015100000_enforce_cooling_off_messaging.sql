@@ -0,0 +1,139 @@
+/*
+  # Cooling-Off Enforcement for Couple Messages
+
+  ## Overview
+  While a couple has an active `cooling_off_periods` row, messages are held
+  server-side instead of being delivered. Held messages stay as drafts linked
+  to the cooling-off period and are only released when the sender re-confirms
+  after the period has ended. A small whitelist of safety/repair templates can
+  still be sent unchanged during the break.
+
+  ## Changes
+
+  ### `couple_messages`
+  - `cooling_off_period_id` (uuid) - References cooling_off_periods.id when the
+    message was held by a cooling-off period
+
+  ### `message_templates`
+  - `allowed_during_cooling_off` (boolean) - Template may be delivered during
+    an active cooling-off period when its content is unchanged
+
+  ## Functions
+  - `enforce_cooling_off()` - BEFORE INSERT/UPDATE trigger that turns any
+    delivery during an active cooling-off period into a held draft
+  - `notify_on_cooling_off_ended()` - Notifies both partners when a period ends
+    (expired via `auto_complete_cooling_off()` or ended early)
+*/
+
+ALTER TABLE couple_messages
+  ADD COLUMN IF NOT EXISTS cooling_off_period_id uuid REFERENCES cooling_off_periods(id) ON DELETE SET NULL;
+
+ALTER TABLE message_templates
+  ADD COLUMN IF NOT EXISTS allowed_during_cooling_off boolean DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_couple_messages_held
+  ON couple_messages(sender_id, cooling_off_period_id)
+  WHERE status = 'draft' AND cooling_off_period_id IS NOT NULL;
+
+-- Safety and repair templates that may still be sent during a break
+UPDATE message_templates
+SET allowed_during_cooling_off = true
+WHERE title IN ('I Need a Break', 'I Need Space', 'I See You''re Struggling');
+
+-- Hold deliveries during an active cooling-off period
+CREATE OR REPLACE FUNCTION enforce_cooling_off()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_period_id uuid;
+BEGIN
+  IF NEW.status <> 'sent' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status NOT IN ('draft', 'scheduled') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_period_id
+  FROM cooling_off_periods
+  WHERE couple_id = NEW.couple_id
+    AND status = 'active'
+    AND now() < ends_at
+  ORDER BY started_at DESC
+  LIMIT 1;
+
+  IF v_period_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.template_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM message_templates
+    WHERE id = NEW.template_id
+      AND allowed_during_cooling_off = true
+      AND content = NEW.content
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := 'draft';
+  NEW.sent_at := NULL;
+  NEW.cooling_off_period_id := v_period_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_cooling_off ON couple_messages;
+CREATE TRIGGER trigger_enforce_cooling_off
+  BEFORE INSERT OR UPDATE OF status ON couple_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_cooling_off();
+
+-- Let both partners know the break is over and held messages await review
+CREATE OR REPLACE FUNCTION notify_on_cooling_off_ended()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_partner_id uuid;
+  v_held_count integer;
+BEGIN
+  IF OLD.status <> 'active' OR NEW.status = 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_partner_id IN
+    SELECT unnest(ARRAY[partner_1_id, partner_2_id])
+    FROM couples
+    WHERE id = NEW.couple_id
+  LOOP
+    CONTINUE WHEN v_partner_id IS NULL;
+
+    SELECT COUNT(*) INTO v_held_count
+    FROM couple_messages
+    WHERE cooling_off_period_id = NEW.id
+      AND sender_id = v_partner_id
+      AND status = 'draft';
+
+    PERFORM create_notification(
+      v_partner_id,
+      'intervention',
+      'Cooling-off period has ended',
+      CASE
+        WHEN v_held_count > 0 THEN
+          'Your break is over. You have ' || v_held_count || ' held message(s) to review before they are sent.'
+        ELSE
+          'Your break is over. Check in with yourself before reconnecting with your partner.'
+      END,
+      'normal',
+      '/messages'
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_cooling_off_ended ON cooling_off_periods;
+CREATE TRIGGER trigger_notify_cooling_off_ended
+  AFTER UPDATE OF status ON cooling_off_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_cooling_off_ended();
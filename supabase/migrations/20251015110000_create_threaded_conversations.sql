@@ -0,0 +1,88 @@
+/*
+  # Threaded Conversations
+
+  ## Overview
+  Lets couples keep separate topics ("money", "in-laws", "weekend plans")
+  apart by attaching couple messages to `conversation_threads`. Messages
+  without a thread make up the general conversation.
+
+  ## Changes
+
+  ### `couple_messages`
+  - `thread_id` (uuid) - References conversation_threads.id (null for general)
+
+  ### `conversation_threads`
+  - `created_by` (uuid) - References user_profiles.id (who started the topic)
+
+  ## Security
+  - Both partners can create, rename and archive threads for their couple
+
+  ## Functions
+  - Trigger to keep `conversation_threads.last_message_at` current whenever a
+    message in the thread is delivered
+*/
+
+ALTER TABLE couple_messages
+  ADD COLUMN IF NOT EXISTS thread_id uuid REFERENCES conversation_threads(id) ON DELETE SET NULL;
+
+ALTER TABLE conversation_threads
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_couple_messages_thread ON couple_messages(thread_id, sent_at);
+
+-- Conversation threads policies
+CREATE POLICY "Users can create threads for their couple"
+  ON conversation_threads FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM couples
+      WHERE couples.id = conversation_threads.couple_id
+      AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update threads for their couple"
+  ON conversation_threads FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM couples
+      WHERE couples.id = conversation_threads.couple_id
+      AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM couples
+      WHERE couples.id = conversation_threads.couple_id
+      AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+    )
+  );
+
+-- Keep last_message_at in sync with delivered messages
+CREATE OR REPLACE FUNCTION update_thread_last_message_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.thread_id IS NULL OR NEW.status <> 'sent' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'sent' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE conversation_threads
+  SET last_message_at = COALESCE(NEW.sent_at, now())
+  WHERE id = NEW.thread_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_thread_last_message_at ON couple_messages;
+CREATE TRIGGER trigger_thread_last_message_at
+  AFTER INSERT OR UPDATE OF status ON couple_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_thread_last_message_at();
@@ -0,0 +1,147 @@
+/*
+  # Voice Message Delivery
+
+  ## Overview
+  Voice messages are recorded in the browser, uploaded to the private
+  `voice-messages` storage bucket, transcribed by the
+  `voice-message-transcription` edge function and run through
+  `message-tone-analysis` before they are delivered to the partner.
+
+  ## Changes
+
+  ### `voice_messages`
+  - `status` (text) - pending (uploaded, not yet delivered) or delivered
+  - `delivered_at` (timestamptz) - When the partner received it
+  - `thread_id` (uuid) - References conversation_threads.id (null for general)
+  - `audio_url` now stores the object path inside the `voice-messages` bucket
+
+  ### Storage
+  - Private `voice-messages` bucket, objects stored under `<couple_id>/<sender_id>/`
+
+  ## Security
+  - Receivers only see delivered voice messages
+  - Senders can delete their own pending voice messages
+  - Delivery is rejected while the couple is in an active cooling-off period
+  - Couple members can read audio for their couple; senders upload to their own folder
+
+  ## Functions
+  - Notify the receiver when a voice message is delivered
+*/
+
+ALTER TABLE voice_messages
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered')),
+  ADD COLUMN IF NOT EXISTS delivered_at timestamptz,
+  ADD COLUMN IF NOT EXISTS thread_id uuid REFERENCES conversation_threads(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_voice_messages_thread ON voice_messages(thread_id, delivered_at);
+
+-- Voice messages policies
+DROP POLICY IF EXISTS "Users can view voice messages for their couple" ON voice_messages;
+CREATE POLICY "Users can view voice messages for their couple"
+  ON voice_messages FOR SELECT
+  TO authenticated
+  USING (
+    (sender_id = auth.uid() OR status = 'delivered')
+    AND EXISTS (
+      SELECT 1 FROM couples
+      WHERE couples.id = voice_messages.couple_id
+      AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can delete own pending voice messages"
+  ON voice_messages FOR DELETE
+  TO authenticated
+  USING (sender_id = auth.uid() AND status = 'pending');
+
+-- Storage bucket for recordings
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('voice-messages', 'voice-messages', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Couple members can read voice recordings"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'voice-messages'
+    AND EXISTS (
+      SELECT 1 FROM couples
+      WHERE couples.id::text = (storage.foldername(name))[1]
+      AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can upload their own voice recordings"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'voice-messages'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM couples
+      WHERE couples.id::text = (storage.foldername(name))[1]
+      AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can delete their own voice recordings"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'voice-messages'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+-- Block delivery during an active cooling-off period
+CREATE OR REPLACE FUNCTION enforce_voice_cooling_off()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'delivered'
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'delivered')
+    AND is_in_cooling_off(NEW.couple_id)
+  THEN
+    RAISE EXCEPTION 'Voice messages cannot be delivered during an active cooling-off period';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_voice_cooling_off ON voice_messages;
+CREATE TRIGGER trigger_enforce_voice_cooling_off
+  BEFORE INSERT OR UPDATE OF status ON voice_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_voice_cooling_off();
+
+-- Notify the receiver once a voice message is delivered
+CREATE OR REPLACE FUNCTION notify_on_voice_message_delivered()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_sender_name text;
+BEGIN
+  IF NEW.status <> 'delivered' OR (TG_OP = 'UPDATE' AND OLD.status = 'delivered') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name
+  FROM user_profiles
+  WHERE id = NEW.sender_id;
+
+  PERFORM create_notification(
+    NEW.receiver_id,
+    'partner_message',
+    'New voice message from ' || COALESCE(v_sender_name, 'your partner'),
+    COALESCE(NULLIF(LEFT(NEW.transcription, 100), ''), 'Tap to listen'),
+    'normal',
+    '/messages'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_voice_message ON voice_messages;
+CREATE TRIGGER trigger_notify_voice_message
+  AFTER INSERT OR UPDATE OF status ON voice_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_voice_message_delivered();
@@ -0,0 +1,68 @@
+/*
+  # Coaching Memory
+
+  ## Overview
+  Gives the AI coach long-term memory across `coaching_sessions`. When a
+  session ends the `coaching-session-summary` edge function writes a short
+  summary of it here; `ai-coach` feeds the most relevant summaries, outcomes
+  and ratings back into its system prompt. Only summaries are remembered,
+  never full transcripts, and users can delete any of them.
+
+  ## New Tables
+
+  ### `coaching_memories`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References user_profiles.id (whose memory this is)
+  - `session_id` (uuid) - References coaching_sessions.id (one memory per session)
+  - `summary` (text) - What was discussed and what helped
+  - `topics` (text[]) - Short keywords used to pick relevant memories
+  - `outcome` (text) - Copied from the session when it ended
+  - `effectiveness_rating` (integer) - Copied from the session when it ended
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ## Security
+  - Users can view, create and delete only their own memories
+*/
+
+CREATE TABLE IF NOT EXISTS coaching_memories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  session_id uuid NOT NULL UNIQUE REFERENCES coaching_sessions(id) ON DELETE CASCADE,
+  summary text NOT NULL,
+  topics text[] DEFAULT ARRAY[]::text[],
+  outcome text DEFAULT '',
+  effectiveness_rating integer CHECK (effectiveness_rating BETWEEN 1 AND 5),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coaching_memories_user ON coaching_memories(user_id, created_at DESC);
+
+ALTER TABLE coaching_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own coaching memories"
+  ON coaching_memories FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own coaching memories"
+  ON coaching_memories FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM coaching_sessions
+      WHERE coaching_sessions.id = coaching_memories.session_id
+      AND coaching_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own coaching memories"
+  ON coaching_memories FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own coaching memories"
+  ON coaching_memories FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
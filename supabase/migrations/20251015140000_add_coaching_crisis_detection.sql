@@ -0,0 +1,24 @@
+/*
+  # Crisis Detection in AI Coaching
+
+  ## Overview
+  `ai-coach` now screens each user message for self-harm, violence and abuse
+  language before it reaches the model. A hit switches the coaching session to
+  `crisis`, returns hotlines for the user's country and records a safety check.
+
+  ## Changes
+
+  ### `safety_checks`
+  - `check_type` now also allows `crisis_language`
+
+  ### `coaching_sessions`
+  - `crisis_detected_at` (timestamptz) - When crisis language was first detected
+*/
+
+ALTER TABLE safety_checks DROP CONSTRAINT IF EXISTS safety_checks_check_type_check;
+ALTER TABLE safety_checks
+  ADD CONSTRAINT safety_checks_check_type_check
+  CHECK (check_type IN ('disengagement', 'sustained_red_zone', 'high_risk_pattern', 'crisis_language'));
+
+ALTER TABLE coaching_sessions
+  ADD COLUMN IF NOT EXISTS crisis_detected_at timestamptz;
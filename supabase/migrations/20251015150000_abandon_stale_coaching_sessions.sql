@@ -0,0 +1,42 @@
+/*
+  # Abandon Stale Coaching Sessions
+
+  ## Overview
+  The AI coach now resumes a user's open session instead of starting a new
+  one on every visit. Sessions that have gone quiet for a day are closed as
+  `abandoned` so they stop being offered for resuming.
+
+  ## Functions
+  - `auto_abandon_stale_coaching_sessions()` marks active sessions with no
+    activity for 24 hours as abandoned, using the last message time as
+    `ended_at`. Returns the number of sessions closed.
+*/
+
+CREATE INDEX IF NOT EXISTS idx_coaching_sessions_active ON coaching_sessions(started_at)
+  WHERE status = 'active';
+
+CREATE OR REPLACE FUNCTION auto_abandon_stale_coaching_sessions()
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH activity AS (
+    SELECT
+      cs.id,
+      GREATEST(cs.started_at, COALESCE(MAX(cm.created_at), cs.started_at)) AS last_activity
+    FROM coaching_sessions cs
+    LEFT JOIN coaching_messages cm ON cm.session_id = cs.id
+    WHERE cs.status = 'active'
+    GROUP BY cs.id, cs.started_at
+  )
+  UPDATE coaching_sessions
+  SET status = 'abandoned',
+      ended_at = activity.last_activity
+  FROM activity
+  WHERE coaching_sessions.id = activity.id
+    AND activity.last_activity < now() - interval '24 hours';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
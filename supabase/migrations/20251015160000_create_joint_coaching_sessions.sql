@@ -0,0 +1,204 @@
+/*
+  # Joint Coaching Sessions
+
+  ## Overview
+  Lets both partners join the same AI coaching session in realtime. The coach
+  acts as a neutral mediator, sees both partners' zones and readiness, and the
+  partners take turns speaking.
+
+  ## New Tables
+
+  ### `coaching_session_participants`
+  - `id` (uuid, primary key) - Unique identifier
+  - `session_id` (uuid) - References coaching_sessions.id
+  - `user_id` (uuid) - References user_profiles.id
+  - `joined_at` (timestamptz) - When the partner opened the session (null while invited)
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ## Changes
+
+  ### `coaching_sessions`
+  - `is_joint` (boolean) - Both partners take part
+  - `current_turn_user_id` (uuid) - Participant whose turn it is to speak
+
+  ### `coaching_messages`
+  - `sender_id` (uuid) - Who wrote the message (defaults to the current user)
+
+  ## Security
+  - Participants can view and update joint sessions they belong to
+  - Participants can read and write messages in those sessions
+  - Only the session creator can invite participants
+
+  ## Functions
+  - `is_coaching_participant(session_id)` helper used by the policies
+  - Trigger rejecting user messages from the partner whose turn it isn't
+  - Trigger passing the turn to the other partner once they have joined
+  - Trigger notifying the invited partner
+*/
+
+ALTER TABLE coaching_sessions
+  ADD COLUMN IF NOT EXISTS is_joint boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS current_turn_user_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE coaching_messages
+  ADD COLUMN IF NOT EXISTS sender_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+CREATE TABLE IF NOT EXISTS coaching_session_participants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES coaching_sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  joined_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (session_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coaching_participants_user ON coaching_session_participants(user_id, created_at DESC);
+
+ALTER TABLE coaching_session_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_coaching_participant(p_session_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM coaching_session_participants
+    WHERE session_id = p_session_id
+    AND user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Participant policies
+CREATE POLICY "Participants can view session participants"
+  ON coaching_session_participants FOR SELECT
+  TO authenticated
+  USING (is_coaching_participant(session_id));
+
+CREATE POLICY "Session creators can invite participants"
+  ON coaching_session_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM coaching_sessions
+      JOIN couples ON couples.id = coaching_sessions.couple_id
+      WHERE coaching_sessions.id = coaching_session_participants.session_id
+      AND coaching_sessions.user_id = auth.uid()
+      AND coaching_session_participants.user_id IN (couples.partner_1_id, couples.partner_2_id)
+    )
+  );
+
+CREATE POLICY "Participants can update own participation"
+  ON coaching_session_participants FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Joint session policies (in addition to the owner policies)
+CREATE POLICY "Participants can view joint coaching sessions"
+  ON coaching_sessions FOR SELECT
+  TO authenticated
+  USING (is_joint AND is_coaching_participant(id));
+
+CREATE POLICY "Participants can update joint coaching sessions"
+  ON coaching_sessions FOR UPDATE
+  TO authenticated
+  USING (is_joint AND is_coaching_participant(id))
+  WITH CHECK (is_joint AND is_coaching_participant(id));
+
+CREATE POLICY "Participants can view joint session messages"
+  ON coaching_messages FOR SELECT
+  TO authenticated
+  USING (is_coaching_participant(session_id));
+
+CREATE POLICY "Participants can create joint session messages"
+  ON coaching_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (is_coaching_participant(session_id));
+
+-- Enforce turn-taking on user messages
+CREATE OR REPLACE FUNCTION enforce_joint_coaching_turn()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_session coaching_sessions%ROWTYPE;
+BEGIN
+  IF NEW.role <> 'user' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_session FROM coaching_sessions WHERE id = NEW.session_id;
+
+  IF v_session.is_joint
+    AND v_session.current_turn_user_id IS NOT NULL
+    AND v_session.current_turn_user_id <> NEW.sender_id THEN
+    RAISE EXCEPTION 'It is your partner''s turn to speak in this session';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_joint_coaching_turn ON coaching_messages;
+CREATE TRIGGER trigger_enforce_joint_coaching_turn
+  BEFORE INSERT ON coaching_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_joint_coaching_turn();
+
+-- Pass the turn once a partner has spoken (only to a partner who has joined)
+CREATE OR REPLACE FUNCTION advance_joint_coaching_turn()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_next_user_id uuid;
+BEGIN
+  IF NEW.role <> 'user' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_next_user_id
+  FROM coaching_session_participants
+  WHERE session_id = NEW.session_id
+    AND user_id <> NEW.sender_id
+    AND joined_at IS NOT NULL
+  LIMIT 1;
+
+  IF v_next_user_id IS NOT NULL THEN
+    UPDATE coaching_sessions
+    SET current_turn_user_id = v_next_user_id
+    WHERE id = NEW.session_id
+      AND is_joint;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_advance_joint_coaching_turn ON coaching_messages;
+CREATE TRIGGER trigger_advance_joint_coaching_turn
+  AFTER INSERT ON coaching_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION advance_joint_coaching_turn();
+
+-- Invite the partner
+CREATE OR REPLACE FUNCTION notify_on_joint_coaching_invite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.joined_at IS NULL THEN
+    PERFORM create_notification(
+      NEW.user_id,
+      'partner_message',
+      'Joint coaching session',
+      'Your partner invited you to a joint session with the AI coach.',
+      'normal',
+      '/ai-coach?session=' || NEW.session_id,
+      NULL,
+      NULL
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_joint_coaching_invite ON coaching_session_participants;
+CREATE TRIGGER trigger_notify_joint_coaching_invite
+  AFTER INSERT ON coaching_session_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_on_joint_coaching_invite();
@@ -0,0 +1,74 @@
+/*
+  # Content Search Index
+
+  ## Overview
+  The AI coach grounds its answers in PairCalm's own library: wellness
+  content, workbook exercises, coaching techniques and rituals. Edge functions
+  build a keyword (BM25) index over that catalog and keep the serialized index
+  here, so retrieval needs no external embedding service.
+
+  ## New Tables
+
+  ### `content_search_index`
+  - `id` (text, primary key) - Index name (`coach`)
+  - `index_data` (jsonb) - Serialized index
+  - `document_count` (integer) - Number of indexed items
+  - `built_at` (timestamptz) - When the index was last built
+  - `content_changed_at` (timestamptz) - Last change to any indexed table
+
+  ## Security
+  - RLS enabled with no policies: only edge functions (service role) read or
+    write the index
+
+  ## Functions
+  - `mark_content_search_index_stale()` trigger on wellness_content,
+    workbook_exercises, coaching_techniques and rituals. The index is rebuilt
+    on next use when `content_changed_at` is newer than `built_at`, or right
+    away by calling the `rebuild-content-index` edge function.
+*/
+
+CREATE TABLE IF NOT EXISTS content_search_index (
+  id text PRIMARY KEY,
+  index_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  document_count integer DEFAULT 0,
+  built_at timestamptz,
+  content_changed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE content_search_index ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO content_search_index (id) VALUES ('coach')
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION mark_content_search_index_stale()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE content_search_index SET content_changed_at = now();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_content_index_wellness ON wellness_content;
+-- View and favorite counters change constantly and aren't indexed
+CREATE TRIGGER trigger_content_index_wellness
+  AFTER INSERT OR DELETE OR UPDATE OF title, description, tags, benefits, is_published ON wellness_content
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION mark_content_search_index_stale();
+
+DROP TRIGGER IF EXISTS trigger_content_index_workbook ON workbook_exercises;
+CREATE TRIGGER trigger_content_index_workbook
+  AFTER INSERT OR UPDATE OR DELETE ON workbook_exercises
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION mark_content_search_index_stale();
+
+DROP TRIGGER IF EXISTS trigger_content_index_techniques ON coaching_techniques;
+CREATE TRIGGER trigger_content_index_techniques
+  AFTER INSERT OR UPDATE OR DELETE ON coaching_techniques
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION mark_content_search_index_stale();
+
+DROP TRIGGER IF EXISTS trigger_content_index_rituals ON rituals;
+CREATE TRIGGER trigger_content_index_rituals
+  AFTER INSERT OR UPDATE OR DELETE ON rituals
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION mark_content_search_index_stale();
@@ -0,0 +1,161 @@
+/*
+  # Usage Metering and Tier Quotas
+
+  ## Overview
+  `ai-coach` and `message-tone-analysis` call a paid LLM on every request.
+  Usage is now counted per user per calendar month and checked against the
+  user's tier `limits` before the model is called. Users without an active
+  subscription get the free tier's limits. A metric with no limit in the tier
+  is unlimited.
+
+  ## New Tables
+
+  ### `usage_counters`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References user_profiles.id
+  - `metric` (text) - `ai_coach_messages` or `tone_analyses`
+  - `period_start` (date) - First day of the metered month
+  - `count` (integer) - Calls made in the period
+  - `updated_at` (timestamptz) - Last call
+
+  ## Changes
+
+  ### `subscription_tiers.limits`
+  - free: 30 AI coach messages and 100 tone analyses per month
+  - premium: 600 AI coach messages and 3000 tone analyses per month
+  - couples_plus: unlimited
+
+  ## Security
+  - Users can view their own counters; only the functions below write them
+
+  ## Functions
+  - `consume_usage_quota(metric)` counts one call for the current user if it
+    is within the limit. Returns `{allowed, used, limit, tier, resets_at}`.
+  - `get_usage_summary()` returns the current user's usage for every metered
+    metric, for the usage meter on the profile page.
+*/
+
+CREATE TABLE IF NOT EXISTS usage_counters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  metric text NOT NULL CHECK (metric IN ('ai_coach_messages', 'tone_analyses')),
+  period_start date NOT NULL,
+  count integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, metric, period_start)
+);
+
+ALTER TABLE usage_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own usage"
+  ON usage_counters FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+UPDATE subscription_tiers
+SET limits = limits || '{"ai_coach_messages_per_month": 30, "tone_analyses_per_month": 100}'::jsonb
+WHERE name = 'free';
+
+UPDATE subscription_tiers
+SET limits = limits || '{"ai_coach_messages_per_month": 600, "tone_analyses_per_month": 3000}'::jsonb
+WHERE name = 'premium';
+
+-- Tier name and limits for a user: active subscription, else the free tier
+CREATE OR REPLACE FUNCTION get_user_tier_limits(p_user_id uuid)
+RETURNS TABLE (tier_name text, limits jsonb) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT t.name, t.limits
+  FROM subscriptions s
+  JOIN subscription_tiers t ON s.tier_id = t.id
+  WHERE s.user_id = p_user_id
+    AND s.status = 'active'
+    AND s.current_period_end > now()
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT t.name, t.limits
+    FROM subscription_tiers t
+    WHERE t.name = 'free';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+CREATE OR REPLACE FUNCTION consume_usage_quota(p_metric text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tier text;
+  v_limits jsonb;
+  v_limit integer;
+  v_period_start date := date_trunc('month', now())::date;
+  v_count integer;
+  v_allowed boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT tier_name, limits INTO v_tier, v_limits
+  FROM get_user_tier_limits(v_user_id);
+
+  v_limit := (v_limits->>(p_metric || '_per_month'))::integer;
+
+  -- Increment only while under the limit, so concurrent calls can't overshoot
+  INSERT INTO usage_counters (user_id, metric, period_start, count)
+  VALUES (v_user_id, p_metric, v_period_start, 1)
+  ON CONFLICT (user_id, metric, period_start) DO UPDATE
+  SET count = usage_counters.count + 1,
+      updated_at = now()
+  WHERE v_limit IS NULL OR usage_counters.count < v_limit
+  RETURNING count INTO v_count;
+
+  -- No row comes back when the limit was already reached
+  v_allowed := v_count IS NOT NULL;
+
+  IF NOT v_allowed THEN
+    SELECT count INTO v_count
+    FROM usage_counters
+    WHERE user_id = v_user_id
+      AND metric = p_metric
+      AND period_start = v_period_start;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', v_allowed,
+    'used', v_count,
+    'limit', v_limit,
+    'tier', v_tier,
+    'resets_at', (v_period_start + interval '1 month')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_usage_summary()
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tier text;
+  v_limits jsonb;
+  v_period_start date := date_trunc('month', now())::date;
+BEGIN
+  SELECT tier_name, limits INTO v_tier, v_limits
+  FROM get_user_tier_limits(v_user_id);
+
+  RETURN (
+    SELECT jsonb_agg(jsonb_build_object(
+      'metric', m.metric,
+      'used', COALESCE(uc.count, 0),
+      'limit', (v_limits->>(m.metric || '_per_month'))::integer,
+      'tier', v_tier,
+      'resets_at', (v_period_start + interval '1 month')
+    ))
+    FROM (VALUES ('ai_coach_messages'), ('tone_analyses')) AS m(metric)
+    LEFT JOIN usage_counters uc
+      ON uc.user_id = v_user_id
+      AND uc.metric = m.metric
+      AND uc.period_start = v_period_start
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
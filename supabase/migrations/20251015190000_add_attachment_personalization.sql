@@ -0,0 +1,58 @@
+/*
+  # Attachment Style Personalization
+
+  ## Overview
+  `user_profiles.attachment_style` is captured during onboarding. The AI coach
+  and message tone analysis now use both partners' styles to tailor their
+  guidance (for example an anxious/avoidant pursue-withdraw dynamic). Users
+  can turn this off; it is on by default.
+
+  ## Changes
+
+  ### `user_profiles`
+  - `attachment_personalization` (boolean) - Whether the user's attachment
+    style may be used to personalize coaching and message guidance
+
+  ## Functions
+  - `get_attachment_context()` returns `{enabled, style, partner_style}` for
+    the current user. Nothing is returned when the user has opted out, and
+    the partner's style is only included when the partner has not opted out
+    either.
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS attachment_personalization boolean NOT NULL DEFAULT true;
+
+CREATE OR REPLACE FUNCTION get_attachment_context()
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_enabled boolean;
+  v_style text;
+  v_partner_style text;
+BEGIN
+  SELECT attachment_personalization, attachment_style
+  INTO v_enabled, v_style
+  FROM user_profiles
+  WHERE id = v_user_id;
+
+  IF NOT COALESCE(v_enabled, false) THEN
+    RETURN jsonb_build_object('enabled', false, 'style', null, 'partner_style', null);
+  END IF;
+
+  SELECT p.attachment_style INTO v_partner_style
+  FROM couples c
+  JOIN user_profiles p
+    ON p.id = CASE WHEN c.partner_1_id = v_user_id THEN c.partner_2_id ELSE c.partner_1_id END
+  WHERE (c.partner_1_id = v_user_id OR c.partner_2_id = v_user_id)
+    AND c.status = 'active'
+    AND p.attachment_personalization
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'enabled', true,
+    'style', v_style,
+    'partner_style', v_partner_style
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
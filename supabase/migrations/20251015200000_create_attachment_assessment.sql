@@ -0,0 +1,66 @@
+/*
+  # Attachment Style Assessment
+
+  ## Overview
+  Onboarding used to ask users to pick their own attachment style. It now runs
+  the 12-item Experiences in Close Relationships short form (ECR-S), which
+  scores two dimensions, attachment anxiety and avoidance, on a 1-7 scale.
+  The style written to `user_profiles.attachment_style` comes from those
+  scores, and users can retake the questionnaire later. Every completion is
+  kept in `assessment_responses`, which gives the result history.
+
+  ## Changes
+
+  ### `assessments`
+  - New `attachment` category
+
+  ### `assessment_questions`
+  - `dimension` (text) - Subscale the item belongs to (e.g. `anxiety`)
+  - `reverse_scored` (boolean) - Item is scored as (scale_min + scale_max - answer)
+
+  ### `assessment_responses`
+  - `dimension_scores` (jsonb) - Mean score per dimension
+  - `result` (text) - Outcome label, e.g. the attachment style
+
+  ## Data
+  - `ECR-S` assessment with its 12 questions (6 anxiety, 6 avoidance)
+*/
+
+ALTER TABLE assessments DROP CONSTRAINT IF EXISTS assessments_category_check;
+ALTER TABLE assessments ADD CONSTRAINT assessments_category_check
+  CHECK (category IN ('anxiety', 'depression', 'wellness', 'stress', 'general', 'attachment'));
+
+ALTER TABLE assessment_questions
+  ADD COLUMN IF NOT EXISTS dimension text,
+  ADD COLUMN IF NOT EXISTS reverse_scored boolean NOT NULL DEFAULT false;
+
+ALTER TABLE assessment_responses
+  ADD COLUMN IF NOT EXISTS dimension_scores jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS result text;
+
+INSERT INTO assessments (name, description, category) VALUES
+  ('ECR-S', 'Experiences in Close Relationships - Short Form (attachment anxiety and avoidance)', 'attachment')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO assessment_questions
+  (assessment_id, question_text, question_order, response_type, scale_min, scale_max, dimension, reverse_scored)
+SELECT a.id, q.question_text, q.question_order, 'scale', 1, 7, q.dimension, q.reverse_scored
+FROM assessments a
+CROSS JOIN (VALUES
+  ('It helps to turn to my partner in times of need.', 1, 'avoidance', true),
+  ('I need a lot of reassurance that I am loved by my partner.', 2, 'anxiety', false),
+  ('I want to get close to my partner, but I keep pulling back.', 3, 'avoidance', false),
+  ('I find that my partner doesn''t want to get as close as I would like.', 4, 'anxiety', false),
+  ('I turn to my partner for many things, including comfort and reassurance.', 5, 'avoidance', true),
+  ('My desire to be very close sometimes scares people away.', 6, 'anxiety', false),
+  ('I try to avoid getting too close to my partner.', 7, 'avoidance', false),
+  ('I do not often worry about being abandoned.', 8, 'anxiety', true),
+  ('I usually discuss my problems and concerns with my partner.', 9, 'avoidance', true),
+  ('I get frustrated if my partner is not available when I need them.', 10, 'anxiety', false),
+  ('I am nervous when my partner gets too close to me.', 11, 'avoidance', false),
+  ('I worry that my partner won''t care about me as much as I care about them.', 12, 'anxiety', false)
+) AS q(question_text, question_order, dimension, reverse_scored)
+WHERE a.name = 'ECR-S'
+  AND NOT EXISTS (
+    SELECT 1 FROM assessment_questions existing WHERE existing.assessment_id = a.id
+  );
@@ -0,0 +1,184 @@
+/*
+  # Assessment Engine
+
+  ## Overview
+  Turns the seeded PHQ-9, GAD-7, PSS and WHO-5 assessments into runnable
+  questionnaires. Each assessment now carries its own scoring rules (sum or
+  mean of item scores, reverse-scored items from the previous migration),
+  severity bands and a re-administration interval. Results are kept in
+  `assessment_responses` so trends can be shown over time, and a daily job
+  reminds users when an assessment they've taken before is due again.
+
+  ## Changes
+
+  ### `assessments`
+  - `instructions` (text) - Shown above the questions
+  - `scoring_method` (text) - `sum` or `mean` of item scores
+  - `severity_bands` (jsonb) - Ordered `[{min, max, label, severity}]`, where
+    severity is `none`, `mild`, `moderate` or `severe`
+  - `response_labels` (jsonb) - Answer labels keyed by scale value
+  - `retake_interval_days` (integer) - Days until the assessment is due
+    again; null means no reminders
+
+  ### `assessment_questions`
+  - `critical_threshold` (integer) - An answer at or above this value flags
+    the response for crisis support regardless of the total (e.g. PHQ-9
+    item 9, thoughts of self-harm)
+
+  ### `assessment_responses`
+  - `severity` (text) - Severity of the matched band
+  - `critical_flag` (boolean) - A critical item was answered at or above
+    its threshold
+
+  ### `notifications`
+  - New `assessment_reminder` type and `assessment` related entity type
+
+  ## Data
+  - Questions, scoring and bands for PHQ-9, GAD-7, PSS-10 and WHO-5
+  - Response labels and instructions for ECR-S
+*/
+
+ALTER TABLE assessments
+  ADD COLUMN IF NOT EXISTS instructions text DEFAULT '',
+  ADD COLUMN IF NOT EXISTS scoring_method text NOT NULL DEFAULT 'sum' CHECK (scoring_method IN ('sum', 'mean')),
+  ADD COLUMN IF NOT EXISTS severity_bands jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS response_labels jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS retake_interval_days integer CHECK (retake_interval_days > 0);
+
+ALTER TABLE assessment_questions
+  ADD COLUMN IF NOT EXISTS critical_threshold integer;
+
+ALTER TABLE assessment_responses
+  ADD COLUMN IF NOT EXISTS severity text CHECK (severity IN ('none', 'mild', 'moderate', 'severe')),
+  ADD COLUMN IF NOT EXISTS critical_flag boolean NOT NULL DEFAULT false;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('crisis_alert', 'ritual_reminder', 'partner_message', 'appreciation', 'safety_check', 'intervention', 'partner_zone_change', 'conflict_alert', 'streak_milestone', 'assessment_reminder'));
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_related_entity_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_related_entity_type_check
+  CHECK (related_entity_type IN ('crisis_intervention', 'ritual', 'message', 'appreciation_deposit', 'safety_check', 'conflict', 'assessment'));
+
+-- Scoring rules
+UPDATE assessments SET
+  instructions = 'Over the last 2 weeks, how often have you been bothered by any of the following problems?',
+  response_labels = '{"0": "Not at all", "1": "Several days", "2": "More than half the days", "3": "Nearly every day"}',
+  severity_bands = '[
+    {"min": 0, "max": 4, "label": "Minimal depression", "severity": "none"},
+    {"min": 5, "max": 9, "label": "Mild depression", "severity": "mild"},
+    {"min": 10, "max": 14, "label": "Moderate depression", "severity": "moderate"},
+    {"min": 15, "max": 19, "label": "Moderately severe depression", "severity": "severe"},
+    {"min": 20, "max": 27, "label": "Severe depression", "severity": "severe"}
+  ]',
+  retake_interval_days = 14
+WHERE name = 'PHQ-9';
+
+UPDATE assessments SET
+  instructions = 'Over the last 2 weeks, how often have you been bothered by the following problems?',
+  response_labels = '{"0": "Not at all", "1": "Several days", "2": "More than half the days", "3": "Nearly every day"}',
+  severity_bands = '[
+    {"min": 0, "max": 4, "label": "Minimal anxiety", "severity": "none"},
+    {"min": 5, "max": 9, "label": "Mild anxiety", "severity": "mild"},
+    {"min": 10, "max": 14, "label": "Moderate anxiety", "severity": "moderate"},
+    {"min": 15, "max": 21, "label": "Severe anxiety", "severity": "severe"}
+  ]',
+  retake_interval_days = 14
+WHERE name = 'GAD-7';
+
+UPDATE assessments SET
+  instructions = 'The questions ask about your feelings and thoughts during the last month. Indicate how often you felt or thought a certain way.',
+  response_labels = '{"0": "Never", "1": "Almost never", "2": "Sometimes", "3": "Fairly often", "4": "Very often"}',
+  severity_bands = '[
+    {"min": 0, "max": 13, "label": "Low stress", "severity": "none"},
+    {"min": 14, "max": 26, "label": "Moderate stress", "severity": "moderate"},
+    {"min": 27, "max": 40, "label": "High stress", "severity": "severe"}
+  ]',
+  retake_interval_days = 30
+WHERE name = 'PSS';
+
+-- WHO-5: higher is better, so the lowest band is the most severe
+UPDATE assessments SET
+  instructions = 'Please indicate for each of the five statements which is closest to how you have been feeling over the last two weeks.',
+  response_labels = '{"0": "At no time", "1": "Some of the time", "2": "Less than half of the time", "3": "More than half of the time", "4": "Most of the time", "5": "All of the time"}',
+  severity_bands = '[
+    {"min": 0, "max": 7, "label": "Very low well-being", "severity": "severe"},
+    {"min": 8, "max": 12, "label": "Low well-being", "severity": "moderate"},
+    {"min": 13, "max": 25, "label": "Good well-being", "severity": "none"}
+  ]',
+  retake_interval_days = 14
+WHERE name = 'WHO-5';
+
+UPDATE assessments SET
+  instructions = 'Think about your close relationships in general, not just one moment. Rate how much you agree with each statement. There are no right or wrong answers.',
+  scoring_method = 'mean',
+  response_labels = '{"1": "Strongly disagree", "4": "Neutral", "7": "Strongly agree"}'
+WHERE name = 'ECR-S';
+
+-- Questions
+INSERT INTO assessment_questions
+  (assessment_id, question_text, question_order, response_type, scale_min, scale_max, reverse_scored, critical_threshold)
+SELECT a.id, q.question_text, q.question_order, 'scale', 0, 3, false, q.critical_threshold
+FROM assessments a
+CROSS JOIN (VALUES
+  ('Little interest or pleasure in doing things', 1, NULL::integer),
+  ('Feeling down, depressed, or hopeless', 2, NULL),
+  ('Trouble falling or staying asleep, or sleeping too much', 3, NULL),
+  ('Feeling tired or having little energy', 4, NULL),
+  ('Poor appetite or overeating', 5, NULL),
+  ('Feeling bad about yourself, or that you are a failure or have let yourself or your family down', 6, NULL),
+  ('Trouble concentrating on things, such as reading or watching television', 7, NULL),
+  ('Moving or speaking so slowly that other people could have noticed, or being so fidgety or restless that you have been moving around a lot more than usual', 8, NULL),
+  ('Thoughts that you would be better off dead, or of hurting yourself in some way', 9, 1)
+) AS q(question_text, question_order, critical_threshold)
+WHERE a.name = 'PHQ-9'
+  AND NOT EXISTS (SELECT 1 FROM assessment_questions existing WHERE existing.assessment_id = a.id);
+
+INSERT INTO assessment_questions
+  (assessment_id, question_text, question_order, response_type, scale_min, scale_max, reverse_scored)
+SELECT a.id, q.question_text, q.question_order, 'scale', 0, 3, false
+FROM assessments a
+CROSS JOIN (VALUES
+  ('Feeling nervous, anxious, or on edge', 1),
+  ('Not being able to stop or control worrying', 2),
+  ('Worrying too much about different things', 3),
+  ('Trouble relaxing', 4),
+  ('Being so restless that it is hard to sit still', 5),
+  ('Becoming easily annoyed or irritable', 6),
+  ('Feeling afraid, as if something awful might happen', 7)
+) AS q(question_text, question_order)
+WHERE a.name = 'GAD-7'
+  AND NOT EXISTS (SELECT 1 FROM assessment_questions existing WHERE existing.assessment_id = a.id);
+
+INSERT INTO assessment_questions
+  (assessment_id, question_text, question_order, response_type, scale_min, scale_max, reverse_scored)
+SELECT a.id, q.question_text, q.question_order, 'scale', 0, 4, q.reverse_scored
+FROM assessments a
+CROSS JOIN (VALUES
+  ('How often have you been upset because of something that happened unexpectedly?', 1, false),
+  ('How often have you felt that you were unable to control the important things in your life?', 2, false),
+  ('How often have you felt nervous and stressed?', 3, false),
+  ('How often have you felt confident about your ability to handle your personal problems?', 4, true),
+  ('How often have you felt that things were going your way?', 5, true),
+  ('How often have you found that you could not cope with all the things that you had to do?', 6, false),
+  ('How often have you been able to control irritations in your life?', 7, true),
+  ('How often have you felt that you were on top of things?', 8, true),
+  ('How often have you been angered because of things that happened that were outside of your control?', 9, false),
+  ('How often have you felt difficulties were piling up so high that you could not overcome them?', 10, false)
+) AS q(question_text, question_order, reverse_scored)
+WHERE a.name = 'PSS'
+  AND NOT EXISTS (SELECT 1 FROM assessment_questions existing WHERE existing.assessment_id = a.id);
+
+INSERT INTO assessment_questions
+  (assessment_id, question_text, question_order, response_type, scale_min, scale_max, reverse_scored)
+SELECT a.id, q.question_text, q.question_order, 'scale', 0, 5, false
+FROM assessments a
+CROSS JOIN (VALUES
+  ('I have felt cheerful and in good spirits', 1),
+  ('I have felt calm and relaxed', 2),
+  ('I have felt active and vigorous', 3),
+  ('I woke up feeling fresh and rested', 4),
+  ('My daily life has been filled with things that interest me', 5)
+) AS q(question_text, question_order)
+WHERE a.name = 'WHO-5'
+  AND NOT EXISTS (SELECT 1 FROM assessment_questions existing WHERE existing.assessment_id = a.id);
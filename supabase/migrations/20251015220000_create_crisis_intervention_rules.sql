@@ -0,0 +1,173 @@
+/*
+  # Crisis Intervention Rules
+
+  ## Overview
+  Moves the rules that decide which interventions a crisis score triggers out
+  of code and into a table. The web app (`crisisService`) and the
+  `daily-crisis-scoring` job both load the active rules and evaluate them with
+  the shared `_shared/interventionRules.ts` module, so the two can no longer
+  drift apart. Admins can tune thresholds and copy, or switch a rule off,
+  without a deploy.
+
+  ## New Tables
+
+  ### `crisis_intervention_rules`
+  - `id` (uuid, primary key) - Unique identifier
+  - `rule_key` (text, unique) - Stable name for the rule
+  - `description` (text) - What the rule is for, for admins
+  - `score_severities` (text[]) - Crisis score severities the rule applies to
+  - `conditions` (jsonb) - `[{metric, operator, value}]`, all of which must
+    hold. `metric` is one of the crisis score factors (`red_zone_days`,
+    `high_risk_messages`, `gottman_violations`, `disengagement_hours`,
+    `conflict_frequency`); `operator` is `>=`, `>`, `<=`, `<` or `=`. An empty
+    array matches on severity alone
+  - `intervention_type` (text) - Intervention to create
+  - `intervention_severity` (text) - moderate, high, critical
+  - `title` (text) - Intervention title
+  - `message` (text) - Intervention message
+  - `action_required` (boolean) - Must be acknowledged
+  - `priority` (integer) - Evaluation order, lowest first
+  - `is_active` (boolean) - Whether the rule is evaluated
+  - `created_at` (timestamptz) - Creation timestamp
+  - `updated_at` (timestamptz) - Last update timestamp
+
+  ## Security
+  - Authenticated users can read active rules (the web app evaluates them)
+  - Only admins can create, update or delete rules
+
+  ## Data
+  - The rules previously hard-coded in the web app and daily-crisis-scoring
+*/
+
+CREATE TABLE IF NOT EXISTS crisis_intervention_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_key text UNIQUE NOT NULL,
+  description text,
+  score_severities text[] NOT NULL
+    CHECK (array_length(score_severities, 1) > 0
+      AND score_severities <@ ARRAY['low', 'moderate', 'high', 'critical']),
+  conditions jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(conditions) = 'array'),
+  intervention_type text NOT NULL
+    CHECK (intervention_type IN ('cooling_off', 'emergency_therapy', 'crisis_hotline', 'ai_session', 'safety_check')),
+  intervention_severity text NOT NULL CHECK (intervention_severity IN ('moderate', 'high', 'critical')),
+  title text NOT NULL,
+  message text NOT NULL,
+  action_required boolean NOT NULL DEFAULT false,
+  priority integer NOT NULL DEFAULT 100,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crisis_intervention_rules_active
+  ON crisis_intervention_rules(priority) WHERE is_active = true;
+
+ALTER TABLE crisis_intervention_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view active intervention rules"
+  ON crisis_intervention_rules FOR SELECT
+  TO authenticated
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage intervention rules"
+  ON crisis_intervention_rules FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_crisis_intervention_rules_updated_at ON crisis_intervention_rules;
+CREATE TRIGGER update_crisis_intervention_rules_updated_at
+  BEFORE UPDATE ON crisis_intervention_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep in sync with DEFAULT_INTERVENTION_RULES, the fallback used when this
+-- table can't be read
+INSERT INTO crisis_intervention_rules (
+  rule_key, description, score_severities, conditions, intervention_type,
+  intervention_severity, title, message, action_required, priority
+) VALUES
+  (
+    'critical_hotline',
+    'Every critical score points the couple to crisis support',
+    ARRAY['critical'],
+    '[]'::jsonb,
+    'crisis_hotline',
+    'critical',
+    '⚠️ Critical Alert: Immediate Support Needed',
+    'Your relationship health indicators suggest you may be in crisis. Please consider reaching out to a crisis hotline or emergency therapist immediately. Your safety and well-being are the top priority.',
+    true,
+    10
+  ),
+  (
+    'critical_sustained_red_zone',
+    'Critical score after three or more days in the red zone',
+    ARRAY['critical'],
+    '[{"metric": "red_zone_days", "operator": ">=", "value": 3}]'::jsonb,
+    'cooling_off',
+    'critical',
+    'Mandatory 24-Hour Break',
+    'Both partners have been in red zone for 3+ days. A mandatory 24-hour cooling-off period is strongly recommended to prevent further escalation.',
+    true,
+    20
+  ),
+  (
+    'high_risk_messages',
+    'High score with five or more high-risk messages this week',
+    ARRAY['high'],
+    '[{"metric": "high_risk_messages", "operator": ">=", "value": 5}]'::jsonb,
+    'ai_session',
+    'high',
+    '⚠️ Communication Pattern Alert',
+    'We''ve detected 5+ high-risk messages in the past week. Consider taking a break from messaging and scheduling an AI coaching session to improve communication patterns.',
+    false,
+    30
+  ),
+  (
+    'high_gottman_violations',
+    'High score with five or more Four Horsemen warnings this week',
+    ARRAY['high'],
+    '[{"metric": "gottman_violations", "operator": ">=", "value": 5}]'::jsonb,
+    'emergency_therapy',
+    'high',
+    'Four Horsemen Alert',
+    'Multiple instances of criticism, contempt, defensiveness, or stonewalling detected. These patterns can predict relationship distress. Consider booking an emergency therapy session.',
+    false,
+    40
+  ),
+  (
+    'high_disengagement',
+    'High score with no check-in for 48 hours or more',
+    ARRAY['high'],
+    '[{"metric": "disengagement_hours", "operator": ">=", "value": 48}]'::jsonb,
+    'safety_check',
+    'high',
+    'Partner Disengagement Detected',
+    'Your partner hasn''t checked in for over 48 hours. We''re sending them a safety check to make sure they''re okay.',
+    false,
+    50
+  ),
+  (
+    'moderate_conflict_frequency',
+    'Moderate score with five or more conflicts this week',
+    ARRAY['moderate'],
+    '[{"metric": "conflict_frequency", "operator": ">=", "value": 5}]'::jsonb,
+    'ai_session',
+    'moderate',
+    'Conflict Frequency Increasing',
+    'You''ve logged 5+ conflicts this week. Consider using repair tools or scheduling an AI coaching session to work through these patterns.',
+    false,
+    60
+  )
+ON CONFLICT (rule_key) DO NOTHING;
@@ -0,0 +1,172 @@
+/*
+  # Deduplicate, Escalate and Expire Crisis Interventions
+
+  ## Overview
+  `daily-crisis-scoring` used to insert a fresh intervention every day for the
+  same unresolved condition, so the Crisis page filled up with duplicates.
+  Interventions are now recorded through `record_crisis_intervention`, which
+  keeps one open row per couple and dedup key (intervention type plus the
+  rule that fired). While the condition persists the open row is refreshed
+  instead of duplicated, and once it has fired `escalate_after` times in a
+  row its severity steps up (e.g. a repeated high alert becomes critical) and
+  it resurfaces even if it was acknowledged. Every intervention now expires;
+  a row that stops being refreshed drops off the Crisis page once
+  `expires_at` passes.
+
+  ## Changes
+
+  ### `crisis_interventions`
+  - `dedup_key` (text) - `<intervention_type>:<rule_key>`; null for rows
+    created before this migration
+  - `occurrence_count` (integer) - How many evaluations have fired this row
+  - `last_triggered_at` (timestamptz) - Most recent of those evaluations
+  - `escalated_at` (timestamptz) - When the severity was last raised
+  - Rows without `expires_at` now expire 72 hours after they were triggered
+
+  ### `crisis_intervention_rules`
+  - `expires_after_hours` (integer) - How long an intervention stays active
+    after it last fired
+  - `escalate_after` (integer) - Consecutive firings before the severity is
+    raised one step; null never escalates
+
+  ## Functions
+  - `record_crisis_intervention(...)` - Inserts, refreshes or escalates the
+    open intervention for a couple and dedup key, and returns it. Callable by
+    partners of the couple and the service role
+  - Partners are notified again when an intervention is escalated
+*/
+
+ALTER TABLE crisis_interventions
+  ADD COLUMN IF NOT EXISTS dedup_key text,
+  ADD COLUMN IF NOT EXISTS occurrence_count integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS last_triggered_at timestamptz DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS escalated_at timestamptz;
+
+UPDATE crisis_interventions
+SET expires_at = triggered_at + interval '72 hours'
+WHERE expires_at IS NULL;
+
+UPDATE crisis_interventions
+SET last_triggered_at = triggered_at
+WHERE last_triggered_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_crisis_interventions_dedup
+  ON crisis_interventions(couple_id, dedup_key, triggered_at DESC)
+  WHERE dedup_key IS NOT NULL;
+
+ALTER TABLE crisis_intervention_rules
+  ADD COLUMN IF NOT EXISTS expires_after_hours integer NOT NULL DEFAULT 72 CHECK (expires_after_hours > 0),
+  ADD COLUMN IF NOT EXISTS escalate_after integer CHECK (escalate_after >= 2);
+
+-- Critical alerts expire sooner so a daily run re-raises them fresh; the
+-- window is a little over a day so a run that lands late still refreshes
+UPDATE crisis_intervention_rules
+SET expires_after_hours = 36
+WHERE rule_key IN ('critical_hotline', 'critical_sustained_red_zone');
+
+UPDATE crisis_intervention_rules
+SET escalate_after = 3
+WHERE rule_key IN ('high_risk_messages', 'high_gottman_violations', 'high_disengagement', 'moderate_conflict_frequency');
+
+CREATE OR REPLACE FUNCTION record_crisis_intervention(
+  p_couple_id uuid,
+  p_crisis_score_id uuid,
+  p_dedup_key text,
+  p_intervention_type text,
+  p_severity text,
+  p_title text,
+  p_message text,
+  p_action_required boolean,
+  p_expires_after_hours integer,
+  p_escalate_after integer
+)
+RETURNS crisis_interventions AS $$
+DECLARE
+  v_existing crisis_interventions;
+  v_result crisis_interventions;
+  v_levels text[] := ARRAY['moderate', 'high', 'critical'];
+  v_count integer;
+  v_severity text;
+  v_expires_at timestamptz := now() + make_interval(hours => p_expires_after_hours);
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM couples
+    WHERE id = p_couple_id
+      AND (partner_1_id = auth.uid() OR partner_2_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this couple';
+  END IF;
+
+  -- Serialize concurrent evaluations (cron and a partner recalculating) for
+  -- the same condition so only one row is ever open
+  PERFORM pg_advisory_xact_lock(hashtext(p_couple_id::text || ':' || p_dedup_key));
+
+  SELECT * INTO v_existing
+  FROM crisis_interventions
+  WHERE couple_id = p_couple_id
+    AND dedup_key = p_dedup_key
+    AND expires_at > now()
+  ORDER BY triggered_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    INSERT INTO crisis_interventions (
+      couple_id, crisis_score_id, dedup_key, intervention_type, severity,
+      title, message, action_required, expires_at
+    ) VALUES (
+      p_couple_id, p_crisis_score_id, p_dedup_key, p_intervention_type, p_severity,
+      p_title, p_message, p_action_required, v_expires_at
+    )
+    RETURNING * INTO v_result;
+
+    RETURN v_result;
+  END IF;
+
+  v_count := v_existing.occurrence_count + 1;
+  -- Never lower a severity that has already been escalated
+  v_severity := v_levels[GREATEST(
+    array_position(v_levels, v_existing.severity),
+    array_position(v_levels, p_severity)
+  )];
+
+  IF p_escalate_after IS NOT NULL
+    AND v_count % p_escalate_after = 0
+    AND v_severity <> 'critical' THEN
+    v_severity := v_levels[array_position(v_levels, v_severity) + 1];
+
+    UPDATE crisis_interventions
+    SET severity = v_severity,
+        action_required = action_required OR p_action_required OR v_severity = 'critical',
+        action_taken = NULL,
+        acknowledged_at = NULL,
+        escalated_at = now(),
+        occurrence_count = v_count,
+        last_triggered_at = now(),
+        crisis_score_id = p_crisis_score_id,
+        expires_at = v_expires_at
+    WHERE id = v_existing.id
+    RETURNING * INTO v_result;
+
+    RETURN v_result;
+  END IF;
+
+  UPDATE crisis_interventions
+  SET severity = v_severity,
+      occurrence_count = v_count,
+      last_triggered_at = now(),
+      crisis_score_id = p_crisis_score_id,
+      expires_at = v_expires_at
+  WHERE id = v_existing.id
+  RETURNING * INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Re-notify both partners when an open intervention is escalated
+DROP TRIGGER IF EXISTS trigger_notify_crisis_intervention_escalated ON crisis_interventions;
+CREATE TRIGGER trigger_notify_crisis_intervention_escalated
+  AFTER UPDATE OF severity ON crisis_interventions
+  FOR EACH ROW
+  WHEN (NEW.severity IS DISTINCT FROM OLD.severity)
+  EXECUTE FUNCTION notify_on_crisis_intervention();
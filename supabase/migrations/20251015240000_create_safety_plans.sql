@@ -0,0 +1,66 @@
+/*
+  # Personal Safety Plans
+
+  ## Overview
+  A structured, personal safety plan (based on the Stanley-Brown safety
+  planning intervention) that each user fills in for themselves and can open
+  in one tap from the Crisis page. Plans are private to their owner: unlike
+  the rest of the crisis data they are not shared with the partner. The web
+  app also keeps a copy on the device so the plan is available offline.
+
+  ## New Tables
+
+  ### `safety_plans`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid, unique) - References user_profiles.id
+  - `warning_signs` (text[]) - Thoughts, moods or situations that signal a
+    crisis may be building
+  - `coping_strategies` (text[]) - Things the user can do on their own
+  - `safe_people` (jsonb) - `[{name, phone}]` people to reach out to
+  - `safe_places` (text[]) - Places that feel safe or calming
+  - `professional_contacts` (jsonb) - `[{name, role, phone}]` therapists,
+    doctors or services
+  - `environment_steps` (text[]) - Steps to make the environment safe
+  - `created_at` (timestamptz) - Creation timestamp
+  - `updated_at` (timestamptz) - Last update timestamp
+
+  ## Security
+  - Users can only read and write their own plan; there is deliberately no
+    partner or couple access
+*/
+
+CREATE TABLE IF NOT EXISTS safety_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid UNIQUE NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  warning_signs text[] NOT NULL DEFAULT '{}',
+  coping_strategies text[] NOT NULL DEFAULT '{}',
+  safe_people jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(safe_people) = 'array'),
+  safe_places text[] NOT NULL DEFAULT '{}',
+  professional_contacts jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(professional_contacts) = 'array'),
+  environment_steps text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE safety_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own safety plan"
+  ON safety_plans FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own safety plan"
+  ON safety_plans FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own safety plan"
+  ON safety_plans FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own safety plan"
+  ON safety_plans FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
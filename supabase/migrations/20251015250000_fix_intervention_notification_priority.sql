@@ -0,0 +1,60 @@
+/*
+  # Fix Crisis Intervention Notification Priority
+
+  ## Overview
+  `notify_on_crisis_intervention` passed the intervention severity straight
+  through as the notification priority. `notifications.priority` only allows
+  low, normal, high and urgent, so moderate and critical interventions failed
+  their CHECK constraint and the insert (or escalation) was rolled back.
+  Severities are now mapped to priorities.
+
+  ## Changes
+  - `notify_on_crisis_intervention()` maps critical to urgent, high to high
+    and moderate to normal
+*/
+
+CREATE OR REPLACE FUNCTION notify_on_crisis_intervention()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_partner_1_id uuid;
+  v_partner_2_id uuid;
+  v_priority text;
+BEGIN
+  SELECT partner_1_id, partner_2_id
+  INTO v_partner_1_id, v_partner_2_id
+  FROM couples
+  WHERE id = NEW.couple_id;
+
+  v_priority := CASE NEW.severity
+    WHEN 'critical' THEN 'urgent'
+    WHEN 'high' THEN 'high'
+    ELSE 'normal'
+  END;
+
+  PERFORM create_notification(
+    v_partner_1_id,
+    'intervention',
+    NEW.title,
+    NEW.message,
+    v_priority,
+    '/crisis',
+    'crisis_intervention',
+    NEW.id
+  );
+
+  IF v_partner_2_id IS NOT NULL THEN
+    PERFORM create_notification(
+      v_partner_2_id,
+      'intervention',
+      NEW.title,
+      NEW.message,
+      v_priority,
+      '/crisis',
+      'crisis_intervention',
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
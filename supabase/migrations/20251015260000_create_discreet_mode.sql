@@ -0,0 +1,229 @@
+/*
+  # Discreet Mode
+
+  ## Overview
+  For users who may not be safe in their relationship. Everything crisis
+  related used to be visible to both partners and every notification named
+  what it was about. With discreet mode on:
+  - The app shows a quick-exit button (and Escape twice) that jumps to a
+    neutral site
+  - Safety checks addressed to the user are private to them, so the partner
+    never sees the check or the answer
+  - The user's own crisis, intervention and safety check notifications use
+    neutral wording, so nothing sensitive shows on a lock screen
+  - The app can optionally be disguised under a neutral name and icon
+  Discreet settings live in their own owner-only table so that turning the
+  mode on is itself invisible to the partner.
+
+  ## New Tables
+
+  ### `discreet_settings`
+  - `user_id` (uuid, primary key) - References user_profiles.id
+  - `enabled` (boolean) - Discreet mode is on
+  - `disguise_app` (boolean) - Use the neutral app name and icon
+  - `created_at` (timestamptz) - Creation timestamp
+  - `updated_at` (timestamptz) - Last update timestamp
+
+  ## Changes
+
+  ### `safety_checks`
+  - `is_private` (boolean) - Only the target user can see the check. Set
+    automatically for users in discreet mode
+  - New `self_report` check type: a private check-in the user records for
+    themselves from the Crisis page
+  - The target user is notified of new safety checks
+
+  ## Functions
+  - `create_notification()` uses neutral wording for crisis, intervention and
+    safety check notifications sent to users in discreet mode
+
+  ## Security
+  - Users can only read and write their own discreet settings
+  - Partners can no longer see private safety checks
+  - Users can record private check-ins for themselves
+*/
+
+CREATE TABLE IF NOT EXISTS discreet_settings (
+  user_id uuid PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT false,
+  disguise_app boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE discreet_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own discreet settings"
+  ON discreet_settings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own discreet settings"
+  ON discreet_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own discreet settings"
+  ON discreet_settings FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_discreet_settings_updated_at ON discreet_settings;
+CREATE TRIGGER update_discreet_settings_updated_at
+  BEFORE UPDATE ON discreet_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Private safety checks
+ALTER TABLE safety_checks
+  ADD COLUMN IF NOT EXISTS is_private boolean NOT NULL DEFAULT false;
+
+ALTER TABLE safety_checks DROP CONSTRAINT IF EXISTS safety_checks_check_type_check;
+ALTER TABLE safety_checks
+  ADD CONSTRAINT safety_checks_check_type_check
+  CHECK (check_type IN ('disengagement', 'sustained_red_zone', 'high_risk_pattern', 'crisis_language', 'self_report'));
+
+DROP POLICY IF EXISTS "Users can view safety checks for themselves or their couple" ON safety_checks;
+CREATE POLICY "Users can view safety checks for themselves or their couple"
+  ON safety_checks FOR SELECT
+  TO authenticated
+  USING (
+    target_user_id = auth.uid()
+    OR (
+      NOT is_private
+      AND EXISTS (
+        SELECT 1 FROM couples
+        WHERE couples.id = safety_checks.couple_id
+        AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+      )
+    )
+  );
+
+CREATE POLICY "Users can create private safety checks for themselves"
+  ON safety_checks FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    target_user_id = auth.uid()
+    AND is_private
+    AND EXISTS (
+      SELECT 1 FROM couples
+      WHERE couples.id = safety_checks.couple_id
+      AND (couples.partner_1_id = auth.uid() OR couples.partner_2_id = auth.uid())
+    )
+  );
+
+-- Checks addressed to someone in discreet mode are always private, whoever
+-- (or whatever trigger) creates them
+CREATE OR REPLACE FUNCTION make_discreet_safety_checks_private()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM discreet_settings
+    WHERE user_id = NEW.target_user_id
+      AND enabled
+  ) THEN
+    NEW.is_private := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_make_discreet_safety_checks_private ON safety_checks;
+CREATE TRIGGER trigger_make_discreet_safety_checks_private
+  BEFORE INSERT ON safety_checks
+  FOR EACH ROW
+  EXECUTE FUNCTION make_discreet_safety_checks_private();
+
+CREATE OR REPLACE FUNCTION notify_on_safety_check()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM create_notification(
+    NEW.target_user_id,
+    'safety_check',
+    'Checking in',
+    NEW.message,
+    CASE WHEN NEW.requires_escalation THEN 'high' ELSE 'normal' END,
+    '/crisis',
+    'safety_check',
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_safety_check ON safety_checks;
+CREATE TRIGGER trigger_notify_safety_check
+  AFTER INSERT ON safety_checks
+  FOR EACH ROW
+  WHEN (NEW.responded_at IS NULL)
+  EXECUTE FUNCTION notify_on_safety_check();
+
+-- Neutral wording for sensitive notifications to users in discreet mode
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_message text,
+  p_priority text DEFAULT 'normal',
+  p_action_url text DEFAULT '',
+  p_related_entity_type text DEFAULT NULL,
+  p_related_entity_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_notification_id uuid;
+  v_prefs record;
+  v_should_send boolean := true;
+  v_title text := p_title;
+  v_message text := p_message;
+BEGIN
+  SELECT * INTO v_prefs
+  FROM notification_preferences
+  WHERE user_id = p_user_id;
+
+  IF v_prefs IS NULL THEN
+    INSERT INTO notification_preferences (user_id)
+    VALUES (p_user_id);
+    v_should_send := true;
+  ELSE
+    v_should_send := CASE p_type
+      WHEN 'crisis_alert' THEN v_prefs.crisis_alerts_enabled
+      WHEN 'ritual_reminder' THEN v_prefs.ritual_reminders_enabled
+      WHEN 'partner_message' THEN v_prefs.partner_messages_enabled
+      WHEN 'appreciation' THEN v_prefs.appreciation_enabled
+      WHEN 'safety_check' THEN v_prefs.safety_checks_enabled
+      WHEN 'intervention' THEN v_prefs.interventions_enabled
+      WHEN 'partner_zone_change' THEN v_prefs.partner_zone_changes_enabled
+      WHEN 'conflict_alert' THEN v_prefs.conflict_alerts_enabled
+      ELSE true
+    END;
+  END IF;
+
+  IF p_type IN ('crisis_alert', 'intervention', 'safety_check') AND EXISTS (
+    SELECT 1 FROM discreet_settings
+    WHERE user_id = p_user_id
+      AND enabled
+  ) THEN
+    v_title := 'Reminder';
+    v_message := 'You have a new update.';
+  END IF;
+
+  IF v_should_send THEN
+    INSERT INTO notifications (
+      user_id, type, title, message, priority, action_url,
+      related_entity_type, related_entity_id
+    )
+    VALUES (
+      p_user_id, p_type, v_title, v_message, p_priority, p_action_url,
+      p_related_entity_type, p_related_entity_id
+    )
+    RETURNING id INTO v_notification_id;
+
+    RETURN v_notification_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,310 @@
+/*
+  # Trusted Emergency Contacts
+
+  ## Overview
+  Answering a safety check with "I don't feel safe" set requires_escalation,
+  but nothing acted on it. Users can now register trusted contacts (a friend,
+  family member or therapist) who are messaged when a safety check is
+  escalated:
+  - A contact is only ever messaged once they have agreed to it themselves,
+    through a link sent to them (the same code-based flow as partner
+    invitations)
+  - A check is escalated when the user answers it asking for help, or when a
+    check that needs escalation goes unanswered for 24 hours
+  - Messages go out through a pluggable channel (SMS or email) from the
+    `safety-check-escalation` edge function
+  - Every step is written to an append-only audit log
+
+  Contacts, escalations and the audit log are private to the user; the
+  partner can't see any of them.
+
+  ## New Tables
+
+  ### `trusted_contacts`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - References user_profiles.id
+  - `name` (text) - Contact's name
+  - `relationship` (text) - friend, family, therapist, other
+  - `channel` (text) - sms, email
+  - `destination` (text) - Phone number or email address
+  - `consent_status` (text) - pending, confirmed, declined
+  - `consent_requested_at` (timestamptz) - When the consent request was last sent
+  - `consent_responded_at` (timestamptz) - When the contact answered it
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ### `trusted_contact_consent_requests`
+  - `code` (text, primary key) - Code in the link sent to the contact
+  - `contact_id` (uuid) - References trusted_contacts.id
+  - `expires_at` (timestamptz) - The link stops working after this
+  - `used_at` (timestamptz) - When the contact answered
+  - `created_at` (timestamptz) - Creation timestamp
+  Codes are never readable by clients, so a user can't confirm a contact on
+  their behalf.
+
+  ### `safety_check_escalations`
+  - `id` (uuid, primary key)
+  - `safety_check_id` (uuid, unique) - References safety_checks.id
+  - `user_id` (uuid) - The user the check was for
+  - `reason` (text) - requested, unanswered
+  - `status` (text) - in_progress, notified, partially_notified, failed, no_contacts
+  - `created_at` (timestamptz) - Creation timestamp
+  - `completed_at` (timestamptz) - When all contacts had been tried
+
+  ### `escalation_audit_log`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Whose contacts and escalations the event is about
+  - `escalation_id` (uuid) - References safety_check_escalations.id, if any
+  - `contact_id` (uuid) - References trusted_contacts.id, if any
+  - `event` (text) - What happened
+  - `channel` (text) - Channel used, for delivery events
+  - `detail` (jsonb) - Provider ids, errors and other context
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ## Changes
+
+  ### `safety_checks`
+  - `escalate_at` (timestamptz) - When an unanswered check is escalated. Set
+    to 24 hours after creation for checks that require escalation
+
+  ## Functions
+  - `get_trusted_contact_request(p_code)` - What a contact sees before answering
+  - `respond_to_trusted_contact_request(p_code, p_accept)` - The contact agrees
+    or declines
+  - Triggers record contacts being added and removed in the audit log
+
+  ## Security
+  - Users can view, add and remove their own contacts. New contacts always
+    start pending; only the contact can confirm
+  - Users can view their own escalations and audit log. Only the service role
+    and the functions above write them; there are no update or delete
+    policies, so users can't alter the trail
+*/
+
+CREATE TABLE IF NOT EXISTS trusted_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  relationship text NOT NULL CHECK (relationship IN ('friend', 'family', 'therapist', 'other')),
+  channel text NOT NULL CHECK (channel IN ('sms', 'email')),
+  destination text NOT NULL,
+  consent_status text NOT NULL DEFAULT 'pending' CHECK (consent_status IN ('pending', 'confirmed', 'declined')),
+  consent_requested_at timestamptz,
+  consent_responded_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trusted_contacts_user ON trusted_contacts(user_id, consent_status);
+
+ALTER TABLE trusted_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own trusted contacts"
+  ON trusted_contacts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add pending trusted contacts"
+  ON trusted_contacts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND consent_status = 'pending'
+    AND consent_responded_at IS NULL
+  );
+
+CREATE POLICY "Users can remove own trusted contacts"
+  ON trusted_contacts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS trusted_contact_consent_requests (
+  code text PRIMARY KEY,
+  contact_id uuid NOT NULL REFERENCES trusted_contacts(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '14 days'),
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trusted_contact_consent_requests_contact ON trusted_contact_consent_requests(contact_id);
+
+-- No policies: only the service role and the functions below can read codes
+ALTER TABLE trusted_contact_consent_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS safety_check_escalations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  safety_check_id uuid NOT NULL UNIQUE REFERENCES safety_checks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('requested', 'unanswered')),
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'notified', 'partially_notified', 'failed', 'no_contacts')),
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_safety_check_escalations_user ON safety_check_escalations(user_id, created_at DESC);
+
+ALTER TABLE safety_check_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own escalations"
+  ON safety_check_escalations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS escalation_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  escalation_id uuid REFERENCES safety_check_escalations(id) ON DELETE SET NULL,
+  contact_id uuid REFERENCES trusted_contacts(id) ON DELETE SET NULL,
+  event text NOT NULL CHECK (event IN (
+    'contact_added', 'contact_removed', 'consent_requested', 'consent_confirmed', 'consent_declined',
+    'escalation_started', 'contact_notified', 'delivery_failed', 'no_contacts', 'escalation_completed'
+  )),
+  channel text,
+  detail jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_audit_log_user ON escalation_audit_log(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_escalation_audit_log_escalation ON escalation_audit_log(escalation_id);
+
+ALTER TABLE escalation_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own escalation audit log"
+  ON escalation_audit_log FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Deadline for unanswered checks
+ALTER TABLE safety_checks ADD COLUMN IF NOT EXISTS escalate_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_safety_checks_escalate_at
+  ON safety_checks(escalate_at)
+  WHERE responded_at IS NULL;
+
+CREATE OR REPLACE FUNCTION set_safety_check_escalation_deadline()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.requires_escalation AND NEW.responded_at IS NULL AND NEW.escalate_at IS NULL THEN
+    NEW.escalate_at := COALESCE(NEW.created_at, now()) + interval '24 hours';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_safety_check_escalation_deadline ON safety_checks;
+CREATE TRIGGER trigger_set_safety_check_escalation_deadline
+  BEFORE INSERT ON safety_checks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_safety_check_escalation_deadline();
+
+-- Audit contacts being added and removed
+CREATE OR REPLACE FUNCTION audit_trusted_contact_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO escalation_audit_log (user_id, contact_id, event, channel, detail)
+    VALUES (
+      NEW.user_id, NEW.id, 'contact_added', NEW.channel,
+      jsonb_build_object('name', NEW.name, 'relationship', NEW.relationship)
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Skip when the whole account is being deleted
+  IF EXISTS (SELECT 1 FROM user_profiles WHERE id = OLD.user_id) THEN
+    INSERT INTO escalation_audit_log (user_id, event, channel, detail)
+    VALUES (
+      OLD.user_id, 'contact_removed', OLD.channel,
+      jsonb_build_object('contact_id', OLD.id, 'name', OLD.name, 'relationship', OLD.relationship)
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_audit_trusted_contact_insert ON trusted_contacts;
+CREATE TRIGGER trigger_audit_trusted_contact_insert
+  AFTER INSERT ON trusted_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_trusted_contact_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_trusted_contact_delete ON trusted_contacts;
+CREATE TRIGGER trigger_audit_trusted_contact_delete
+  AFTER DELETE ON trusted_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_trusted_contact_change();
+
+-- What the contact sees before agreeing (public access for the consent page)
+CREATE OR REPLACE FUNCTION get_trusted_contact_request(p_code text)
+RETURNS jsonb AS $$
+DECLARE
+  v_request record;
+BEGIN
+  SELECT tc.name, tc.relationship, tc.channel, up.full_name
+  INTO v_request
+  FROM trusted_contact_consent_requests r
+  JOIN trusted_contacts tc ON tc.id = r.contact_id
+  JOIN user_profiles up ON up.id = tc.user_id
+  WHERE r.code = p_code
+    AND r.used_at IS NULL
+    AND r.expires_at > now();
+
+  IF v_request IS NULL THEN
+    RETURN jsonb_build_object('valid', false);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'requester_name', v_request.full_name,
+    'contact_name', v_request.name,
+    'relationship', v_request.relationship,
+    'channel', v_request.channel
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION respond_to_trusted_contact_request(
+  p_code text,
+  p_accept boolean
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_request record;
+  v_status text := CASE WHEN p_accept THEN 'confirmed' ELSE 'declined' END;
+BEGIN
+  SELECT r.code, tc.id AS contact_id, tc.user_id, tc.channel
+  INTO v_request
+  FROM trusted_contact_consent_requests r
+  JOIN trusted_contacts tc ON tc.id = r.contact_id
+  WHERE r.code = p_code
+    AND r.used_at IS NULL
+    AND r.expires_at > now()
+  FOR UPDATE OF r;
+
+  IF v_request IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid or expired link');
+  END IF;
+
+  UPDATE trusted_contact_consent_requests
+  SET used_at = now()
+  WHERE contact_id = v_request.contact_id
+    AND used_at IS NULL;
+
+  UPDATE trusted_contacts
+  SET consent_status = v_status,
+      consent_responded_at = now()
+  WHERE id = v_request.contact_id;
+
+  INSERT INTO escalation_audit_log (user_id, contact_id, event, channel)
+  VALUES (
+    v_request.user_id,
+    v_request.contact_id,
+    CASE WHEN p_accept THEN 'consent_confirmed' ELSE 'consent_declined' END,
+    v_request.channel
+  );
+
+  RETURN jsonb_build_object('success', true, 'consent_status', v_status);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_trusted_contact_request(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_trusted_contact_request(text, boolean) TO anon, authenticated;
@@ -0,0 +1,113 @@
+/*
+  # Country-Aware Crisis Hotline Directory
+
+  ## Overview
+  Hotlines were seeded by hand for the US only and the app always asked for
+  US numbers. The directory can now hold datasets for many countries, loaded
+  with `supabase/functions/_shared/importHotlines.ts`, and the app picks the
+  country from the user's override, their profile time zone or their
+  browser's locale.
+  - Entries can list text and chat options as well as a phone number, and
+    text- or chat-only services no longer need a phone number
+  - Each entry records the date it was last verified
+  - Imports match entries on country and name, so datasets can be
+    re-imported to update them
+
+  ## Changes
+
+  ### `crisis_hotlines`
+  - `phone` is now optional; every entry needs a phone, text or chat option
+  - `sms_number` (text) - Number or short code to text
+  - `sms_keyword` (text) - Word to text to it, if the service needs one
+  - `chat_url` (text) - Online chat
+  - `languages` (text[]) - ISO codes of the languages the service offers
+  - `verified_on` (date) - When the details were last checked. Left empty for
+    the original US entries until they are re-verified by an import
+  - `updated_at` (timestamptz) - Last update timestamp
+  - Unique on (country, name); duplicate seed rows are removed
+  - The US Crisis Text Line keyword moves out of `phone`, and the text and
+    chat options of the other seeded US services are filled in
+
+  ### `user_profiles`
+  - `hotline_country` (text) - Country the user chose for crisis hotlines,
+    overriding the one worked out from their time zone
+
+  ## Security
+  - Admins can manage hotlines
+*/
+
+ALTER TABLE crisis_hotlines ALTER COLUMN phone DROP NOT NULL;
+
+ALTER TABLE crisis_hotlines
+  ADD COLUMN IF NOT EXISTS sms_number text,
+  ADD COLUMN IF NOT EXISTS sms_keyword text,
+  ADD COLUMN IF NOT EXISTS chat_url text,
+  ADD COLUMN IF NOT EXISTS languages text[] NOT NULL DEFAULT ARRAY[]::text[],
+  ADD COLUMN IF NOT EXISTS verified_on date,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+-- The seed used ON CONFLICT DO NOTHING without a unique key, so re-running it
+-- could have left duplicates
+DELETE FROM crisis_hotlines a
+USING crisis_hotlines b
+WHERE a.country = b.country
+  AND a.name = b.name
+  AND (a.created_at, a.id::text) > (b.created_at, b.id::text);
+
+UPDATE crisis_hotlines
+SET phone = NULL, sms_number = '741741', sms_keyword = 'HOME', languages = ARRAY['en', 'es']
+WHERE country = 'US' AND name = 'Crisis Text Line';
+
+UPDATE crisis_hotlines
+SET sms_number = '988', chat_url = 'https://988lifeline.org/chat', languages = ARRAY['en', 'es']
+WHERE country = 'US' AND name = '988 Suicide & Crisis Lifeline';
+
+UPDATE crisis_hotlines
+SET sms_number = '88788', sms_keyword = 'START', chat_url = 'https://www.thehotline.org', languages = ARRAY['en', 'es']
+WHERE country = 'US' AND name = 'National Domestic Violence Hotline';
+
+UPDATE crisis_hotlines
+SET sms_number = '22522', sms_keyword = 'LOVEIS', chat_url = 'https://www.loveisrespect.org', languages = ARRAY['en', 'es']
+WHERE country = 'US' AND name = 'Love Is Respect';
+
+UPDATE crisis_hotlines
+SET languages = ARRAY['en', 'es']
+WHERE country = 'US' AND name = 'SAMHSA National Helpline';
+
+ALTER TABLE crisis_hotlines DROP CONSTRAINT IF EXISTS crisis_hotlines_reachable_check;
+ALTER TABLE crisis_hotlines
+  ADD CONSTRAINT crisis_hotlines_reachable_check
+  CHECK (phone IS NOT NULL OR sms_number IS NOT NULL OR chat_url IS NOT NULL);
+
+ALTER TABLE crisis_hotlines DROP CONSTRAINT IF EXISTS crisis_hotlines_country_name_key;
+ALTER TABLE crisis_hotlines
+  ADD CONSTRAINT crisis_hotlines_country_name_key UNIQUE (country, name);
+
+CREATE INDEX IF NOT EXISTS idx_crisis_hotlines_country ON crisis_hotlines(country, is_active);
+
+DROP TRIGGER IF EXISTS update_crisis_hotlines_updated_at ON crisis_hotlines;
+CREATE TRIGGER update_crisis_hotlines_updated_at
+  BEFORE UPDATE ON crisis_hotlines
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Admins can manage crisis hotlines"
+  ON crisis_hotlines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS hotline_country text
+  CHECK (hotline_country IS NULL OR hotline_country ~ '^[A-Z]{2}$');
@@ -0,0 +1,42 @@
+/*
+  # Restrict Joint Coaching Session Messages
+
+  ## Overview
+  Any participant could insert any message into a joint session, so a partner
+  could write assistant or system messages, or user messages under the other
+  partner's name. The session creator could do the same through the owner
+  policy. Participants can now only add their own user messages; the coach's
+  replies are written by the ai-coach function with the service role.
+
+  ## Changes
+  - "Participants can create joint session messages" requires
+    `sender_id = auth.uid()` and `role = 'user'`
+  - "Users can create messages for their sessions" no longer applies to joint
+    sessions, which go through the participant policy instead
+
+  ## Security
+  - Partners can't impersonate each other or the coach in a shared transcript
+*/
+
+DROP POLICY IF EXISTS "Participants can create joint session messages" ON coaching_messages;
+CREATE POLICY "Participants can create joint session messages"
+  ON coaching_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_coaching_participant(session_id)
+    AND sender_id = auth.uid()
+    AND role = 'user'
+  );
+
+DROP POLICY IF EXISTS "Users can create messages for their sessions" ON coaching_messages;
+CREATE POLICY "Users can create messages for their sessions"
+  ON coaching_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM coaching_sessions
+      WHERE coaching_sessions.id = coaching_messages.session_id
+      AND coaching_sessions.user_id = auth.uid()
+      AND coaching_sessions.is_joint IS NOT TRUE
+    )
+  );
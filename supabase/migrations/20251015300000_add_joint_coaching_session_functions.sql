@@ -0,0 +1,104 @@
+/*
+  # Joint Coaching Session Turn and End Functions
+
+  ## Overview
+  Participants could update any column of a joint session, so either partner
+  could take the turn back, rewrite the outcome or reopen a finished session.
+  Passing the turn and ending the session now go through functions that check
+  the caller, and joint sessions can't be updated directly any more.
+
+  ## Changes
+  - Drops "Participants can update joint coaching sessions"
+  - "Users can update own coaching sessions" no longer applies to joint
+    sessions, so the creator goes through the same functions as the partner
+
+  ## Functions
+  - `pass_joint_coaching_turn(session_id)` - Hands the turn to the other
+    participant. Only the participant whose turn it is can pass it, and only
+    while the session is active. Returns the participant who now has the turn
+  - `end_joint_coaching_session(session_id, outcome, effectiveness_rating)` -
+    Completes an active joint session the caller takes part in
+
+  ## Security
+  - Both functions are SECURITY DEFINER and check `auth.uid()` themselves
+*/
+
+DROP POLICY IF EXISTS "Participants can update joint coaching sessions" ON coaching_sessions;
+
+DROP POLICY IF EXISTS "Users can update own coaching sessions" ON coaching_sessions;
+CREATE POLICY "Users can update own coaching sessions"
+  ON coaching_sessions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND is_joint IS NOT TRUE)
+  WITH CHECK (auth.uid() = user_id AND is_joint IS NOT TRUE);
+
+CREATE OR REPLACE FUNCTION pass_joint_coaching_turn(p_session_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_session coaching_sessions%ROWTYPE;
+  v_next_user_id uuid;
+BEGIN
+  SELECT * INTO v_session
+  FROM coaching_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_session.is_joint OR NOT is_coaching_participant(p_session_id) THEN
+    RAISE EXCEPTION 'Joint coaching session not found';
+  END IF;
+
+  IF v_session.status <> 'active' THEN
+    RAISE EXCEPTION 'This session has ended';
+  END IF;
+
+  IF v_session.current_turn_user_id IS NOT NULL AND v_session.current_turn_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'It is your partner''s turn to speak in this session';
+  END IF;
+
+  SELECT user_id INTO v_next_user_id
+  FROM coaching_session_participants
+  WHERE session_id = p_session_id
+    AND user_id <> auth.uid()
+  LIMIT 1;
+
+  IF v_next_user_id IS NULL THEN
+    RAISE EXCEPTION 'There is no one to pass the turn to';
+  END IF;
+
+  UPDATE coaching_sessions
+  SET current_turn_user_id = v_next_user_id
+  WHERE id = p_session_id;
+
+  RETURN v_next_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION end_joint_coaching_session(
+  p_session_id uuid,
+  p_outcome text DEFAULT '',
+  p_effectiveness_rating integer DEFAULT NULL
+)
+RETURNS boolean AS $$
+BEGIN
+  IF NOT is_coaching_participant(p_session_id) THEN
+    RAISE EXCEPTION 'Joint coaching session not found';
+  END IF;
+
+  UPDATE coaching_sessions
+  SET
+    status = 'completed',
+    ended_at = now(),
+    outcome = COALESCE(p_outcome, ''),
+    effectiveness_rating = p_effectiveness_rating
+  WHERE id = p_session_id
+    AND is_joint
+    AND status = 'active';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION pass_joint_coaching_turn(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION end_joint_coaching_session(uuid, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION pass_joint_coaching_turn(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_joint_coaching_session(uuid, text, integer) TO authenticated;
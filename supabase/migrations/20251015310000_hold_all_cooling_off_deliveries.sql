@@ -0,0 +1,56 @@
+/*
+  # Hold Every Delivery During Cooling-Off
+
+  ## Overview
+  `enforce_cooling_off()` only held messages whose new status was `sent`. A
+  sender could insert a message as `read` or `archived`, or move a draft
+  straight to one of them, and the partner would still see it during the
+  break. Every status the receiver can see is now held, not just `sent`.
+
+  ## Changes
+  - `enforce_cooling_off()` holds inserts and draft/scheduled updates into any
+    status other than `draft` or `scheduled`
+*/
+
+CREATE OR REPLACE FUNCTION enforce_cooling_off()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_period_id uuid;
+BEGIN
+  IF NEW.status IN ('draft', 'scheduled') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status NOT IN ('draft', 'scheduled') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_period_id
+  FROM cooling_off_periods
+  WHERE couple_id = NEW.couple_id
+    AND status = 'active'
+    AND now() < ends_at
+  ORDER BY started_at DESC
+  LIMIT 1;
+
+  IF v_period_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.template_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM message_templates
+    WHERE id = NEW.template_id
+      AND allowed_during_cooling_off = true
+      AND content = NEW.content
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := 'draft';
+  NEW.sent_at := NULL;
+  NEW.read_at := NULL;
+  NEW.cooling_off_period_id := v_period_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,49 @@
+/*
+  # Restrict Voice Message Delivery
+
+  ## Overview
+  Senders could mark their own voice messages as delivered straight from the
+  client, skipping transcription and the tone check. Only the
+  `voice-message-transcription` edge function (service role) can deliver a
+  voice message now. A message it holds back can still be sent by the sender
+  after they have seen the review, through the same function.
+
+  ## Changes
+
+  ### `voice_messages`
+  - `held_at` (timestamptz) - When processing held the message back for the
+    sender to review instead of delivering it
+
+  ## Security
+  - Only the service role can set `status` to delivered or change `held_at`
+*/
+
+ALTER TABLE voice_messages
+  ADD COLUMN IF NOT EXISTS held_at timestamptz;
+
+CREATE OR REPLACE FUNCTION protect_voice_message_delivery()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS NOT DISTINCT FROM 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'delivered' AND (TG_OP = 'INSERT' OR OLD.status <> 'delivered') THEN
+    RAISE EXCEPTION 'Voice messages are delivered once they have been checked';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.held_at IS NOT NULL
+    OR TG_OP = 'UPDATE' AND NEW.held_at IS DISTINCT FROM OLD.held_at
+  THEN
+    RAISE EXCEPTION 'Voice messages are held by the delivery check only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_protect_voice_message_delivery ON voice_messages;
+CREATE TRIGGER trigger_protect_voice_message_delivery
+  BEFORE INSERT OR UPDATE ON voice_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_voice_message_delivery();
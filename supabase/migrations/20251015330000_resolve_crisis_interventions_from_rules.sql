@@ -0,0 +1,133 @@
+/*
+  # Resolve Crisis Interventions From Their Rule
+
+  ## Overview
+  `record_crisis_intervention` took the title, message, severity and type from
+  its caller. It is SECURITY DEFINER and callable by either partner, so a
+  partner could put any wording or severity in front of the other one, and
+  through the notification trigger, send it to them. Callers now pass only the
+  rule that fired; everything the partners see comes from
+  `crisis_intervention_rules`.
+
+  ## Changes
+  - `record_crisis_intervention(couple_id, crisis_score_id, rule_key)`
+    replaces the ten-argument version. The rule must be active, the crisis
+    score must belong to the couple, and its severity must be one the rule
+    applies to
+
+  ## Security
+  - Partners can no longer choose intervention text, type or severity
+*/
+
+DROP FUNCTION IF EXISTS record_crisis_intervention(uuid, uuid, text, text, text, text, text, boolean, integer, integer);
+
+CREATE OR REPLACE FUNCTION record_crisis_intervention(
+  p_couple_id uuid,
+  p_crisis_score_id uuid,
+  p_rule_key text
+)
+RETURNS crisis_interventions AS $$
+DECLARE
+  v_rule crisis_intervention_rules;
+  v_dedup_key text;
+  v_existing crisis_interventions;
+  v_result crisis_interventions;
+  v_levels text[] := ARRAY['moderate', 'high', 'critical'];
+  v_count integer;
+  v_severity text;
+  v_expires_at timestamptz;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM couples
+    WHERE id = p_couple_id
+      AND (partner_1_id = auth.uid() OR partner_2_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this couple';
+  END IF;
+
+  SELECT * INTO v_rule
+  FROM crisis_intervention_rules
+  WHERE rule_key = p_rule_key
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown intervention rule %', p_rule_key;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM crisis_scores
+    WHERE id = p_crisis_score_id
+      AND couple_id = p_couple_id
+      AND severity = ANY(v_rule.score_severities)
+  ) THEN
+    RAISE EXCEPTION 'Crisis score does not match rule %', p_rule_key;
+  END IF;
+
+  v_dedup_key := v_rule.intervention_type || ':' || v_rule.rule_key;
+  v_expires_at := now() + make_interval(hours => v_rule.expires_after_hours);
+
+  -- Serialize concurrent evaluations (cron and a partner recalculating) for
+  -- the same condition so only one row is ever open
+  PERFORM pg_advisory_xact_lock(hashtext(p_couple_id::text || ':' || v_dedup_key));
+
+  SELECT * INTO v_existing
+  FROM crisis_interventions
+  WHERE couple_id = p_couple_id
+    AND dedup_key = v_dedup_key
+    AND expires_at > now()
+  ORDER BY triggered_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    INSERT INTO crisis_interventions (
+      couple_id, crisis_score_id, dedup_key, intervention_type, severity,
+      title, message, action_required, expires_at
+    ) VALUES (
+      p_couple_id, p_crisis_score_id, v_dedup_key, v_rule.intervention_type, v_rule.intervention_severity,
+      v_rule.title, v_rule.message, v_rule.action_required, v_expires_at
+    )
+    RETURNING * INTO v_result;
+
+    RETURN v_result;
+  END IF;
+
+  v_count := v_existing.occurrence_count + 1;
+  -- Never lower a severity that has already been escalated
+  v_severity := v_levels[GREATEST(
+    array_position(v_levels, v_existing.severity),
+    array_position(v_levels, v_rule.intervention_severity)
+  )];
+
+  IF v_rule.escalate_after IS NOT NULL
+    AND v_count % v_rule.escalate_after = 0
+    AND v_severity <> 'critical' THEN
+    v_severity := v_levels[array_position(v_levels, v_severity) + 1];
+
+    UPDATE crisis_interventions
+    SET severity = v_severity,
+        action_required = action_required OR v_rule.action_required OR v_severity = 'critical',
+        action_taken = NULL,
+        acknowledged_at = NULL,
+        escalated_at = now(),
+        occurrence_count = v_count,
+        last_triggered_at = now(),
+        crisis_score_id = p_crisis_score_id,
+        expires_at = v_expires_at
+    WHERE id = v_existing.id
+    RETURNING * INTO v_result;
+
+    RETURN v_result;
+  END IF;
+
+  UPDATE crisis_interventions
+  SET severity = v_severity,
+      occurrence_count = v_count,
+      last_triggered_at = now(),
+      crisis_score_id = p_crisis_score_id,
+      expires_at = v_expires_at
+  WHERE id = v_existing.id
+  RETURNING * INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,48 @@
+/*
+  # Scope Stale Coaching Session Cleanup to the Caller
+
+  ## Overview
+  `auto_abandon_stale_coaching_sessions()` is SECURITY DEFINER and the web app
+  calls it whenever someone opens the coach, so any signed-in user was
+  abandoning every user's quiet sessions. It now only closes sessions the
+  caller owns or takes part in.
+
+  ## Changes
+  - Sessions are limited to `user_id = auth.uid()` or joint sessions the
+    caller is a participant in. The service role still closes every stale
+    session
+
+  ## Security
+  - Execute is revoked from PUBLIC and anon
+*/
+
+CREATE OR REPLACE FUNCTION auto_abandon_stale_coaching_sessions()
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+  v_all boolean := auth.role() IS NOT DISTINCT FROM 'service_role';
+BEGIN
+  WITH activity AS (
+    SELECT
+      cs.id,
+      GREATEST(cs.started_at, COALESCE(MAX(cm.created_at), cs.started_at)) AS last_activity
+    FROM coaching_sessions cs
+    LEFT JOIN coaching_messages cm ON cm.session_id = cs.id
+    WHERE cs.status = 'active'
+      AND (v_all OR cs.user_id = auth.uid() OR is_coaching_participant(cs.id))
+    GROUP BY cs.id, cs.started_at
+  )
+  UPDATE coaching_sessions
+  SET status = 'abandoned',
+      ended_at = activity.last_activity
+  FROM activity
+  WHERE coaching_sessions.id = activity.id
+    AND activity.last_activity < now() - interval '24 hours';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION auto_abandon_stale_coaching_sessions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION auto_abandon_stale_coaching_sessions() TO authenticated;
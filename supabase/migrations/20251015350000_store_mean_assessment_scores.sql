@@ -0,0 +1,30 @@
+/*
+  # Store Mean Assessment Scores
+
+  ## Overview
+  Mean-scored assessments (ECR-S) were banded on the mean but saved the sum
+  of the answers as `total_score`, so the stored score didn't match its band
+  or the scale it was charted on. The mean is now stored, which needs a
+  column that can hold fractions.
+
+  ## Changes
+  ### `assessment_responses`
+  - `total_score` is now numeric instead of integer
+  - Existing responses to mean-scored assessments are converted from the sum
+    to the mean of their answered questions, to two decimals
+*/
+
+ALTER TABLE assessment_responses
+  ALTER COLUMN total_score TYPE numeric USING total_score::numeric;
+
+UPDATE assessment_responses ar
+SET total_score = round(ar.total_score / answered.count, 2)
+FROM assessments a,
+  LATERAL (
+    SELECT count(*) AS count
+    FROM question_responses qr
+    WHERE qr.assessment_response_id = ar.id
+  ) answered
+WHERE a.id = ar.assessment_id
+  AND a.scoring_method = 'mean'
+  AND answered.count > 0;
@@ -0,0 +1,66 @@
+/*
+  # Enforce Zero Usage Limits
+
+  ## Overview
+  `consume_usage_quota` only compared the limit when a counter row already
+  existed, so the first call of each month was always allowed. A tier with a
+  limit of 0 (a feature turned off for that tier) still got one call a month.
+
+  ## Functions
+  - `consume_usage_quota(metric)` refuses the call before counting it when
+    the limit is 0 or less
+*/
+
+CREATE OR REPLACE FUNCTION consume_usage_quota(p_metric text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tier text;
+  v_limits jsonb;
+  v_limit integer;
+  v_period_start date := date_trunc('month', now())::date;
+  v_count integer;
+  v_allowed boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT tier_name, limits INTO v_tier, v_limits
+  FROM get_user_tier_limits(v_user_id);
+
+  v_limit := (v_limits->>(p_metric || '_per_month'))::integer;
+
+  -- The ON CONFLICT check below only applies once a row exists, so a limit
+  -- that allows nothing has to be checked before the first insert
+  IF v_limit IS NULL OR v_limit > 0 THEN
+    -- Increment only while under the limit, so concurrent calls can't overshoot
+    INSERT INTO usage_counters (user_id, metric, period_start, count)
+    VALUES (v_user_id, p_metric, v_period_start, 1)
+    ON CONFLICT (user_id, metric, period_start) DO UPDATE
+    SET count = usage_counters.count + 1,
+        updated_at = now()
+    WHERE v_limit IS NULL OR usage_counters.count < v_limit
+    RETURNING count INTO v_count;
+  END IF;
+
+  -- No row comes back when the limit was already reached
+  v_allowed := v_count IS NOT NULL;
+
+  IF NOT v_allowed THEN
+    SELECT COALESCE(MAX(count), 0) INTO v_count
+    FROM usage_counters
+    WHERE user_id = v_user_id
+      AND metric = p_metric
+      AND period_start = v_period_start;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', v_allowed,
+    'used', v_count,
+    'limit', v_limit,
+    'tier', v_tier,
+    'resets_at', (v_period_start + interval '1 month')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
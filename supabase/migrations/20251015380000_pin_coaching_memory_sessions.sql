@@ -0,0 +1,48 @@
+/*
+  # Pin Coaching Memories to Their Session
+
+  ## Overview
+  The update policy on `coaching_memories` only checked `user_id`, so the
+  owner could point a memory at another session, including one that isn't
+  theirs. A memory now stays attached to the session it summarizes.
+
+  ## Changes
+  - "Users can update own coaching memories" also requires the session to be
+    one of the user's own, like the insert policy
+  - `session_id` can't be changed once the memory exists. The summary
+    function's upsert writes the same value, so it is unaffected
+
+  ## Security
+  - Memories can't be moved onto other users' sessions
+*/
+
+DROP POLICY IF EXISTS "Users can update own coaching memories" ON coaching_memories;
+CREATE POLICY "Users can update own coaching memories"
+  ON coaching_memories FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM coaching_sessions
+      WHERE coaching_sessions.id = coaching_memories.session_id
+      AND coaching_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION pin_coaching_memory_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.session_id IS DISTINCT FROM OLD.session_id THEN
+    RAISE EXCEPTION 'A coaching memory stays with its session';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_pin_coaching_memory_session ON coaching_memories;
+CREATE TRIGGER trigger_pin_coaching_memory_session
+  BEFORE UPDATE OF session_id ON coaching_memories
+  FOR EACH ROW
+  EXECUTE FUNCTION pin_coaching_memory_session();
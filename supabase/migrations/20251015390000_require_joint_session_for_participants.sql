@@ -0,0 +1,61 @@
+/*
+  # Require a Joint Session for Participant Access
+
+  ## Overview
+  The participant policies on `coaching_messages` only checked for a row in
+  `coaching_session_participants`. A participant row left on a session that
+  isn't joint (or added to one) gave that user the session's private
+  messages. Participant access now also requires the session to be joint.
+
+  ## Changes
+  - "Participants can view joint session messages" and "Participants can
+    create joint session messages" require `coaching_sessions.is_joint`
+  - "Session creators can invite participants" only allows inviting to joint
+    sessions
+
+  ## Security
+  - Private coaching transcripts are only readable by their owner
+*/
+
+DROP POLICY IF EXISTS "Participants can view joint session messages" ON coaching_messages;
+CREATE POLICY "Participants can view joint session messages"
+  ON coaching_messages FOR SELECT
+  TO authenticated
+  USING (
+    is_coaching_participant(session_id)
+    AND EXISTS (
+      SELECT 1 FROM coaching_sessions s
+      WHERE s.id = coaching_messages.session_id
+      AND s.is_joint
+    )
+  );
+
+DROP POLICY IF EXISTS "Participants can create joint session messages" ON coaching_messages;
+CREATE POLICY "Participants can create joint session messages"
+  ON coaching_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_coaching_participant(session_id)
+    AND sender_id = auth.uid()
+    AND role = 'user'
+    AND EXISTS (
+      SELECT 1 FROM coaching_sessions s
+      WHERE s.id = coaching_messages.session_id
+      AND s.is_joint
+    )
+  );
+
+DROP POLICY IF EXISTS "Session creators can invite participants" ON coaching_session_participants;
+CREATE POLICY "Session creators can invite participants"
+  ON coaching_session_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM coaching_sessions
+      JOIN couples ON couples.id = coaching_sessions.couple_id
+      WHERE coaching_sessions.id = coaching_session_participants.session_id
+      AND coaching_sessions.user_id = auth.uid()
+      AND coaching_sessions.is_joint
+      AND coaching_session_participants.user_id IN (couples.partner_1_id, couples.partner_2_id)
+    )
+  );